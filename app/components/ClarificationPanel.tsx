@@ -0,0 +1,186 @@
+"use client";
+// app/components/ClarificationPanel.tsx
+// Clarification question with structured choices: genre chips, an energy range
+// and duration options, plus a free-text answer.
+
+import { useState } from "react";
+import type { ClarificationAnswer, ClarificationOptions } from "../../src/lib/types";
+
+interface ClarificationPanelProps {
+  question: string;
+  options?: ClarificationOptions;
+  onAnswer: (answer: ClarificationAnswer) => void;
+}
+
+const chipStyle = (selected: boolean): React.CSSProperties => ({
+  display: "inline-flex",
+  alignItems: "center",
+  padding: "6px 14px",
+  borderRadius: "9999px",
+  fontSize: "12px",
+  fontWeight: 500,
+  background: selected ? "rgba(168, 85, 247, 0.3)" : "rgba(168, 85, 247, 0.10)",
+  border: `1px solid ${selected ? "rgba(168, 85, 247, 0.7)" : "rgba(168, 85, 247, 0.25)"}`,
+  color: "var(--color-accent-bright)",
+  cursor: "pointer",
+  fontFamily: "inherit",
+  transition: "all 0.15s ease",
+});
+
+const labelStyle: React.CSSProperties = {
+  fontSize: "12px",
+  fontWeight: 500,
+  color: "var(--color-text-tertiary)",
+  display: "block",
+  marginBottom: "6px",
+};
+
+export function ClarificationPanel({ question, options, onAnswer }: ClarificationPanelProps) {
+  const [text, setText] = useState("");
+  const [genres, setGenres] = useState<string[]>([]);
+  const [energy, setEnergy] = useState<[number, number] | null>(null);
+  const [duration, setDuration] = useState<number | null>(null);
+
+  const energyValue = energy ?? options?.energyRange ?? [4, 7];
+  const hasAnswer = text.trim() !== "" || genres.length > 0 || energy !== null || duration !== null;
+
+  const toggleGenre = (genre: string) =>
+    setGenres(prev => prev.includes(genre) ? prev.filter(g => g !== genre) : [...prev, genre]);
+
+  const setEnergyBound = (index: 0 | 1, value: number) => {
+    const next: [number, number] = [...energyValue];
+    next[index] = value;
+    // Keep min <= max whichever thumb moved
+    if (next[0] > next[1]) next[index === 0 ? 1 : 0] = value;
+    setEnergy(next);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!hasAnswer) return;
+    onAnswer({
+      text: text.trim() || undefined,
+      genres: genres.length > 0 ? genres : undefined,
+      energyRange: energy ?? undefined,
+      targetDurationMinutes: duration ?? undefined,
+    });
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      style={{
+        marginBottom: "16px",
+        padding: "16px",
+        borderRadius: "16px",
+        background: "rgba(168, 85, 247, 0.1)",
+        border: "1px solid rgba(168, 85, 247, 0.2)",
+        display: "flex",
+        flexDirection: "column",
+        gap: "14px",
+      }}
+    >
+      <div style={{ display: "flex", alignItems: "flex-start", gap: "12px" }}>
+        <span style={{ fontSize: "18px", marginTop: "2px" }}>{"\u{1F4AC}"}</span>
+        <div>
+          <span style={{ fontWeight: 600, fontSize: "14px", color: "var(--color-accent-bright)", display: "block" }}>
+            Quick question
+          </span>
+          <p style={{ fontSize: "14px", marginTop: "4px", color: "var(--color-text-secondary)" }}>
+            {question}
+          </p>
+        </div>
+      </div>
+
+      {options && options.genres.length > 0 && (
+        <div>
+          <span style={labelStyle}>Genres</span>
+          <div style={{ display: "flex", flexWrap: "wrap", gap: "8px" }}>
+            {options.genres.map(genre => (
+              <button
+                key={genre}
+                type="button"
+                className="chip-touch"
+                aria-pressed={genres.includes(genre)}
+                onClick={() => toggleGenre(genre)}
+                style={chipStyle(genres.includes(genre))}
+              >
+                {genre}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {options && (
+        <div>
+          <span style={labelStyle}>
+            Energy: {energyValue[0]}{"\u2013"}{energyValue[1]} / 10
+          </span>
+          <div style={{ display: "flex", gap: "12px" }}>
+            <input
+              type="range"
+              min={1}
+              max={10}
+              value={energyValue[0]}
+              onChange={e => setEnergyBound(0, Number(e.target.value))}
+              aria-label="Minimum energy"
+              style={{ flex: 1, accentColor: "var(--color-accent)" }}
+            />
+            <input
+              type="range"
+              min={1}
+              max={10}
+              value={energyValue[1]}
+              onChange={e => setEnergyBound(1, Number(e.target.value))}
+              aria-label="Maximum energy"
+              style={{ flex: 1, accentColor: "var(--color-accent)" }}
+            />
+          </div>
+        </div>
+      )}
+
+      {options && options.durationMinutes.length > 0 && (
+        <div>
+          <span style={labelStyle}>Length</span>
+          <div style={{ display: "flex", flexWrap: "wrap", gap: "8px" }}>
+            {options.durationMinutes.map(mins => (
+              <button
+                key={mins}
+                type="button"
+                className="chip-touch"
+                aria-pressed={duration === mins}
+                onClick={() => setDuration(duration === mins ? null : mins)}
+                style={chipStyle(duration === mins)}
+              >
+                {mins >= 60 && mins % 60 === 0 ? `${mins / 60}h` : `${mins} min`}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div style={{ display: "flex", gap: "8px" }}>
+        <input
+          value={text}
+          onChange={e => setText(e.target.value)}
+          placeholder={"Or just tell me\u2026"}
+          style={{
+            flex: 1,
+            borderRadius: "9999px",
+            padding: "10px 18px",
+            fontSize: "14px",
+            fontFamily: "inherit",
+            background: "rgba(255,255,255,0.06)",
+            border: "2px solid rgba(255,255,255,0.10)",
+            color: "var(--color-text)",
+            outline: "none",
+          }}
+        />
+        <button type="submit" disabled={!hasAnswer} className="btn-primary shrink-0 !px-6">
+          Continue
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,254 @@
+"use client";
+// app/components/IntentEditor.tsx
+// Editable form for the PlaylistIntent parsed by Clarify (two-phase build).
+// List fields are comma-separated text; the confirmed intent goes to buildFromIntent.
+
+import { useState } from "react";
+import type { PlaylistIntent, UnknownTempoPolicy } from "../../src/lib/types";
+
+interface IntentEditorProps {
+  intent: PlaylistIntent;
+  onConfirm: (intent: PlaylistIntent) => void;
+  onCancel: () => void;
+}
+
+const UNKNOWN_TEMPO_CHOICES: Array<{ value: UnknownTempoPolicy; label: string }> = [
+  { value: "keep", label: "Keep them" },
+  { value: "deprioritize", label: "Use them last" },
+  { value: "drop", label: "Leave them out" },
+];
+
+const ERA_CHOICES = ["1960s", "1970s", "1980s", "1990s", "2000s", "2010s", "2020s", "classic", "modern"];
+
+type ListField = "genres" | "subGenres" | "moods" | "vibeKeywords" | "artistPreferences" | "excludeArtists";
+
+const LIST_FIELDS: Array<{ field: ListField; label: string }> = [
+  { field: "genres", label: "Genres" },
+  { field: "subGenres", label: "Sub-genres" },
+  { field: "moods", label: "Moods" },
+  { field: "vibeKeywords", label: "Vibe" },
+  { field: "artistPreferences", label: "More of these artists" },
+  { field: "excludeArtists", label: "Never these artists" },
+];
+
+const labelStyle: React.CSSProperties = {
+  fontSize: "12px",
+  fontWeight: 500,
+  color: "var(--color-text-tertiary)",
+  display: "block",
+  marginBottom: "4px",
+};
+
+const inputStyle: React.CSSProperties = {
+  width: "100%",
+  boxSizing: "border-box",
+  borderRadius: "12px",
+  padding: "8px 12px",
+  fontSize: "14px",
+  fontFamily: "inherit",
+  background: "rgba(255,255,255,0.06)",
+  border: "1px solid rgba(255,255,255,0.10)",
+  color: "var(--color-text)",
+  outline: "none",
+};
+
+function splitList(value: string): string[] {
+  return value.split(",").map(v => v.trim()).filter(Boolean);
+}
+
+/** Constraints parsed from the prompt; not editable here, but carried through to the build. */
+function describeHardLimits(intent: PlaylistIntent): string[] {
+  const limits: string[] = [];
+  if (intent.albumMode) limits.push("full albums, in album order");
+  if (intent.radioArtist) limits.push(`${intent.radioArtist} radio`);
+  if (intent.bpmRange) limits.push(`${intent.bpmRange[0]}\u2013${intent.bpmRange[1]} BPM`);
+  if (intent.allowedKeys?.length) limits.push(`keys ${intent.allowedKeys.join(", ")}`);
+  if (intent.yearRange) limits.push(`released ${intent.yearRange[0]}\u2013${intent.yearRange[1]}`);
+  if (intent.maxTracksPerArtist != null) limits.push(`max ${intent.maxTracksPerArtist} per artist`);
+  if (intent.requiredArtists?.length) limits.push(`must include ${intent.requiredArtists.join(", ")}`);
+  for (const track of intent.requiredTracks ?? []) {
+    limits.push(track.artist ? `"${track.title}" by ${track.artist}` : `"${track.title}"`);
+  }
+  return limits;
+}
+
+export function IntentEditor({ intent, onConfirm, onCancel }: IntentEditorProps) {
+  const [lists, setLists] = useState<Record<ListField, string>>(() =>
+    Object.fromEntries(LIST_FIELDS.map(({ field }) => [field, intent[field].join(", ")])) as Record<ListField, string>
+  );
+  const [energy, setEnergy] = useState<[number, number]>(intent.energyRange);
+  const [duration, setDuration] = useState(intent.targetDurationMinutes);
+  const [era, setEra] = useState(intent.eraPreference ?? "");
+  const [referenceQuality, setReferenceQuality] = useState(intent.referenceQuality);
+  const [unknownTempo, setUnknownTempo] = useState<UnknownTempoPolicy>(intent.unknownTempoPolicy ?? "keep");
+  const hasTempoLimit = !!intent.bpmRange || !!intent.allowedKeys?.length;
+  const hardLimits = describeHardLimits(intent);
+
+  const setEnergyBound = (index: 0 | 1, value: number) => {
+    const next: [number, number] = [...energy];
+    next[index] = value;
+    if (next[0] > next[1]) next[index === 0 ? 1 : 0] = value;
+    setEnergy(next);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onConfirm({
+      ...intent,
+      genres: splitList(lists.genres),
+      subGenres: splitList(lists.subGenres),
+      moods: splitList(lists.moods),
+      vibeKeywords: splitList(lists.vibeKeywords),
+      artistPreferences: splitList(lists.artistPreferences),
+      excludeArtists: splitList(lists.excludeArtists),
+      energyRange: energy,
+      targetDurationMinutes: duration,
+      // Duration drives the track count once the user has edited it
+      targetTrackCount: duration === intent.targetDurationMinutes ? intent.targetTrackCount : null,
+      eraPreference: era || null,
+      referenceQuality,
+      unknownTempoPolicy: hasTempoLimit ? unknownTempo : intent.unknownTempoPolicy,
+    });
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      style={{
+        marginBottom: "16px",
+        padding: "16px",
+        borderRadius: "16px",
+        background: "rgba(168, 85, 247, 0.1)",
+        border: "1px solid rgba(168, 85, 247, 0.2)",
+        display: "flex",
+        flexDirection: "column",
+        gap: "12px",
+      }}
+    >
+      <div>
+        <span style={{ fontWeight: 600, fontSize: "14px", color: "var(--color-accent-bright)", display: "block" }}>
+          Here&apos;s what I understood
+        </span>
+        <p style={{ fontSize: "13px", marginTop: "4px", color: "var(--color-text-secondary)" }}>
+          {intent.description} {"\u2014"} adjust anything before the build starts.
+        </p>
+        {intent.normalization && intent.normalization.corrections.length > 0 && (
+          <p style={{ fontSize: "12px", marginTop: "6px", color: "var(--color-text-tertiary)" }}>
+            Adjusted: {intent.normalization.corrections
+              .map(c => `${c.from} \u2192 ${c.to ?? "dropped"}`)
+              .join(", ")}
+          </p>
+        )}
+        {hardLimits.length > 0 && (
+          <p style={{ fontSize: "12px", marginTop: "4px", color: "var(--color-text-tertiary)" }}>
+            Hard limits: {hardLimits.join(" \u00B7 ")}
+          </p>
+        )}
+        {intent.normalization && intent.normalization.unknownGenres.length > 0 && (
+          <p style={{ fontSize: "12px", marginTop: "4px", color: "var(--color-text-tertiary)" }}>
+            Not in our genre map (matched loosely): {intent.normalization.unknownGenres.join(", ")}
+          </p>
+        )}
+      </div>
+
+      {LIST_FIELDS.map(({ field, label }) => (
+        <label key={field}>
+          <span style={labelStyle}>{label}</span>
+          <input
+            value={lists[field]}
+            onChange={e => setLists(prev => ({ ...prev, [field]: e.target.value }))}
+            placeholder="Comma-separated"
+            style={inputStyle}
+          />
+        </label>
+      ))}
+
+      <div>
+        <span style={labelStyle}>
+          Energy: {energy[0]}{"\u2013"}{energy[1]} / 10
+        </span>
+        <div style={{ display: "flex", gap: "12px" }}>
+          <input
+            type="range"
+            min={1}
+            max={10}
+            value={energy[0]}
+            onChange={e => setEnergyBound(0, Number(e.target.value))}
+            aria-label="Minimum energy"
+            style={{ flex: 1, accentColor: "var(--color-accent)" }}
+          />
+          <input
+            type="range"
+            min={1}
+            max={10}
+            value={energy[1]}
+            onChange={e => setEnergyBound(1, Number(e.target.value))}
+            aria-label="Maximum energy"
+            style={{ flex: 1, accentColor: "var(--color-accent)" }}
+          />
+        </div>
+      </div>
+
+      <div style={{ display: "flex", gap: "12px" }}>
+        <label style={{ flex: 1 }}>
+          <span style={labelStyle}>Length (minutes)</span>
+          <input
+            type="number"
+            min={10}
+            max={300}
+            value={duration}
+            onChange={e => setDuration(Number(e.target.value) || 60)}
+            style={inputStyle}
+          />
+        </label>
+        <label style={{ flex: 1 }}>
+          <span style={labelStyle}>Era</span>
+          <select value={era} onChange={e => setEra(e.target.value)} style={inputStyle}>
+            <option value="">Any</option>
+            {/* Keep an off-list era from the parser selectable */}
+            {intent.eraPreference && !ERA_CHOICES.includes(intent.eraPreference) && (
+              <option value={intent.eraPreference}>{intent.eraPreference}</option>
+            )}
+            {ERA_CHOICES.map(choice => (
+              <option key={choice} value={choice}>{choice}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {hasTempoLimit && (
+        <label>
+          <span style={labelStyle}>Tracks with no BPM or key estimate</span>
+          <select
+            value={unknownTempo}
+            onChange={e => setUnknownTempo(e.target.value as UnknownTempoPolicy)}
+            style={inputStyle}
+          >
+            {UNKNOWN_TEMPO_CHOICES.map(choice => (
+              <option key={choice.value} value={choice.value}>{choice.label}</option>
+            ))}
+          </select>
+        </label>
+      )}
+
+      <label style={{ display: "flex", alignItems: "center", gap: "8px", fontSize: "13px", color: "var(--color-text-secondary)" }}>
+        <input
+          type="checkbox"
+          checked={referenceQuality}
+          onChange={e => setReferenceQuality(e.target.checked)}
+          style={{ accentColor: "var(--color-accent)" }}
+        />
+        Reference-quality Atmos mixes only
+      </label>
+
+      <div style={{ display: "flex", gap: "8px", justifyContent: "flex-end" }}>
+        <button type="button" onClick={onCancel} className="btn-ghost">
+          Cancel
+        </button>
+        <button type="submit" className="btn-primary shrink-0 !px-6">
+          Build with this
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -6,10 +6,19 @@ import { useEffect, useState } from "react";
 import { getFunctions, httpsCallable } from "firebase/functions";
 import { app } from "../lib/firebase";
 import { SaveToAppleMusic } from "./SaveToAppleMusic";
-import type { AtmosPlaylist, VerifiedTrack } from "../../src/lib/types";
+import type {
+  AtmosPlaylist,
+  BuildTrace,
+  PlaylistEditOp,
+  PlaylistEditResponse,
+  TrackProvenance,
+  VerifiedTrack,
+} from "../../src/lib/types";
 
 interface PlaylistResultsProps {
   playlist: AtmosPlaylist;
+  /** Enables the per-track remove / pin / replace controls. */
+  onPlaylistChange?: (playlist: AtmosPlaylist) => void;
 }
 
 // -- Artwork fetching ----------------------------------------------------------
@@ -165,74 +174,270 @@ function AtmosBadge({
   return null;
 }
 
-function TrackCard({
-  track,
-  artworkUrl,
-}: {
-  track: VerifiedTrack;
-  artworkUrl?: string;
-}) {
+// -- Track provenance ----------------------------------------------------------
+
+const MATCH_SOURCE_LABELS: Record<string, string> = {
+  artist: "Artist match",
+  genre: "Genre match",
+  mood: "Mood match",
+};
+
+function ProvenanceDetails({ provenance }: { provenance: TrackProvenance }) {
+  const rows: Array<[string, string]> = [];
+  if (provenance.source) {
+    const attr = provenance.matchedAttribute ? ` (${provenance.matchedAttribute})` : "";
+    rows.push(["Found via", `${MATCH_SOURCE_LABELS[provenance.source] ?? provenance.source}${attr}`]);
+  }
+  if (provenance.discoveredArtist) rows.push(["Discovered artist", provenance.discoveredArtist]);
+  if (provenance.genreContext) rows.push(["Context", provenance.genreContext]);
+  if (provenance.knownFor) rows.push(["Known for", provenance.knownFor]);
+  if (provenance.preScore != null) rows.push(["Pre-score", provenance.preScore.toFixed(1)]);
+  if (provenance.selectionRationale) rows.push(["Why it was picked", provenance.selectionRationale]);
+  if (provenance.gapFill) rows.push(["Added by", "Gap-fill from the unused pool"]);
+  if (provenance.replacedDocId) rows.push(["Added by", "Replace with something similar"]);
+  if (provenance.transitionScore != null) {
+    rows.push(["Transition from previous", `${Math.round(provenance.transitionScore * 100)}%`]);
+  }
+
   return (
     <div
-      className="flex items-center gap-3 px-4 py-3 transition-all"
+      className="grid gap-x-4 gap-y-1 px-4 pb-3"
       style={{
-        minHeight: "56px",
-        borderRadius: "var(--radius-md)",
-      }}
-      onMouseEnter={e => {
-        e.currentTarget.style.background = "var(--color-surface-hover)";
+        gridTemplateColumns: "auto 1fr",
+        marginLeft: "56px",
+        fontSize: "12px",
+        lineHeight: "16px",
+        color: "var(--color-text-tertiary)",
       }}
-      onMouseLeave={e => {
-        e.currentTarget.style.background = "transparent";
+    >
+      {rows.map(([label, value]) => (
+        <div key={label} className="contents">
+          <span>{label}</span>
+          <span style={{ color: "var(--color-text-secondary)" }}>{value}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function TrackEditButton({
+  label,
+  title,
+  active,
+  disabled,
+  onClick,
+}: {
+  label: string;
+  title: string;
+  active?: boolean;
+  disabled?: boolean;
+  onClick: () => void;
+}) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      disabled={disabled}
+      title={title}
+      aria-label={title}
+      aria-pressed={active}
+      className="rounded-full px-2 py-0.5"
+      style={{
+        fontSize: "11px",
+        fontWeight: 500,
+        letterSpacing: "0.5px",
+        color: active ? "var(--color-accent-bright)" : "var(--color-text-tertiary)",
+        border: "1px solid var(--color-border-subtle)",
+        opacity: disabled ? 0.4 : 1,
       }}
     >
-      <AlbumArt artist={track.Artist} artworkUrl={artworkUrl} />
+      {label}
+    </button>
+  );
+}
 
-      <div className="flex-1 min-w-0">
-        <div className="flex items-center gap-2">
-          <span
-            className="truncate"
-            style={{
-              fontSize: "14px",
-              lineHeight: "20px",
-              fontWeight: 500,
-              color: "var(--color-text)",
-              letterSpacing: "0.1px",
-            }}
-          >
-            {track.track_Title}
-          </span>
+export function TrackCard({
+  track,
+  artworkUrl,
+  onEdit,
+  editing = false,
+}: {
+  track: VerifiedTrack;
+  artworkUrl?: string;
+  /** Per-track edit controls are shown only when this is set. */
+  onEdit?: (op: PlaylistEditOp) => void;
+  /** An edit is in flight -- controls are disabled. */
+  editing?: boolean;
+}) {
+  const [showWhy, setShowWhy] = useState(false);
+
+  return (
+    <div>
+      <div
+        className="flex items-center gap-3 px-4 py-3 transition-all"
+        style={{
+          minHeight: "56px",
+          borderRadius: "var(--radius-md)",
+        }}
+        onMouseEnter={e => {
+          e.currentTarget.style.background = "var(--color-surface-hover)";
+        }}
+        onMouseLeave={e => {
+          e.currentTarget.style.background = "transparent";
+        }}
+      >
+        <AlbumArt artist={track.Artist} artworkUrl={artworkUrl} />
+
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center gap-2">
+            <span
+              className="truncate"
+              style={{
+                fontSize: "14px",
+                lineHeight: "20px",
+                fontWeight: 500,
+                color: "var(--color-text)",
+                letterSpacing: "0.1px",
+              }}
+            >
+              {track.track_Title}
+            </span>
+          </div>
+          <div className="truncate mt-0.5">
+            <span
+              style={{
+                fontSize: "12px",
+                lineHeight: "16px",
+                color: "var(--color-text-secondary)",
+                letterSpacing: "0.4px",
+              }}
+            >
+              {track.Artist}
+              {track.album && ` \u00B7 ${track.album}`}
+            </span>
+          </div>
         </div>
-        <div className="truncate mt-0.5">
+
+        <div className="flex items-center gap-2 shrink-0 track-card-meta">
+          <AtmosBadge verified={track.atmosVerified} warning={track.atmosWarning} />
           <span
             style={{
               fontSize: "12px",
-              lineHeight: "16px",
-              color: "var(--color-text-secondary)",
-              letterSpacing: "0.4px",
+              fontWeight: 500,
+              letterSpacing: "0.5px",
+              color: "var(--color-text-tertiary)",
+              fontVariantNumeric: "tabular-nums",
             }}
           >
-            {track.Artist}
-            {track.album && ` \u00B7 ${track.album}`}
+            {formatDuration(track.durationMs, track.durationEstimated)}
           </span>
+          {track.provenance && (
+            <button
+              type="button"
+              onClick={() => setShowWhy(v => !v)}
+              aria-expanded={showWhy}
+              title="Why this track?"
+              className="rounded-full px-2 py-0.5"
+              style={{
+                fontSize: "11px",
+                fontWeight: 500,
+                letterSpacing: "0.5px",
+                color: showWhy ? "var(--color-accent-bright)" : "var(--color-text-tertiary)",
+                border: "1px solid var(--color-border-subtle)",
+              }}
+            >
+              Why?
+            </button>
+          )}
+          {onEdit && (
+            <>
+              <TrackEditButton
+                label={track.pinned ? "Pinned" : "Pin"}
+                title={track.pinned ? "Unpin -- let this track move" : "Pin -- keep this track in place"}
+                active={track.pinned}
+                disabled={editing}
+                onClick={() => onEdit({ type: "pin", docId: track.docId, pinned: !track.pinned })}
+              />
+              <TrackEditButton
+                label="Swap"
+                title="Replace with something similar"
+                disabled={editing}
+                onClick={() => onEdit({ type: "replace", docId: track.docId })}
+              />
+              <TrackEditButton
+                label={"\u2715"}
+                title="Remove from playlist"
+                disabled={editing}
+                onClick={() => onEdit({ type: "remove", docId: track.docId })}
+              />
+            </>
+          )}
         </div>
       </div>
+      {showWhy && track.provenance && <ProvenanceDetails provenance={track.provenance} />}
+    </div>
+  );
+}
 
-      <div className="flex items-center gap-2 shrink-0 track-card-meta">
-        <AtmosBadge verified={track.atmosVerified} warning={track.atmosWarning} />
-        <span
-          style={{
-            fontSize: "12px",
-            fontWeight: 500,
-            letterSpacing: "0.5px",
-            color: "var(--color-text-tertiary)",
-            fontVariantNumeric: "tabular-nums",
-          }}
-        >
-          {formatDuration(track.durationMs, track.durationEstimated)}
-        </span>
+// -- Debug trace ---------------------------------------------------------------
+
+function BuildTracePanel({ trace }: { trace: BuildTrace }) {
+  return (
+    <details
+      className="mt-2 overflow-hidden"
+      style={{
+        background: "var(--color-surface)",
+        border: "1px solid var(--color-border-subtle)",
+        borderRadius: "var(--radius-lg)",
+      }}
+    >
+      <summary
+        className="px-4 py-3 cursor-pointer select-none"
+        style={{
+          fontSize: "12px",
+          fontWeight: 500,
+          letterSpacing: "0.5px",
+          color: "var(--color-text-secondary)",
+        }}
+      >
+        Debug trace
+      </summary>
+      <div className="px-4 pb-3 space-y-3" style={{ fontSize: "12px", color: "var(--color-text-tertiary)" }}>
+        {trace.stages.map(stage => (
+          <div key={stage.stage}>
+            <div className="flex items-center justify-between" style={{ color: "var(--color-text-secondary)" }}>
+              <span style={{ fontWeight: 600, textTransform: "capitalize" }}>{stage.stage}</span>
+              <span style={{ fontVariantNumeric: "tabular-nums" }}>
+                {stage.inputCount != null && `${stage.inputCount} \u2192 `}
+                {stage.outputCount ?? "\u2013"}
+                {stage.cacheHits != null && ` \u00B7 ${stage.cacheHits} cached`}
+                {stage.durationMs != null && ` \u00B7 ${(stage.durationMs / 1000).toFixed(1)}s`}
+              </span>
+            </div>
+            {stage.notes.map((note, i) => (
+              <div key={i} className="mt-0.5">{note}</div>
+            ))}
+            {stage.droppedCount > 0 && (
+              <details className="mt-1">
+                <summary className="cursor-pointer select-none">
+                  {stage.droppedCount} dropped
+                </summary>
+                <ul className="mt-1 space-y-0.5 pl-3">
+                  {stage.dropped.map((item, i) => (
+                    <li key={`${item.docId ?? item.label}-${i}`}>
+                      {item.label} {"\u2014"} {item.reason}
+                    </li>
+                  ))}
+                  {stage.droppedCount > stage.dropped.length && (
+                    <li>{"\u2026"} and {stage.droppedCount - stage.dropped.length} more</li>
+                  )}
+                </ul>
+              </details>
+            )}
+          </div>
+        ))}
       </div>
-    </div>
+    </details>
   );
 }
 
@@ -309,8 +514,31 @@ function ShareButton({ playlist }: { playlist: AtmosPlaylist }) {
 
 // -- Main component ------------------------------------------------------------
 
-export function PlaylistResults({ playlist }: PlaylistResultsProps) {
+export function PlaylistResults({ playlist, onPlaylistChange }: PlaylistResultsProps) {
   const [artworkMap, setArtworkMap] = useState<Map<string, string>>(new Map());
+  const [editing, setEditing] = useState(false);
+  const [editError, setEditError] = useState<string | null>(null);
+
+  const handleEdit = async (op: PlaylistEditOp) => {
+    if (!onPlaylistChange) return;
+    setEditing(true);
+    setEditError(null);
+    try {
+      const functions = getFunctions(app);
+      const editPlaylist = httpsCallable<
+        { playlist: AtmosPlaylist; ops: PlaylistEditOp[] },
+        PlaylistEditResponse
+      >(functions, "editPlaylist");
+
+      const { data } = await editPlaylist({ playlist, ops: [op] });
+      onPlaylistChange(data.playlist);
+      if (data.unresolved.length > 0) setEditError(data.unresolved[0].reason);
+    } catch (err) {
+      setEditError(err instanceof Error ? err.message : "Edit failed -- try again");
+    } finally {
+      setEditing(false);
+    }
+  };
 
   useEffect(() => {
     const ids = playlist.tracks.map(t => t.Apple_Music_ID);
@@ -352,6 +580,18 @@ export function PlaylistResults({ playlist }: PlaylistResultsProps) {
         >
           {playlist.description}
         </p>
+        {playlist.buildMetadata.refinementSummary && (
+          <p
+            className="mt-1"
+            style={{
+              fontSize: "12px",
+              letterSpacing: "0.4px",
+              color: "var(--color-accent-bright)",
+            }}
+          >
+            Refined: {playlist.buildMetadata.refinementSummary}
+          </p>
+        )}
 
         {/* Stats row */}
         <div
@@ -436,8 +676,23 @@ export function PlaylistResults({ playlist }: PlaylistResultsProps) {
             <span className="text-right" style={{ color: "var(--color-text-secondary)" }}>
               {(playlist.buildMetadata.buildDurationMs / 1000).toFixed(1)}s
             </span>
+            {playlist.buildMetadata.cost && (
+              <>
+                <span>API calls</span>
+                <span className="text-right" style={{ color: "var(--color-text-secondary)" }}>
+                  {playlist.buildMetadata.cost.requests}
+                </span>
+                <span>Est. API cost</span>
+                <span className="text-right" style={{ color: "var(--color-text-secondary)" }}>
+                  ${playlist.buildMetadata.cost.estimatedCostUsd.toFixed(4)}
+                </span>
+              </>
+            )}
           </div>
         </details>
+
+        {/* Debug trace */}
+        {playlist.buildMetadata.trace && <BuildTracePanel trace={playlist.buildMetadata.trace} />}
       </div>
 
       {/* Actions: Save + Share */}
@@ -446,6 +701,20 @@ export function PlaylistResults({ playlist }: PlaylistResultsProps) {
         <ShareButton playlist={playlist} />
       </div>
 
+      {editError && (
+        <p
+          className="mb-3"
+          role="alert"
+          style={{
+            fontSize: "12px",
+            letterSpacing: "0.4px",
+            color: "var(--color-atmos-warning)",
+          }}
+        >
+          {editError}
+        </p>
+      )}
+
       {/* Track list */}
       <div
         className="overflow-hidden"
@@ -471,6 +740,8 @@ export function PlaylistResults({ playlist }: PlaylistResultsProps) {
             <TrackCard
               track={track}
               artworkUrl={artworkMap.get(track.Apple_Music_ID)}
+              onEdit={onPlaylistChange ? handleEdit : undefined}
+              editing={editing}
             />
           </div>
         ))}
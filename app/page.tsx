@@ -6,13 +6,23 @@ import { useState, useEffect, useRef, useCallback } from "react";
 import { getFunctions, httpsCallable } from "firebase/functions";
 import { getFirestore, doc, onSnapshot } from "firebase/firestore";
 import { app } from "./lib/firebase";
-import { PlaylistResults } from "./components/PlaylistResults";
+import { PlaylistResults, TrackCard } from "./components/PlaylistResults";
+import { ClarificationPanel } from "./components/ClarificationPanel";
+import { IntentEditor } from "./components/IntentEditor";
 import {
   loadRecent,
   saveRecent,
   type StoredPlaylist,
 } from "./lib/recentPlaylists";
-import type { AtmosPlaylist } from "../src/lib/types";
+import type {
+  AtmosPlaylist,
+  ClarificationAnswer,
+  ClarificationOptions,
+  ClarificationReply,
+  ClarificationSession,
+  PlaylistIntent,
+  VerifiedTrack,
+} from "../src/lib/types";
 
 const FALLBACK_STAGES = [
   { delay: 0,      message: "Analyzing your request\u2026" },
@@ -27,33 +37,40 @@ const FALLBACK_STAGES = [
 type AppState =
   | { kind: "idle" }
   | { kind: "loading"; startedAt: number; jobId: string }
-  | { kind: "clarify"; question: string }
+  | {
+      kind: "clarify";
+      question: string;
+      options?: ClarificationOptions;
+      session?: ClarificationSession; // sent back with the answer so context carries over
+    }
+  | { kind: "intent"; intent: PlaylistIntent } // parsed, waiting for the user to confirm edits
   | { kind: "result"; playlist: AtmosPlaylist }
   | { kind: "refining"; playlist: AtmosPlaylist; startedAt: number; jobId: string }
   | { kind: "error"; message: string };
 
 type PipelineResponse =
   | { status: "success"; playlist: AtmosPlaylist }
-  | { status: "needs_clarification"; clarificationQuestion: string }
+  | {
+      status: "needs_clarification";
+      clarificationQuestion: string;
+      clarificationOptions?: ClarificationOptions;
+      clarificationSession?: ClarificationSession;
+    }
   | { status: "error"; error: string };
 
-function mergePlaylists(existing: AtmosPlaylist, additions: AtmosPlaylist): AtmosPlaylist {
-  const seenIds = new Set(existing.tracks.map(t => t.Apple_Music_ID));
-  const newTracks = additions.tracks.filter(t => !seenIds.has(t.Apple_Music_ID));
-  const allTracks = [...existing.tracks, ...newTracks];
-  return {
-    ...existing,
-    tracks: allTracks,
-    totalDurationMs: allTracks.reduce((sum, t) => sum + t.durationMs, 0),
-    atmosVerifiedCount: allTracks.filter(t => t.atmosVerified).length,
-    atmosWarningCount: allTracks.filter(t => t.atmosWarning).length,
-    buildMetadata: {
-      ...existing.buildMetadata,
-      candidatesFound: existing.buildMetadata.candidatesFound + additions.buildMetadata.candidatesFound,
-      enrichedTracks: existing.buildMetadata.enrichedTracks + additions.buildMetadata.enrichedTracks,
-    },
-  };
-}
+type EnqueueResponse = { status: "queued"; jobId: string };
+
+type ParseIntentResponse =
+  | { status: "intent"; intent: PlaylistIntent }
+  | {
+      status: "needs_clarification";
+      clarificationQuestion: string;
+      clarificationOptions?: ClarificationOptions;
+      clarificationSession?: ClarificationSession;
+    };
+
+// Worst case: every worker attempt (3 x 540s) plus retry backoff
+const JOB_WAIT_TIMEOUT_MS = 30 * 60 * 1000;
 
 function useElapsed(active: boolean, startedAt: number | null): number {
   const [elapsed, setElapsed] = useState(0);
@@ -65,9 +82,16 @@ function useElapsed(active: boolean, startedAt: number | null): number {
   return elapsed;
 }
 
-function usePipelineProgress(jobId: string | null): string | undefined {
+interface PipelineProgress {
+  stageMessage?: string;
+  partialTracks: VerifiedTrack[]; // streamed by the verifier before assembly finishes
+}
+
+function usePipelineProgress(jobId: string | null): PipelineProgress {
   const [stageMessage, setStageMessage] = useState<string | undefined>();
+  const [partialTracks, setPartialTracks] = useState<VerifiedTrack[]>([]);
   useEffect(() => {
+    setPartialTracks([]);
     if (!jobId) { setStageMessage(undefined); return; }
     const db = getFirestore(app);
     const unsub = onSnapshot(
@@ -75,18 +99,66 @@ function usePipelineProgress(jobId: string | null): string | undefined {
       (snap) => {
         const data = snap.data();
         if (data?.message) setStageMessage(data.message as string);
+        if (Array.isArray(data?.partialTracks)) setPartialTracks(data.partialTracks as VerifiedTrack[]);
       },
       () => {} // Silently ignore errors (doc may not exist yet)
     );
     return () => unsub();
   }, [jobId]);
-  return stageMessage;
+  return { stageMessage, partialTracks };
+}
+
+/**
+ * Resolve once the background worker finishes the job (pipelineJobs/{jobId}),
+ * mapping the job doc's terminal status onto the old callable response shape.
+ */
+function waitForJob(jobId: string): Promise<PipelineResponse> {
+  return new Promise((resolve) => {
+    const db = getFirestore(app);
+    let unsub = () => {};
+    const finish = (response: PipelineResponse) => {
+      clearTimeout(timer);
+      unsub();
+      resolve(response);
+    };
+    const timer = setTimeout(
+      () => finish({ status: "error", error: "The playlist build timed out. Please try again." }),
+      JOB_WAIT_TIMEOUT_MS
+    );
+    unsub = onSnapshot(
+      doc(db, "pipelineJobs", jobId),
+      (snap) => {
+        const data = snap.data();
+        if (data?.status === "succeeded") {
+          finish({ status: "success", playlist: data.playlist as AtmosPlaylist });
+        } else if (data?.status === "needs_clarification") {
+          finish({
+            status: "needs_clarification",
+            clarificationQuestion: data.clarificationQuestion as string,
+            clarificationOptions: data.clarificationOptions as ClarificationOptions | undefined,
+            clarificationSession: data.clarificationSession as ClarificationSession | undefined,
+          });
+        } else if (data?.status === "failed") {
+          finish({ status: "error", error: (data.error as string) ?? "Pipeline failed" });
+        }
+      },
+      () => finish({ status: "error", error: "Lost connection to the playlist build." })
+    );
+  });
 }
 
 function generateJobId(): string {
   return crypto.randomUUID?.() ?? `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
 }
 
+// Apple Music song links or IDs pasted instead of a prompt start seed-track mode
+const SEED_TOKEN = /^(?:\d{6,12}|https?:\/\/music\.apple\.com\/\S+)$/;
+
+function seedTokens(text: string): string[] | null {
+  const tokens = text.split(/[\s,]+/).filter(Boolean);
+  return tokens.length > 0 && tokens.every(t => SEED_TOKEN.test(t)) ? tokens : null;
+}
+
 /* --- Skeleton Loader -------------------------------------------------------- */
 
 function SkeletonTrackRow({ index }: { index: number }) {
@@ -104,7 +176,15 @@ function SkeletonTrackRow({ index }: { index: number }) {
   );
 }
 
-function LoadingView({ startedAt, liveStage }: { startedAt: number; liveStage?: string }) {
+function LoadingView({
+  startedAt,
+  liveStage,
+  partialTracks,
+}: {
+  startedAt: number;
+  liveStage?: string;
+  partialTracks: VerifiedTrack[];
+}) {
   const elapsed = useElapsed(true, startedAt);
   const elapsedSec = Math.floor(elapsed / 1000);
   // Use live stage from Firestore if available, otherwise fall back to timer-based
@@ -137,11 +217,20 @@ function LoadingView({ startedAt, liveStage }: { startedAt: number; liveStage?:
       <div className="skeleton h-12 w-52 rounded-full" />
 
       <div className="glass-card-raised overflow-hidden !rounded-2xl">
-        {Array.from({ length: 6 }).map((_, i) => (
-          <div key={i}>
+        {/* Verified tracks stream in ahead of the final (re-sequenced) playlist */}
+        {partialTracks.map((track, i) => (
+          <div key={track.docId}>
             {i > 0 && (
               <div className="mx-4" style={{ height: "1px", background: "var(--color-border-subtle)" }} />
             )}
+            <TrackCard track={track} />
+          </div>
+        ))}
+        {Array.from({ length: partialTracks.length > 0 ? 2 : 6 }).map((_, i) => (
+          <div key={`skeleton-${i}`}>
+            {(i > 0 || partialTracks.length > 0) && (
+              <div className="mx-4" style={{ height: "1px", background: "var(--color-border-subtle)" }} />
+            )}
             <SkeletonTrackRow index={i} />
           </div>
         ))}
@@ -236,37 +325,44 @@ export default function AtmosifyPage() {
   const [prompt, setPrompt] = useState("");
   const [tweakInput, setTweakInput] = useState("");
   const [appState, setAppState] = useState<AppState>({ kind: "idle" });
+  // Two-phase build: parse the intent, let the user edit it, then build
+  const [reviewIntent, setReviewIntent] = useState(false);
+  const [parsingIntent, setParsingIntent] = useState(false);
   const [recents, setRecents] = useState<StoredPlaylist[]>([]);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const tweakRef = useRef<HTMLInputElement>(null);
 
   // Live pipeline progress from Firestore
   const activeJobId = (appState.kind === "loading" || appState.kind === "refining") ? appState.jobId : null;
-  const liveStage = usePipelineProgress(activeJobId);
+  const { stageMessage: liveStage, partialTracks } = usePipelineProgress(activeJobId);
 
   useEffect(() => {
     setRecents(loadRecent());
   }, []);
 
-  const runPipeline = useCallback(async (userPrompt: string) => {
+  // Enqueue a build job and follow it to its outcome
+  const runJob = useCallback(async (
+    userPrompt: string,
+    enqueue: (jobId: string) => Promise<unknown>
+  ) => {
     if (!userPrompt.trim()) return;
     const jobId = generateJobId();
     setAppState({ kind: "loading", startedAt: Date.now(), jobId });
 
     try {
-      const functions = getFunctions(app);
-      const runAtmosify = httpsCallable<{ prompt: string; jobId: string }, PipelineResponse>(
-        functions, "runAtmosify", { timeout: 570000 }
-      );
-
-      const result = await runAtmosify({ prompt: userPrompt, jobId });
-      const data = result.data;
+      await enqueue(jobId);
+      const data = await waitForJob(jobId);
 
       if (data.status === "success") {
         setAppState({ kind: "result", playlist: data.playlist });
         setRecents(saveRecent(userPrompt, data.playlist));
       } else if (data.status === "needs_clarification") {
-        setAppState({ kind: "clarify", question: data.clarificationQuestion });
+        setAppState({
+          kind: "clarify",
+          question: data.clarificationQuestion,
+          options: data.clarificationOptions,
+          session: data.clarificationSession,
+        });
       } else {
         setAppState({ kind: "error", message: data.error ?? "Pipeline failed" });
       }
@@ -276,14 +372,87 @@ export default function AtmosifyPage() {
     }
   }, []);
 
+  const runPipeline = useCallback((userPrompt: string, clarification?: ClarificationReply) =>
+    runJob(userPrompt, jobId => {
+      const runAtmosify = httpsCallable<
+        { prompt: string; jobId: string; clarification?: ClarificationReply },
+        EnqueueResponse
+      >(getFunctions(app), "runAtmosify");
+      return runAtmosify({ prompt: userPrompt, jobId, clarification });
+    }), [runJob]);
+
+  // Phase 1 of the two-phase build: Clarify only
+  const parseIntent = useCallback(async (userPrompt: string, clarification?: ClarificationReply) => {
+    if (!userPrompt.trim()) return;
+    setParsingIntent(true);
+    try {
+      const parse = httpsCallable<
+        { prompt: string; clarification?: ClarificationReply },
+        ParseIntentResponse
+      >(getFunctions(app), "parseIntent");
+      const { data } = await parse({ prompt: userPrompt, clarification });
+
+      if (data.status === "intent") {
+        setAppState({ kind: "intent", intent: data.intent });
+      } else {
+        setAppState({
+          kind: "clarify",
+          question: data.clarificationQuestion,
+          options: data.clarificationOptions,
+          session: data.clarificationSession,
+        });
+      }
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Unexpected error";
+      setAppState({ kind: "error", message: msg });
+    } finally {
+      setParsingIntent(false);
+    }
+  }, []);
+
+  // Phase 2: build stages 2-7 from the confirmed intent
+  const buildFromIntent = (intent: PlaylistIntent) =>
+    runJob(prompt, jobId => {
+      const build = httpsCallable<
+        { prompt: string; jobId: string; intent: PlaylistIntent },
+        EnqueueResponse
+      >(getFunctions(app), "buildFromIntent");
+      return build({ prompt, jobId, intent });
+    });
+
+  // Seed-track mode: the backend builds the intent from the songs themselves
+  const buildFromSeeds = (seeds: string[]) =>
+    runJob(prompt, jobId => {
+      const build = httpsCallable<
+        { seeds: string[]; jobId: string },
+        EnqueueResponse
+      >(getFunctions(app), "buildFromSeeds");
+      return build({ seeds, jobId });
+    });
+
+  const submitPrompt = () => {
+    const seeds = seedTokens(prompt);
+    if (seeds) buildFromSeeds(seeds);
+    else if (reviewIntent) parseIntent(prompt);
+    else runPipeline(prompt);
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    runPipeline(prompt);
+    submitPrompt();
   };
 
-  const handleClarifySubmit = (e: React.FormEvent) => {
-    e.preventDefault();
-    runPipeline(prompt);
+  // Answering keeps the original prompt and what was already understood
+  const handleClarifyAnswer = (answer: ClarificationAnswer) => {
+    if (appState.kind !== "clarify") return;
+    if (!appState.session) {
+      // No session to continue (shouldn't happen) -- fold the answer into a fresh prompt
+      runPipeline([prompt, answer.text].filter(Boolean).join(". "));
+      return;
+    }
+    const reply = { session: appState.session, answer };
+    if (reviewIntent) parseIntent(appState.session.originalPrompt, reply);
+    else runPipeline(appState.session.originalPrompt, reply);
   };
 
   const handleTweak = useCallback(async (e: React.FormEvent) => {
@@ -291,25 +460,25 @@ export default function AtmosifyPage() {
     if (!tweakInput.trim() || appState.kind !== "result") return;
 
     const existingPlaylist = appState.playlist;
-    const refinement = tweakInput.trim();
+    const request = tweakInput.trim();
     setTweakInput("");
     const jobId = generateJobId();
     setAppState({ kind: "refining", playlist: existingPlaylist, startedAt: Date.now(), jobId });
 
     try {
       const functions = getFunctions(app);
-      const runAtmosify = httpsCallable<{ prompt: string; jobId: string }, PipelineResponse>(
-        functions, "runAtmosify", { timeout: 570000 }
-      );
+      const runAtmosify = httpsCallable<
+        { prompt: string; jobId: string; refinement: { playlist: AtmosPlaylist } },
+        EnqueueResponse
+      >(functions, "runAtmosify");
 
-      const refinementPrompt = `${refinement} (complementing a playlist about: ${prompt})`;
-      const result = await runAtmosify({ prompt: refinementPrompt, jobId });
-      const data = result.data;
+      // The backend turns the follow-up into an intent delta and returns a revised playlist
+      await runAtmosify({ prompt: request, jobId, refinement: { playlist: existingPlaylist } });
+      const data = await waitForJob(jobId);
 
       if (data.status === "success") {
-        const merged = mergePlaylists(existingPlaylist, data.playlist);
-        setAppState({ kind: "result", playlist: merged });
-        setRecents(saveRecent(prompt, merged));
+        setAppState({ kind: "result", playlist: data.playlist });
+        setRecents(saveRecent(prompt, data.playlist));
       } else {
         // On error or clarification, restore existing playlist
         setAppState({ kind: "result", playlist: existingPlaylist });
@@ -330,6 +499,7 @@ export default function AtmosifyPage() {
   const showPromptArea =
     appState.kind === "idle" ||
     appState.kind === "clarify" ||
+    appState.kind === "intent" ||
     appState.kind === "error";
 
   const showRightPane =
@@ -351,36 +521,29 @@ export default function AtmosifyPage() {
         boxSizing: "border-box",
       }}
     >
+      {/* Clarification question + structured choices */}
+      {appState.kind === "clarify" && (
+        <ClarificationPanel
+          key={appState.question}
+          question={appState.question}
+          options={appState.options}
+          onAnswer={handleClarifyAnswer}
+        />
+      )}
+
+      {/* Intent editor (two-phase build) */}
+      {appState.kind === "intent" && (
+        <IntentEditor
+          intent={appState.intent}
+          onConfirm={buildFromIntent}
+          onCancel={() => setAppState({ kind: "idle" })}
+        />
+      )}
+
       <form
-        onSubmit={appState.kind === "clarify" ? handleClarifySubmit : handleSubmit}
+        onSubmit={handleSubmit}
         style={{ width: "100%", display: "flex", flexDirection: "column", gap: "0" }}
       >
-        {/* Clarification banner */}
-        {appState.kind === "clarify" && (
-          <div
-            style={{
-              marginBottom: "16px",
-              padding: "16px",
-              borderRadius: "16px",
-              display: "flex",
-              alignItems: "flex-start",
-              gap: "12px",
-              background: "rgba(168, 85, 247, 0.1)",
-              border: "1px solid rgba(168, 85, 247, 0.2)",
-            }}
-          >
-            <span style={{ fontSize: "18px", marginTop: "2px" }}>{"\u{1F4AC}"}</span>
-            <div>
-              <span style={{ fontWeight: 600, fontSize: "14px", color: "var(--color-accent-bright)", display: "block" }}>
-                Quick question
-              </span>
-              <p style={{ fontSize: "14px", marginTop: "4px", color: "var(--color-text-secondary)" }}>
-                {appState.question}
-              </p>
-            </div>
-          </div>
-        )}
-
         {/* Error banner */}
         {appState.kind === "error" && (
           <div
@@ -407,7 +570,7 @@ export default function AtmosifyPage() {
           ref={textareaRef}
           value={prompt}
           onChange={e => setPrompt(e.target.value)}
-          placeholder={"What do you want to hear? Describe a mood, a moment, an energy\u2026"}
+          placeholder={"What do you want to hear? Describe a mood, a moment, an energy\u2026 or paste Apple Music song links"}
           rows={5}
           autoFocus
           style={{
@@ -438,7 +601,7 @@ export default function AtmosifyPage() {
           onKeyDown={e => {
             if (e.key === "Enter" && !e.shiftKey) {
               e.preventDefault();
-              if (prompt.trim()) runPipeline(prompt);
+              if (prompt.trim() && !parsingIntent) submitPrompt();
             }
           }}
         />
@@ -446,7 +609,7 @@ export default function AtmosifyPage() {
         {/* Build button -- explicit full-width, overrides inline-flex */}
         <button
           type="submit"
-          disabled={!prompt.trim()}
+          disabled={!prompt.trim() || parsingIntent}
           style={{
             marginTop: "12px",
             width: "100%",
@@ -471,9 +634,31 @@ export default function AtmosifyPage() {
             boxSizing: "border-box",
           }}
         >
-          {"\u2728"} Build My Playlist
+          {parsingIntent
+            ? "Reading your request\u2026"
+            : reviewIntent ? "\u2728 Review & Build" : "\u2728 Build My Playlist"}
         </button>
 
+        <label
+          style={{
+            marginTop: "10px",
+            display: "flex",
+            alignItems: "center",
+            gap: "8px",
+            fontSize: "12px",
+            color: "var(--color-text-tertiary)",
+            cursor: "pointer",
+          }}
+        >
+          <input
+            type="checkbox"
+            checked={reviewIntent}
+            onChange={e => setReviewIntent(e.target.checked)}
+            style={{ accentColor: "var(--color-accent)" }}
+          />
+          Review what I understood before building
+        </label>
+
         {/* Example chips */}
         {appState.kind === "idle" && (
           <div style={{ marginTop: "16px", display: "flex", flexWrap: "wrap", gap: "8px", alignItems: "center" }}>
@@ -649,12 +834,17 @@ export default function AtmosifyPage() {
             {/* Right: loading / results */}
             <div>
               {appState.kind === "loading" && (
-                <LoadingView startedAt={appState.startedAt} liveStage={liveStage} />
+                <LoadingView startedAt={appState.startedAt} liveStage={liveStage} partialTracks={partialTracks} />
               )}
 
               {(appState.kind === "result" || appState.kind === "refining") && (
                 <div>
-                  <PlaylistResults playlist={appState.kind === "refining" ? appState.playlist : appState.playlist} />
+                  <PlaylistResults
+                    playlist={appState.playlist}
+                    onPlaylistChange={appState.kind === "result"
+                      ? (playlist) => setAppState({ kind: "result", playlist })
+                      : undefined}
+                  />
 
                   {/* Refining indicator */}
                   {appState.kind === "refining" && (
@@ -674,7 +864,7 @@ export default function AtmosifyPage() {
                         }}
                       />
                       <p className="text-sm" style={{ color: "var(--color-accent-bright)" }}>
-                        Adding tracks to your playlist{"\u2026"}
+                        Revising your playlist{"\u2026"}
                       </p>
                     </div>
                   )}
@@ -686,7 +876,7 @@ export default function AtmosifyPage() {
                         ref={tweakRef}
                         value={tweakInput}
                         onChange={e => setTweakInput(e.target.value)}
-                        placeholder={"Add\u2026 more jazz, some classical, etc."}
+                        placeholder={"More energy, no vocals, swap out the 80s stuff\u2026"}
                         className="refine-input"
                         style={{
                           flex: 1,
@@ -715,7 +905,7 @@ export default function AtmosifyPage() {
                         disabled={!tweakInput.trim()}
                         className="btn-primary shrink-0 !px-6 refine-btn"
                       >
-                        Add
+                        Refine
                       </button>
                     </form>
                   )}
@@ -3,23 +3,58 @@
 
 import { randomBytes } from "crypto";
 import { onCall, HttpsError } from "firebase-functions/v2/https";
-import { defineSecret } from "firebase-functions/params";
+import { onTaskDispatched } from "firebase-functions/v2/tasks";
+import { onSchedule } from "firebase-functions/v2/scheduler";
+import { defineBoolean, defineSecret, defineString } from "firebase-functions/params";
 import { initializeApp } from "firebase-admin/app";
 import { getFirestore } from "firebase-admin/firestore";
 import { runPipeline } from "./pipeline/orchestrator.js";
+import { editPlaylist as applyPlaylistEdits } from "./pipeline/playlistEditor.js";
+import {
+  clarifyIntent,
+  continueClarification,
+  MAX_CLARIFY_TURNS,
+  sanitizeIntent,
+} from "./pipeline/clarify.js";
+import { buildSeedIntent, MAX_SEEDS } from "./pipeline/seedTracks.js";
 import { generateAppleMusicToken } from "./lib/appleMusic.js";
-import { ATMOS_DB_SERVICE_ACCOUNT } from "./lib/atmosDb.js";
+import { buildArtistIndex, loadArtistIndex } from "./lib/artistIndex.js";
+import { buildCatalogSnapshot } from "./lib/catalogSnapshot.js";
+import { syncGenreTags } from "./lib/genreTags.js";
+import { syncTrackEmbeddings } from "./lib/embeddingIndex.js";
+import { ATMOS_DB_SERVICE_ACCOUNT, getAtmosDb } from "./lib/atmosDb.js";
+import { loadStageCheckpoint } from "./lib/checkpointStore.js";
+import { parseStageConfig, resolveStageProviders } from "./lib/llm.js";
+import {
+  claimPipelineJob,
+  enqueuePipelineJob,
+  finishPipelineJob,
+  markPipelineJobRetrying,
+  MAX_JOB_ATTEMPTS,
+} from "./lib/pipelineJobs.js";
 import {
   checkRateLimit,
   extractIp,
   ATMOSIFY_RATE_LIMIT,
   DEV_TOKEN_RATE_LIMIT,
+  EDIT_RATE_LIMIT,
+  INTENT_RATE_LIMIT,
   SHARE_RATE_LIMIT,
 } from "./lib/rateLimit.js";
-import type { AtmosPlaylist } from "./lib/types.js";
+import type {
+  AtmosPlaylist,
+  ClarificationReply,
+  ClarificationSession,
+  PlaylistDraft,
+  PlaylistEditOp,
+  PlaylistRefinement,
+  TrackCandidate,
+} from "./lib/types.js";
 
 // -- Initialize the default Firebase app (for nextn project) ----------------
 initializeApp();
+// Job docs carry whole intents / tracks, whose optional fields may be undefined
+getFirestore().settings({ ignoreUndefinedProperties: true });
 
 // -- Secrets ----------------------------------------------------------------
 const GEMINI_API_KEY      = defineSecret("GEMINI_API_KEY");
@@ -30,20 +65,51 @@ const APPLE_KEY_ID        = defineSecret("APPLE_KEY_ID");
 const APPLE_PRIVATE_KEY   = defineSecret("APPLE_PRIVATE_KEY");
 // ATMOS_DB_SERVICE_ACCOUNT is imported from atmosDb.ts
 
-// -- runAtmosify -- Main playlist builder ------------------------------------
+// -- Config -----------------------------------------------------------------
+// Optional per-stage LLM provider overrides, as JSON, e.g.
+//   {"enrichment":[{"provider":"openai","model":"gpt-4o-mini","apiKeyEnv":"OPENAI_API_KEY"}]}
+// Stages left out keep their defaults (see lib/llm.ts).
+const LLM_STAGE_CONFIG    = defineString("LLM_STAGE_CONFIG", { default: "" });
+// Match against the in-memory catalog snapshot instead of per-build Firestore
+// queries (see lib/catalogSnapshot.ts); needs rebuildCatalogSnapshot to have run.
+const USE_CATALOG_SNAPSHOT = defineBoolean("USE_CATALOG_SNAPSHOT", { default: false });
+
+const PIPELINE_SECRETS = [
+  GEMINI_API_KEY,
+  PERPLEXITY_API_KEY,
+  SERPER_API_KEY,
+  APPLE_TEAM_ID,
+  APPLE_KEY_ID,
+  APPLE_PRIVATE_KEY,
+  ATMOS_DB_SERVICE_ACCOUNT,
+];
+
+// Client-generated UUID (or the time-random fallback in page.tsx)
+const JOB_ID_PATTERN = /^[A-Za-z0-9-]{8,64}$/;
+
+// A refined playlist is copied into the job doc, which has to stay under 1 MiB
+const MAX_REFINE_TRACKS = 150;
+const MAX_REFINE_TRACKS_CHARS = 300_000; // worst case 3 bytes/char
+
+function assertClarificationReply(clarification: ClarificationReply): void {
+  const turns = clarification.session?.turns;
+  if (
+    typeof clarification.session?.originalPrompt !== "string" ||
+    !Array.isArray(turns) || turns.length === 0 || turns.length > MAX_CLARIFY_TURNS ||
+    typeof clarification.answer !== "object" || clarification.answer === null
+  ) {
+    throw new HttpsError("invalid-argument", "clarification needs its session and an answer");
+  }
+}
+
+// -- runAtmosify -- Enqueue a playlist build ---------------------------------
+// Returns as soon as the job is queued; the client follows pipelineJobs/{jobId}
+// for progress, streamed tracks and the final outcome. With `refinement`, the
+// prompt is a follow-up ("more energy") that revises the given playlist; with
+// `clarification`, it answers the question a previous job came back with.
 export const runAtmosify = onCall(
   {
-    memory: "1GiB",
-    timeoutSeconds: 540,
-    secrets: [
-      GEMINI_API_KEY,
-      PERPLEXITY_API_KEY,
-      SERPER_API_KEY,
-      APPLE_TEAM_ID,
-      APPLE_KEY_ID,
-      APPLE_PRIVATE_KEY,
-      ATMOS_DB_SERVICE_ACCOUNT,
-    ],
+    // No secrets needed -- the pipeline itself runs in processPipelineJob
   },
   async (request) => {
     // Rate limit: 10 requests per hour per IP
@@ -56,41 +122,331 @@ export const runAtmosify = onCall(
       );
     }
 
-    const data = request.data as { prompt?: string; jobId?: string };
+    const data = request.data as {
+      prompt?: string;
+      jobId?: string;
+      refinement?: { playlist?: AtmosPlaylist };
+      clarification?: ClarificationReply;
+    };
     const prompt = data?.prompt?.trim();
 
     if (!prompt) {
       throw new HttpsError("invalid-argument", "prompt is required");
     }
+    if (!data.jobId || !JOB_ID_PATTERN.test(data.jobId)) {
+      throw new HttpsError("invalid-argument", "a valid jobId is required");
+    }
 
-    const result = await runPipeline(prompt, {
-      geminiApiKey:      GEMINI_API_KEY.value(),
-      perplexityApiKey:  PERPLEXITY_API_KEY.value(),
-      serperApiKey:      SERPER_API_KEY.value() || undefined,
-      appleTeamId:       APPLE_TEAM_ID.value(),
-      appleKeyId:        APPLE_KEY_ID.value(),
-      applePrivateKey:   APPLE_PRIVATE_KEY.value(),
-      jobId:             data.jobId,
-    });
+    let refinement: PlaylistRefinement | undefined;
+    if (data.refinement) {
+      const previous = data.refinement.playlist;
+      if (!previous?.intent || !Array.isArray(previous.tracks)) {
+        throw new HttpsError("invalid-argument", "refinement needs the playlist being refined");
+      }
+      if (
+        previous.tracks.length > MAX_REFINE_TRACKS ||
+        JSON.stringify(previous.tracks).length > MAX_REFINE_TRACKS_CHARS
+      ) {
+        throw new HttpsError("invalid-argument", "playlist is too large to refine");
+      }
+      const previousIntent = sanitizeIntent(previous.intent);
+      if (!previousIntent) {
+        throw new HttpsError("invalid-argument", "refined playlist needs at least one genre, mood or artist");
+      }
+      const buildId = previous.buildMetadata?.buildId;
+      refinement = {
+        request: prompt,
+        previousIntent,
+        previousTracks: previous.tracks,
+        previousBuildId: buildId && JOB_ID_PATTERN.test(buildId) ? buildId : undefined,
+      };
+    }
 
-    if (result.needsClarification) {
+    const clarification = data.clarification;
+    if (clarification) assertClarificationReply(clarification);
+
+    const created = await enqueuePipelineJob(data.jobId, prompt, { refinement, clarification });
+    if (!created) {
+      console.log(`[runAtmosify] Job ${data.jobId} already exists -- not re-enqueued`);
+    }
+
+    return { status: "queued", jobId: data.jobId };
+  }
+);
+
+// -- parseIntent -- Phase 1 of the intent-editor flow ------------------------
+// Runs Clarify only and returns the parsed PlaylistIntent for the user to edit.
+export const parseIntent = onCall(
+  {
+    secrets: [GEMINI_API_KEY, PERPLEXITY_API_KEY, ATMOS_DB_SERVICE_ACCOUNT],
+  },
+  async (request) => {
+    // Rate limit: 30 requests per hour per IP
+    const ip = extractIp(request);
+    const rateCheck = await checkRateLimit(ip, INTENT_RATE_LIMIT);
+    if (!rateCheck.allowed) {
+      throw new HttpsError(
+        "resource-exhausted",
+        `Rate limit exceeded. Try again in ${Math.ceil((rateCheck.retryAfterMs ?? 0) / 60000)} minutes.`
+      );
+    }
+
+    const data = request.data as { prompt?: string; clarification?: ClarificationReply };
+    const prompt = data?.prompt?.trim();
+    if (!prompt) {
+      throw new HttpsError("invalid-argument", "prompt is required");
+    }
+
+    const llm = resolveStageProviders(
+      { geminiApiKey: GEMINI_API_KEY.value(), perplexityApiKey: PERPLEXITY_API_KEY.value() },
+      parseStageConfig(LLM_STAGE_CONFIG.value())
+    );
+    const clarifyConfig = { llm: llm.clarify, artistIndex: await loadArtistIndex(getAtmosDb()) };
+
+    let result;
+    let session: ClarificationSession;
+    if (data.clarification) {
+      assertClarificationReply(data.clarification);
+      ({ result, session } = await continueClarification(
+        data.clarification.session,
+        data.clarification.answer,
+        clarifyConfig
+      ));
+    } else {
+      result = await clarifyIntent(prompt, clarifyConfig);
+      session = {
+        originalPrompt: prompt,
+        partialIntent: result.partialIntent ?? {},
+        turns: [{ question: result.clarificationQuestion ?? "" }],
+      };
+    }
+
+    if (result.needsClarification || !result.intent) {
       return {
         status: "needs_clarification",
         clarificationQuestion: result.clarificationQuestion,
+        clarificationOptions: result.clarificationOptions,
+        clarificationSession: session,
       };
     }
+    return { status: "intent", intent: result.intent };
+  }
+);
 
-    if (result.error) {
-      return {
-        status: "error",
-        error: result.error,
-      };
+// -- buildFromIntent -- Phase 2: enqueue a build from a user-confirmed intent --
+// Same job flow as runAtmosify, starting at ArtistDiscovery.
+export const buildFromIntent = onCall(
+  {
+    // No secrets needed -- the pipeline itself runs in processPipelineJob
+  },
+  async (request) => {
+    // Shares runAtmosify's budget: 10 builds per hour per IP
+    const ip = extractIp(request);
+    const rateCheck = await checkRateLimit(ip, ATMOSIFY_RATE_LIMIT);
+    if (!rateCheck.allowed) {
+      throw new HttpsError(
+        "resource-exhausted",
+        `Rate limit exceeded. Try again in ${Math.ceil((rateCheck.retryAfterMs ?? 0) / 60000)} minutes.`
+      );
     }
 
-    return {
-      status: "success",
-      playlist: result.playlist,
-    };
+    const data = request.data as { prompt?: string; jobId?: string; intent?: unknown };
+    const prompt = data?.prompt?.trim();
+    if (!prompt) {
+      throw new HttpsError("invalid-argument", "prompt is required");
+    }
+    if (!data.jobId || !JOB_ID_PATTERN.test(data.jobId)) {
+      throw new HttpsError("invalid-argument", "a valid jobId is required");
+    }
+    const intent = sanitizeIntent(data.intent);
+    if (!intent) {
+      throw new HttpsError("invalid-argument", "intent needs at least one genre, mood or artist");
+    }
+
+    const created = await enqueuePipelineJob(data.jobId, prompt, { confirmedIntent: intent });
+    if (!created) {
+      console.log(`[buildFromIntent] Job ${data.jobId} already exists -- not re-enqueued`);
+    }
+
+    return { status: "queued", jobId: data.jobId };
+  }
+);
+
+// -- buildFromSeeds -- Enqueue a build from Apple Music songs ------------------
+// Seed-track mode: the songs' artists, genres, era, mood and tempo become the
+// intent (see pipeline/seedTracks.ts), which then builds like buildFromIntent.
+export const buildFromSeeds = onCall(
+  {
+    secrets: [APPLE_TEAM_ID, APPLE_KEY_ID, APPLE_PRIVATE_KEY, ATMOS_DB_SERVICE_ACCOUNT],
+  },
+  async (request) => {
+    // Shares runAtmosify's budget: 10 builds per hour per IP
+    const ip = extractIp(request);
+    const rateCheck = await checkRateLimit(ip, ATMOSIFY_RATE_LIMIT);
+    if (!rateCheck.allowed) {
+      throw new HttpsError(
+        "resource-exhausted",
+        `Rate limit exceeded. Try again in ${Math.ceil((rateCheck.retryAfterMs ?? 0) / 60000)} minutes.`
+      );
+    }
+
+    const data = request.data as { seeds?: unknown; jobId?: string };
+    const seeds = Array.isArray(data?.seeds)
+      ? data.seeds.filter((s): s is string => typeof s === "string" && s.trim() !== "")
+      : [];
+    if (seeds.length === 0 || seeds.length > MAX_SEEDS) {
+      throw new HttpsError("invalid-argument", `seeds must list 1-${MAX_SEEDS} Apple Music songs`);
+    }
+    if (!data.jobId || !JOB_ID_PATTERN.test(data.jobId)) {
+      throw new HttpsError("invalid-argument", "a valid jobId is required");
+    }
+
+    const appleMusicToken = generateAppleMusicToken(
+      APPLE_TEAM_ID.value(),
+      APPLE_KEY_ID.value(),
+      APPLE_PRIVATE_KEY.value()
+    );
+    const result = await buildSeedIntent(getAtmosDb(), seeds, appleMusicToken);
+    if (!result) {
+      throw new HttpsError("not-found", "None of those links is an Apple Music song we could find");
+    }
+
+    const created = await enqueuePipelineJob(data.jobId, result.intent.description, {
+      confirmedIntent: result.intent,
+    });
+    if (!created) {
+      console.log(`[buildFromSeeds] Job ${data.jobId} already exists -- not re-enqueued`);
+    }
+
+    return { status: "queued", jobId: data.jobId, intent: result.intent, unresolvedSeeds: result.unresolved };
+  }
+);
+
+// -- processPipelineJob -- Background pipeline worker -------------------------
+// Crashes and timeouts are retried by the task queue; each retry resumes from
+// the job's last checkpoint (see PipelineCheckpoint in orchestrator.ts).
+export const processPipelineJob = onTaskDispatched(
+  {
+    memory: "1GiB",
+    timeoutSeconds: 540,
+    retryConfig: {
+      // One delivery beyond the job's attempts, so a job whose last attempt
+      // timed out still gets claimed once more and marked failed
+      maxAttempts: MAX_JOB_ATTEMPTS + 1,
+      minBackoffSeconds: 10,
+    },
+    rateLimits: {
+      maxConcurrentDispatches: 10,
+    },
+    secrets: PIPELINE_SECRETS,
+  },
+  async (request) => {
+    const { jobId } = request.data as { jobId: string };
+    const job = await claimPipelineJob(jobId);
+    if (!job) {
+      console.log(`[processPipelineJob] Job ${jobId} is missing or finished -- skipping`);
+      return;
+    }
+    console.log(`[processPipelineJob] Job ${jobId} attempt ${job.attempts} of ${MAX_JOB_ATTEMPTS}`);
+
+    try {
+      const result = await runPipeline(job.prompt, {
+        geminiApiKey:      GEMINI_API_KEY.value(),
+        perplexityApiKey:  PERPLEXITY_API_KEY.value(),
+        serperApiKey:      SERPER_API_KEY.value() || undefined,
+        appleTeamId:       APPLE_TEAM_ID.value(),
+        appleKeyId:        APPLE_KEY_ID.value(),
+        applePrivateKey:   APPLE_PRIVATE_KEY.value(),
+        jobId,
+        llmStages:         parseStageConfig(LLM_STAGE_CONFIG.value()),
+        refinement:        job.refinement,
+        clarification:     job.clarification,
+        confirmedIntent:   job.confirmedIntent,
+        useCatalogSnapshot: USE_CATALOG_SNAPSHOT.value(),
+      });
+
+      if (result.needsClarification) {
+        await finishPipelineJob(jobId, {
+          status: "needs_clarification",
+          clarificationQuestion: result.clarificationQuestion ?? "Could you tell me a bit more about what you want?",
+          clarificationOptions: result.clarificationOptions,
+          clarificationSession: result.clarificationSession,
+        });
+      } else if (result.error || !result.playlist) {
+        await finishPipelineJob(jobId, { status: "failed", error: result.error ?? "Pipeline failed" });
+      } else {
+        await finishPipelineJob(jobId, { status: "succeeded", playlist: result.playlist });
+      }
+    } catch (err) {
+      console.error(`[processPipelineJob] Job ${jobId} attempt ${job.attempts} crashed:`, err);
+      if (job.attempts >= MAX_JOB_ATTEMPTS) {
+        await finishPipelineJob(jobId, {
+          status: "failed",
+          error: "Something went wrong building your playlist. Please try again.",
+        });
+        return;
+      }
+      await markPipelineJobRetrying(jobId, job.attempts);
+      throw err; // let the task queue retry
+    }
+  }
+);
+
+// -- editPlaylist -- Remove / pin / replace tracks in a built playlist --------
+const EDIT_OP_TYPES = ["remove", "pin", "replace"];
+const MAX_EDIT_OPS = 20;
+
+export const editPlaylist = onCall(
+  {
+    secrets: [APPLE_TEAM_ID, APPLE_KEY_ID, APPLE_PRIVATE_KEY, ATMOS_DB_SERVICE_ACCOUNT],
+  },
+  async (request) => {
+    // Rate limit: 60 requests per hour per IP
+    const ip = extractIp(request);
+    const rateCheck = await checkRateLimit(ip, EDIT_RATE_LIMIT);
+    if (!rateCheck.allowed) {
+      throw new HttpsError(
+        "resource-exhausted",
+        `Rate limit exceeded. Try again in ${Math.ceil((rateCheck.retryAfterMs ?? 0) / 60000)} minutes.`
+      );
+    }
+
+    const data = request.data as { playlist?: AtmosPlaylist; ops?: PlaylistEditOp[] };
+    const playlist = data?.playlist;
+    const ops = data?.ops;
+
+    if (!playlist || !playlist.tracks || playlist.tracks.length === 0) {
+      throw new HttpsError("invalid-argument", "playlist with tracks is required");
+    }
+    if (
+      !Array.isArray(ops) || ops.length === 0 || ops.length > MAX_EDIT_OPS ||
+      ops.some(op => !EDIT_OP_TYPES.includes(op?.type) || typeof op.docId !== "string")
+    ) {
+      throw new HttpsError("invalid-argument", `between 1 and ${MAX_EDIT_OPS} valid edit ops are required`);
+    }
+
+    // Replacements come from the build's saved candidate pool (pipelineJobs checkpoints)
+    let pool: TrackCandidate[] = [];
+    if (ops.some(op => op.type === "replace")) {
+      const buildId = playlist.buildMetadata?.buildId;
+      const draft = buildId && JOB_ID_PATTERN.test(buildId)
+        ? await loadStageCheckpoint<PlaylistDraft>(buildId, "curate")
+        : null;
+      if (!draft) {
+        throw new HttpsError(
+          "failed-precondition",
+          "This playlist's candidate pool has expired. Rebuild it to replace tracks."
+        );
+      }
+      pool = draft.unusedCandidates;
+    }
+
+    const appleMusicToken = generateAppleMusicToken(
+      APPLE_TEAM_ID.value(),
+      APPLE_KEY_ID.value(),
+      APPLE_PRIVATE_KEY.value()
+    );
+    return applyPlaylistEdits(getAtmosDb(), playlist, ops, pool, { appleMusicToken });
   }
 );
 
@@ -164,3 +520,70 @@ export const sharePlaylist = onCall(
     return { shareId };
   }
 );
+
+// -- refreshGenreTags -- Nightly taxonomy tags for genre queries -------------
+// Runs before rebuildCatalogSnapshot so the snapshot carries fresh tags; see
+// lib/genreTags.ts.
+export const refreshGenreTags = onSchedule(
+  {
+    schedule: "every day 03:30",
+    timeZone: "America/New_York",
+    memory: "1GiB",
+    timeoutSeconds: 540,
+    secrets: [ATMOS_DB_SERVICE_ACCOUNT],
+  },
+  async () => {
+    const { scanned, updated } = await syncGenreTags(getAtmosDb());
+    console.log(`[refreshGenreTags] Updated genre tags on ${updated} of ${scanned} tracks`);
+  }
+);
+
+// -- refreshTrackEmbeddings -- Nightly vectors for similarity search ---------
+// After refreshGenreTags, whose tags feed the embeddings; see
+// lib/embeddingIndex.ts. Only changed tracks are rewritten, so a first
+// backfill that hits the timeout picks up where it stopped the next night.
+export const refreshTrackEmbeddings = onSchedule(
+  {
+    schedule: "every day 03:45",
+    timeZone: "America/New_York",
+    memory: "1GiB",
+    timeoutSeconds: 540,
+    secrets: [ATMOS_DB_SERVICE_ACCOUNT],
+  },
+  async () => {
+    const { scanned, updated } = await syncTrackEmbeddings(getAtmosDb());
+    console.log(`[refreshTrackEmbeddings] Updated embeddings on ${updated} of ${scanned} tracks`);
+  }
+);
+
+// -- rebuildArtistIndex -- Nightly artist-name index for DBMatcher ------------
+// Scans every track's Artist in the Atmos DB; see lib/artistIndex.ts.
+export const rebuildArtistIndex = onSchedule(
+  {
+    schedule: "every day 04:00",
+    timeZone: "America/New_York",
+    memory: "1GiB",
+    timeoutSeconds: 540,
+    secrets: [ATMOS_DB_SERVICE_ACCOUNT],
+  },
+  async () => {
+    const { artists, keys, shards } = await buildArtistIndex(getAtmosDb());
+    console.log(`[rebuildArtistIndex] Indexed ${artists} artist credits under ${keys} keys (${shards} shards)`);
+  }
+);
+
+// -- rebuildCatalogSnapshot -- Nightly catalog export for in-memory matching --
+// Exports the searchable fields of every track; see lib/catalogSnapshot.ts.
+export const rebuildCatalogSnapshot = onSchedule(
+  {
+    schedule: "every day 04:30",
+    timeZone: "America/New_York",
+    memory: "2GiB",
+    timeoutSeconds: 540,
+    secrets: [ATMOS_DB_SERVICE_ACCOUNT],
+  },
+  async () => {
+    const { tracks, chunks } = await buildCatalogSnapshot(getAtmosDb());
+    console.log(`[rebuildCatalogSnapshot] Exported ${tracks} tracks in ${chunks} chunks`);
+  }
+);
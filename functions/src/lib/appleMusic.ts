@@ -15,6 +15,8 @@ export interface AppleTrackAttrs {
   audioTraits?: string[];     // legacy field, no longer used for Atmos detection
   composerName?: string;
   durationInMillis: number;
+  discNumber?: number;
+  trackNumber?: number;
   url: string;
 }
 
@@ -0,0 +1,82 @@
+// src/lib/artistCredits.ts
+// Split an `Artist` credit into the artists it names.
+//
+//   "Calvin Harris feat. Rihanna"      -> primary [Calvin Harris], featured [Rihanna]
+//   "Disclosure & Sam Smith"           -> primary [Disclosure, Sam Smith]
+//   "Post Malone (with Swae Lee)"      -> primary [Post Malone], featured [Swae Lee]
+//   "Bob Marley & The Wailers"         -> primary [Bob Marley & The Wailers]
+//
+// A separator followed by "The" joins a band name rather than two artists, and
+// acts whose name contains a separator are listed in UNSPLIT_CREDITS.
+
+import { matchKey } from "./textMatch.js";
+
+export interface ArtistCredits {
+  primary: string[];
+  featured: string[];
+}
+
+// "feat." / "ft." / "featuring" anywhere, or a parenthesized "(with ...)"
+const FEATURE_MARKER = /\s*[([]?\s*\b(?:feat\.?|ft\.?|featuring)\s+|\s*[([]\s*with\s+/i;
+// ",", "&", "+" unless a "The ..." band name follows; lowercase " x " and " vs. " collab credits
+const CREDIT_SEPARATOR = /\s*(?:,|&|\+)(?!\s*[Tt]he\s)\s*|\s+(?:x|vs\.?)\s+/;
+
+/** Acts whose own name contains a credit separator. */
+const UNSPLIT_CREDITS = new Set([
+  "Earth, Wind & Fire",
+  "Simon & Garfunkel",
+  "Crosby, Stills & Nash",
+  "Crosby, Stills, Nash & Young",
+  "Emerson, Lake & Palmer",
+  "Blood, Sweat & Tears",
+  "Hall & Oates",
+  "Daryl Hall & John Oates",
+  "Mumford & Sons",
+  "Above & Beyond",
+  "Chase & Status",
+  "Angus & Julia Stone",
+  "Brooks & Dunn",
+  "Big & Rich",
+  "Sam & Dave",
+  "Ike & Tina Turner",
+  "Years & Years",
+  "Matt & Kim",
+  "Nico & Vinz",
+  "Peaches & Herb",
+  "Jon & Vangelis",
+].map(matchKey));
+
+function splitNames(part: string): string[] {
+  const trimmed = part.replace(/[)\]]+\s*$/, "").trim();
+  if (!trimmed) return [];
+  if (UNSPLIT_CREDITS.has(matchKey(trimmed))) return [trimmed];
+  return trimmed.split(CREDIT_SEPARATOR).map(n => n.trim()).filter(Boolean);
+}
+
+/** Primary credit of a name: "Calvin Harris feat. Rihanna" -> "Calvin Harris". */
+export function withoutFeatures(credit: string): string {
+  return credit.split(FEATURE_MARKER)[0].trim() || credit.trim();
+}
+
+/** Primary and featured artists named by an `Artist` credit. */
+export function parseArtistCredits(credit: string): ArtistCredits {
+  const marker = credit.match(FEATURE_MARKER);
+  const head = marker?.index != null ? credit.slice(0, marker.index) : credit;
+  const tail = marker?.index != null ? credit.slice(marker.index + marker[0].length) : "";
+
+  const primary = splitNames(head);
+  const seen = new Set(primary.map(matchKey));
+  const featured = splitNames(tail).filter(name => {
+    const key = matchKey(name);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+  return { primary: primary.length > 0 ? primary : [credit.trim()], featured };
+}
+
+/** Every artist an `Artist` credit names, primary first. */
+export function creditedArtists(credit: string): string[] {
+  const { primary, featured } = parseArtistCredits(credit);
+  return [...primary, ...featured];
+}
@@ -0,0 +1,276 @@
+// src/lib/artistIndex.ts
+// Normalized artist-name index over the Atmos Master DB.
+//
+// DBMatcher queries `tracks` by exact `Artist` value, so a discovered name has
+// to be spelled the way the DB spells it. The index maps a normalized key
+// (lowercase, diacritics folded, punctuation stripped, leading "The" and
+// "feat." credits dropped) to every DB spelling that shares it, and the
+// resolver bridges the rest with an alias table and edit distance. A
+// collaboration ("A & B", "A feat. B") is also listed under each credited
+// artist, so a discovered artist reaches the tracks they're featured on.
+//
+// Stored in the Atmos DB as artistIndex/shard_0 .. shard_{total-1}, rebuilt
+// from a full `tracks` scan by the scheduled rebuildArtistIndex function and
+// cached per function instance.
+
+import { FieldPath, type Firestore, type QueryDocumentSnapshot } from "firebase-admin/firestore";
+import { creditedArtists, withoutFeatures } from "./artistCredits.js";
+import type { AtmosStore } from "./atmosDb.js";
+import { editDistance, matchKey } from "./textMatch.js";
+
+const ARTIST_INDEX_COLLECTION = "artistIndex";
+const SHARD_ENTRIES = 5_000;    // ~40 bytes per entry keeps a shard far below 1 MiB
+const SCAN_PAGE_SIZE = 5_000;
+const INDEX_CACHE_TTL_MS = 60 * 60 * 1000; // the index is rebuilt daily
+
+const MIN_FUZZY_KEY_LENGTH = 4;  // "ye" -> "yes" is not a typo
+const FUZZY_MAX_RATIO = 0.2;     // edits per key character for an accepted fuzzy match
+const NEAR_MISS_MAX_RATIO = 0.34; // looser bound for near-misses worth reporting
+const MAX_NEAR_MISSES = 3;
+
+// Confidence by how the name was resolved; fuzzy matches scale with distance
+const CONFIDENCE_EXACT = 1;
+const CONFIDENCE_NORMALIZED = 0.95;
+const CONFIDENCE_ALIAS = 0.9;
+
+/**
+ * Known variants normalization can't bridge -- renames, nicknames and
+ * abbreviations. Looked up only when the name itself isn't in the index.
+ */
+const ARTIST_ALIASES: Record<string, string> = {
+  "Ye": "Kanye West",
+  "Yasiin Bey": "Mos Def",
+  "Biggie": "The Notorious B.I.G.",
+  "Biggie Smalls": "The Notorious B.I.G.",
+  "Puff Daddy": "Diddy",
+  "P. Diddy": "Diddy",
+  "Sean Combs": "Diddy",
+  "Snoop Lion": "Snoop Dogg",
+  "Cat Stevens": "Yusuf / Cat Stevens",
+  "Yusuf": "Yusuf / Cat Stevens",
+  "Kesha": "Ke$ha",
+  "Pink": "P!nk",
+  "Bob Marley": "Bob Marley & The Wailers",
+  "Tom Petty": "Tom Petty and the Heartbreakers",
+  "Wu Tang": "Wu-Tang Clan",
+  "Guns and Roses": "Guns N' Roses",
+  "GNR": "Guns N' Roses",
+  "ELO": "Electric Light Orchestra",
+  "CCR": "Creedence Clearwater Revival",
+  "RHCP": "Red Hot Chili Peppers",
+  "Zeppelin": "Led Zeppelin",
+  "Floyd": "Pink Floyd",
+};
+
+export interface ArtistIndex {
+  entries: Map<string, string[]>; // artist key -> DB `Artist` credits, the artist's own first
+  builtAt: number;
+}
+
+export type ArtistMatchMethod = "exact" | "normalized" | "alias" | "fuzzy";
+
+export interface ArtistNearMiss {
+  name: string;       // DB spelling
+  confidence: number;
+}
+
+export interface ArtistResolution {
+  query: string;
+  names: string[];                 // DB spellings to query -- empty when unresolved
+  method: ArtistMatchMethod | null;
+  confidence: number;              // 0 when unresolved
+  nearMisses: ArtistNearMiss[];    // close spellings that weren't accepted
+}
+
+interface ArtistIndexShard {
+  index: number;
+  total: number;
+  builtAt: number;
+  entries: Record<string, string[]>;
+}
+
+// -- Normalization -------------------------------------------------------------
+
+/** Index key: match key of the primary credit, without a leading "The", "+" read as "and". */
+export function artistKey(name: string): string {
+  return matchKey(
+    withoutFeatures(name)
+      .replace(/\+/g, " and ")
+      .replace(/^\s*the\s+/i, "")
+  );
+}
+
+const ALIAS_KEYS = new Map(
+  Object.entries(ARTIST_ALIASES).map(([alias, canonical]) => [artistKey(alias), artistKey(canonical)])
+);
+
+// -- Resolution ----------------------------------------------------------------
+
+function unresolved(query: string, nearMisses: ArtistNearMiss[] = []): ArtistResolution {
+  return { query, names: [], method: null, confidence: 0, nearMisses };
+}
+
+/**
+ * Map a discovered artist name to the DB's `Artist` spellings: exact, then
+ * normalized key, then alias, then the closest key by edit distance. A fuzzy
+ * match is only accepted when it is close and unambiguous; other close keys
+ * come back as near-misses.
+ */
+export function resolveArtist(index: ArtistIndex, name: string): ArtistResolution {
+  const key = artistKey(name);
+  if (!key) return unresolved(name);
+
+  const direct = index.entries.get(key);
+  if (direct) {
+    const exact = direct.includes(name.trim());
+    return {
+      query: name,
+      names: direct,
+      method: exact ? "exact" : "normalized",
+      confidence: exact ? CONFIDENCE_EXACT : CONFIDENCE_NORMALIZED,
+      nearMisses: [],
+    };
+  }
+
+  const aliasKey = ALIAS_KEYS.get(key);
+  const aliased = aliasKey ? index.entries.get(aliasKey) : undefined;
+  if (aliased) {
+    return { query: name, names: aliased, method: "alias", confidence: CONFIDENCE_ALIAS, nearMisses: [] };
+  }
+
+  if (key.length < MIN_FUZZY_KEY_LENGTH) return unresolved(name);
+
+  const maxDistance = Math.max(1, Math.floor(key.length * NEAR_MISS_MAX_RATIO));
+  const close: { names: string[]; distance: number }[] = [];
+  for (const [candidateKey, names] of index.entries) {
+    const distance = editDistance(key, candidateKey, maxDistance);
+    if (distance <= maxDistance) close.push({ names, distance });
+  }
+  close.sort((a, b) => a.distance - b.distance);
+
+  const confidenceOf = (distance: number) => Math.round((1 - distance / key.length) * 100) / 100;
+  const best = close[0];
+  const accepted =
+    best !== undefined &&
+    best.distance <= Math.max(1, Math.floor(key.length * FUZZY_MAX_RATIO)) &&
+    (close.length === 1 || close[1].distance > best.distance);
+  const nearMisses = close
+    .slice(accepted ? 1 : 0, (accepted ? 1 : 0) + MAX_NEAR_MISSES)
+    .map(c => ({ name: c.names[0], confidence: confidenceOf(c.distance) }));
+
+  if (!accepted) return unresolved(name, nearMisses);
+  return { query: name, names: best.names, method: "fuzzy", confidence: confidenceOf(best.distance), nearMisses };
+}
+
+// -- Storage -------------------------------------------------------------------
+
+let cachedIndex: { index: ArtistIndex; loadedAt: number } | null = null;
+
+/**
+ * The stored index, cached for the function instance. Returns null if it was
+ * never built or is incomplete -- DBMatcher then falls back to raw queries.
+ */
+export async function loadArtistIndex(db: AtmosStore): Promise<ArtistIndex | null> {
+  if (cachedIndex && Date.now() - cachedIndex.loadedAt < INDEX_CACHE_TTL_MS) return cachedIndex.index;
+
+  try {
+    const ref = db.collection(ARTIST_INDEX_COLLECTION);
+    const first = await ref.doc("shard_0").get();
+    if (!first.exists) {
+      console.warn("[artistIndex] No artist index in the Atmos DB -- run rebuildArtistIndex");
+      return null;
+    }
+
+    const head = first.data() as ArtistIndexShard;
+    const rest = head.total > 1
+      ? await db.getAll(...Array.from({ length: head.total - 1 }, (_, i) => ref.doc(`shard_${i + 1}`)))
+      : [];
+
+    const entries = new Map(Object.entries(head.entries));
+    for (const snap of rest) {
+      // A shard from a different build means a rebuild is mid-write
+      const shard = snap.data() as ArtistIndexShard | undefined;
+      if (!shard || shard.builtAt !== head.builtAt) {
+        console.warn("[artistIndex] Artist index shards are inconsistent -- ignoring the index");
+        return null;
+      }
+      for (const [key, names] of Object.entries(shard.entries)) entries.set(key, names);
+    }
+
+    const index: ArtistIndex = { entries, builtAt: head.builtAt };
+    cachedIndex = { index, loadedAt: Date.now() };
+    console.log(`[artistIndex] Loaded ${entries.size} artist keys (built ${new Date(head.builtAt).toISOString()})`);
+    return index;
+  } catch (err) {
+    console.warn("[artistIndex] Failed to load the artist index:", err);
+    return null;
+  }
+}
+
+/** Solo credits before collaborations, so a capped "in" query keeps the artist's own tracks. */
+function ownCreditsFirst(names: Set<string>): string[] {
+  const solo = [...names].filter(n => creditedArtists(n).length === 1);
+  return [...solo, ...[...names].filter(n => creditedArtists(n).length > 1)];
+}
+
+/** Index a set of `Artist` credits in memory (also used by the catalog snapshot). */
+export function indexArtistCredits(credits: Iterable<string>, builtAt: number): ArtistIndex {
+  const keyed = new Map<string, Set<string>>();
+  for (const artist of credits) {
+    if (!artist.trim()) continue;
+    for (const key of new Set([artistKey(artist), ...creditedArtists(artist).map(artistKey)])) {
+      if (key) keyed.set(key, (keyed.get(key) ?? new Set<string>()).add(artist));
+    }
+  }
+  const entries = new Map<string, string[]>();
+  for (const key of [...keyed.keys()].sort()) entries.set(key, ownCreditsFirst(keyed.get(key)!));
+  return { entries, builtAt };
+}
+
+/**
+ * Rebuild the index from every `Artist` value in the tracks collection and
+ * replace the stored shards in one batch.
+ */
+export async function buildArtistIndex(db: Firestore): Promise<{ artists: number; keys: number; shards: number }> {
+  const credits = new Set<string>();
+  let last: QueryDocumentSnapshot | null = null;
+
+  for (;;) {
+    let query = db.collection("tracks")
+      .select("Artist")
+      .orderBy(FieldPath.documentId())
+      .limit(SCAN_PAGE_SIZE);
+    if (last) query = query.startAfter(last);
+    const snap = await query.get();
+
+    for (const doc of snap.docs) {
+      const artist = doc.get("Artist");
+      if (typeof artist === "string") credits.add(artist);
+    }
+
+    if (snap.size < SCAN_PAGE_SIZE) break;
+    last = snap.docs[snap.docs.length - 1];
+  }
+
+  const { entries, builtAt } = indexArtistCredits(credits, Date.now());
+  const keys = [...entries.keys()];
+  const total = Math.max(1, Math.ceil(keys.length / SHARD_ENTRIES));
+  const ref = db.collection(ARTIST_INDEX_COLLECTION);
+  const batch = db.batch();
+  for (let index = 0; index < total; index++) {
+    const shard: ArtistIndexShard = {
+      index,
+      total,
+      builtAt,
+      entries: Object.fromEntries(
+        keys.slice(index * SHARD_ENTRIES, (index + 1) * SHARD_ENTRIES).map(key => [key, entries.get(key)!])
+      ),
+    };
+    batch.set(ref.doc(`shard_${index}`), shard);
+  }
+  await batch.commit();
+
+  cachedIndex = null;
+  console.log(`[artistIndex] Built ${keys.length} keys from ${credits.size} artist credits in ${total} shards`);
+  return { artists: credits.size, keys: keys.length, shards: total };
+}
@@ -9,7 +9,15 @@
 //   (paste the JSON content of the service account key)
 
 import { initializeApp, getApps, cert, type App } from "firebase-admin/app";
-import { getFirestore, type Firestore } from "firebase-admin/firestore";
+import {
+  getFirestore,
+  type DocumentData,
+  type FieldPath,
+  type Firestore,
+  type ReadOptions,
+  type SetOptions,
+  type WhereFilterOp,
+} from "firebase-admin/firestore";
 import { defineSecret } from "firebase-functions/params";
 
 export const ATMOS_DB_SERVICE_ACCOUNT = defineSecret("ATMOS_DB_SERVICE_ACCOUNT");
@@ -31,3 +39,58 @@ export function getAtmosDb(): Firestore {
   atmosDbInstance = getFirestore(app);
   return atmosDbInstance;
 }
+
+// -- Pipeline surface ----------------------------------------------------------
+// The slice of the Firestore API the pipeline runs against the Atmos DB.
+// Firestore satisfies it as-is; so does the tape's record/replay wrapper
+// (lib/tape.ts), which is why pipeline stages take an AtmosStore.
+
+export interface AtmosDocSnapshot {
+  id: string;
+  exists: boolean;
+  data(): DocumentData | undefined;
+}
+
+export interface AtmosQuerySnapshot {
+  empty: boolean;
+  size: number;
+  docs: Array<{ id: string; data(): DocumentData }>;
+}
+
+/** Query.findNearest() options, as DBMatcher's similarity source uses them. */
+export interface AtmosNearestOptions {
+  vectorField: string;
+  queryVector: number[];
+  limit: number;
+  distanceMeasure: "EUCLIDEAN" | "COSINE" | "DOT_PRODUCT";
+  distanceResultField?: string;
+}
+
+export interface AtmosQuery {
+  where(field: string | FieldPath, op: WhereFilterOp, value: unknown): AtmosQuery;
+  limit(limit: number): AtmosQuery;
+  findNearest(options: AtmosNearestOptions): { get(): Promise<AtmosQuerySnapshot> };
+  get(): Promise<AtmosQuerySnapshot>;
+}
+
+export interface AtmosDocRef {
+  id: string;
+  path: string;
+  get(): Promise<AtmosDocSnapshot>;
+  set(data: DocumentData, options: SetOptions): Promise<unknown>;
+}
+
+export interface AtmosCollection extends AtmosQuery {
+  doc(id: string): AtmosDocRef;
+}
+
+export interface AtmosWriteBatch {
+  set(ref: AtmosDocRef, data: DocumentData, options: SetOptions): AtmosWriteBatch;
+  commit(): Promise<unknown>;
+}
+
+export interface AtmosStore {
+  collection(path: string): AtmosCollection;
+  getAll(...refsOrOptions: Array<AtmosDocRef | ReadOptions>): Promise<AtmosDocSnapshot[]>;
+  batch(): AtmosWriteBatch;
+}
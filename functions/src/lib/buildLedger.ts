@@ -0,0 +1,178 @@
+// src/lib/buildLedger.ts
+// Per-build spend accounting: every paid external call (LLM providers, Serper,
+// Apple Music) records requests, tokens, latency and an estimated USD cost
+// against the pipeline stage that made it.
+//
+// The orchestrator owns one ledger per build and moves `ledger.stage` along as
+// stages start. The summary lands in AtmosPlaylist.buildMetadata.cost and in a
+// buildLedger/{buildId} doc (default nextn project) for cross-build analysis.
+//
+// Prices are list-price estimates -- good for comparing builds, not for billing.
+
+import { getFirestore } from "firebase-admin/firestore";
+import type { LlmProvider, LlmUsage, StageProviders } from "./llm.js";
+import type { BuildCost, StageCost } from "./types.js";
+
+export type LedgerService = "gemini" | "perplexity" | "openai" | "mock" | "serper" | "appleMusic";
+
+// USD per 1M tokens, keyed by model
+const TOKEN_PRICES: Record<string, { input: number; output: number }> = {
+  "gemini-3.1-flash-lite-preview": { input: 0.10, output: 0.40 },
+  "gemini-2.5-flash": { input: 0.30, output: 2.50 },
+  "sonar": { input: 1.00, output: 1.00 },
+  "sonar-pro": { input: 3.00, output: 15.00 },
+  "gpt-4o-mini": { input: 0.15, output: 0.60 },
+};
+
+// Fallback token prices for models not listed above
+const SERVICE_TOKEN_PRICES: Partial<Record<LedgerService, { input: number; output: number }>> = {
+  gemini: { input: 0.10, output: 0.40 },
+  perplexity: { input: 1.00, output: 1.00 },
+  openai: { input: 0.15, output: 0.60 },
+};
+
+// USD per request, on top of any token cost
+const REQUEST_PRICES: Partial<Record<LedgerService, number>> = {
+  perplexity: 0.005, // Sonar request fee (low search context)
+  serper: 0.001,
+  // appleMusic: free with the developer program
+};
+
+export interface BuildLedger {
+  /** Stage that calls are currently attributed to. */
+  stage: string;
+  byStage: Map<string, StageCost>;
+}
+
+function emptyCost(): StageCost {
+  return { requests: 0, promptTokens: 0, completionTokens: 0, latencyMs: 0, estimatedCostUsd: 0 };
+}
+
+/** Start a ledger, optionally continuing totals saved by an earlier attempt. */
+export function createBuildLedger(seed?: BuildCost): BuildLedger {
+  return {
+    stage: "clarify",
+    byStage: new Map(Object.entries(seed?.byStage ?? {}).map(([stage, cost]) => [stage, { ...cost }])),
+  };
+}
+
+export function estimateCostUsd(
+  service: LedgerService,
+  model: string,
+  requests: number,
+  usage?: LlmUsage
+): number {
+  const tokenPrice = TOKEN_PRICES[model] ?? SERVICE_TOKEN_PRICES[service];
+  const tokenCost = tokenPrice && usage
+    ? (usage.promptTokens * tokenPrice.input + usage.completionTokens * tokenPrice.output) / 1_000_000
+    : 0;
+  return tokenCost + requests * (REQUEST_PRICES[service] ?? 0);
+}
+
+export function recordCall(
+  ledger: BuildLedger,
+  service: LedgerService,
+  model: string,
+  call: { requests: number; latencyMs: number; usage?: LlmUsage }
+): void {
+  const cost = ledger.byStage.get(ledger.stage) ?? emptyCost();
+  cost.requests += call.requests;
+  cost.promptTokens += call.usage?.promptTokens ?? 0;
+  cost.completionTokens += call.usage?.completionTokens ?? 0;
+  cost.latencyMs += call.latencyMs;
+  cost.estimatedCostUsd += estimateCostUsd(service, model, call.requests, call.usage);
+  ledger.byStage.set(ledger.stage, cost);
+}
+
+/** Time a non-LLM external call and record it. No-op wrapper when there's no ledger. */
+export async function meterCall<T>(
+  ledger: BuildLedger | undefined,
+  service: LedgerService,
+  model: string,
+  requests: number,
+  call: () => Promise<T>
+): Promise<T> {
+  if (!ledger) return call();
+  const startMs = Date.now();
+  try {
+    return await call();
+  } finally {
+    recordCall(ledger, service, model, { requests, latencyMs: Date.now() - startMs });
+  }
+}
+
+function meterProvider(provider: LlmProvider, ledger: BuildLedger): LlmProvider {
+  return {
+    name: provider.name,
+    model: provider.model,
+    async complete(req) {
+      const startMs = Date.now();
+      const response = await provider.complete(req);
+      recordCall(ledger, provider.name as LedgerService, provider.model, {
+        requests: 1,
+        latencyMs: Date.now() - startMs,
+        usage: response?.usage,
+      });
+      return response;
+    },
+  };
+}
+
+/** Wrap every stage's provider chain so completions are metered. */
+export function meterStageProviders(providers: StageProviders, ledger: BuildLedger): StageProviders {
+  const metered = {} as StageProviders;
+  for (const [stage, chain] of Object.entries(providers) as Array<[keyof StageProviders, LlmProvider[]]>) {
+    metered[stage] = chain.map(p => meterProvider(p, ledger));
+  }
+  return metered;
+}
+
+export function summarizeLedger(ledger: BuildLedger): BuildCost {
+  const total = emptyCost();
+  const byStage: Record<string, StageCost> = {};
+  for (const [stage, cost] of ledger.byStage) {
+    byStage[stage] = { ...cost, estimatedCostUsd: roundUsd(cost.estimatedCostUsd) };
+    total.requests += cost.requests;
+    total.promptTokens += cost.promptTokens;
+    total.completionTokens += cost.completionTokens;
+    total.latencyMs += cost.latencyMs;
+    total.estimatedCostUsd += cost.estimatedCostUsd;
+  }
+  return { ...total, estimatedCostUsd: roundUsd(total.estimatedCostUsd), byStage };
+}
+
+function roundUsd(usd: number): number {
+  return Math.round(usd * 1_000_000) / 1_000_000;
+}
+
+// -- buildLedger collection ----------------------------------------------------
+
+export interface BuildLedgerEntry {
+  prompt: string;
+  intentDescription: string;
+  trackCount: number;
+  buildDurationMs: number;
+  cost: BuildCost;
+  // enrichBudget = targetCount * 3 -- what the pre-scoring cap actually saved
+  enrichment: {
+    targetCount: number;
+    enrichBudget: number;
+    candidates: number;
+    enriched: number;
+    deferred: number;
+    freshlyEnriched: number;
+    cacheHits: number;
+    /** Enrich-stage cost scaled to the whole candidate pool (no budget). */
+    projectedUnbudgetedCostUsd: number;
+  };
+  createdAt: number;
+}
+
+/** Persist one build's spend. Fire-and-forget -- never blocks the response. */
+export function writeBuildLedger(buildId: string, entry: BuildLedgerEntry): void {
+  getFirestore()
+    .collection("buildLedger")
+    .doc(buildId)
+    .set(entry)
+    .catch(err => console.warn(`[buildLedger] Failed to write ledger for ${buildId}:`, err));
+}
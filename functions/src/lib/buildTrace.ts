@@ -0,0 +1,65 @@
+// src/lib/buildTrace.ts
+// Structured per-build trace: one entry per pipeline stage with timing,
+// items in/out, cache hits, free-form notes and dropped items with reasons.
+//
+// This is the data behind the console logs ("[orchestrator] Pre-scoring: ...",
+// "[dbMatcher] Unmatched: ...") so it can travel with the playlist into the
+// debug panel. The orchestrator owns one trace per build; stages report into
+// it through the result objects they already return.
+
+import type { BuildTrace, DroppedItem, StageTrace } from "./types.js";
+
+// Drops kept per stage -- the rest only count (keeps the job doc small)
+const MAX_DROPS_PER_STAGE = 40;
+
+/** Start a trace, optionally continuing one saved by an earlier attempt. */
+export function createBuildTrace(seed?: BuildTrace): BuildTrace {
+  return { stages: seed?.stages.map(s => ({ ...s })) ?? [] };
+}
+
+function stageEntry(trace: BuildTrace, stage: string): StageTrace {
+  let entry = trace.stages.find(s => s.stage === stage);
+  if (!entry) {
+    entry = { stage, startedAt: Date.now(), notes: [], dropped: [], droppedCount: 0 };
+    trace.stages.push(entry);
+  }
+  return entry;
+}
+
+/** Open (or restart, on a re-run) a stage's entry. */
+export function beginStage(trace: BuildTrace, stage: string, inputCount?: number): void {
+  trace.stages = trace.stages.filter(s => s.stage !== stage);
+  const entry = stageEntry(trace, stage);
+  if (inputCount != null) entry.inputCount = inputCount;
+}
+
+export function endStage(
+  trace: BuildTrace,
+  stage: string,
+  counts: { outputCount?: number; cacheHits?: number } = {}
+): void {
+  const entry = stageEntry(trace, stage);
+  entry.durationMs = Date.now() - entry.startedAt;
+  if (counts.outputCount != null) entry.outputCount = counts.outputCount;
+  if (counts.cacheHits != null) entry.cacheHits = counts.cacheHits;
+}
+
+export function traceNote(trace: BuildTrace, stage: string, note: string): void {
+  stageEntry(trace, stage).notes.push(note);
+}
+
+export function traceDrops(trace: BuildTrace, stage: string, items: DroppedItem[]): void {
+  if (items.length === 0) return;
+  const entry = stageEntry(trace, stage);
+  const room = Math.max(0, MAX_DROPS_PER_STAGE - entry.dropped.length);
+  entry.dropped.push(...items.slice(0, room));
+  entry.droppedCount += items.length;
+}
+
+/** Mark a stage whose output was restored from a checkpoint. */
+export function traceCached(trace: BuildTrace, stage: string): void {
+  if (!trace.stages.some(s => s.stage === stage)) {
+    endStage(trace, stage);
+  }
+  traceNote(trace, stage, "Restored from checkpoint after a retry");
+}
@@ -0,0 +1,46 @@
+// src/lib/camelot.ts
+// Camelot wheel notation ("8A" = A minor, "8B" = C major) shared by the
+// sequencer's transition scoring and the hard key constraint.
+
+export interface CamelotKey {
+  num: number;          // 1-12 around the wheel
+  letter: "A" | "B";    // A = minor, B = major
+}
+
+/**
+ * Parse a Camelot notation string (e.g. "8B", "3A") into number + letter.
+ * Returns null for invalid/missing keys.
+ */
+export function parseCamelot(key: string | undefined | null): CamelotKey | null {
+  if (!key) return null;
+  const match = key.trim().match(/^(\d{1,2})([AB])$/i);
+  if (!match) return null;
+  const num = parseInt(match[1], 10);
+  if (num < 1 || num > 12) return null;
+  return { num, letter: match[2].toUpperCase() as "A" | "B" };
+}
+
+/** Canonical form of a Camelot key ("08a" -> "8A"), or null if it isn't one. */
+export function normalizeCamelot(key: string | undefined | null): string | null {
+  const parsed = parseCamelot(key);
+  return parsed ? `${parsed.num}${parsed.letter}` : null;
+}
+
+/**
+ * Every key from `from` to `to` clockwise around the wheel, on from's letter:
+ * "8A"-"10A" -> 8A, 9A, 10A; "11B"-"1B" wraps through 12B. A range across
+ * letters ("8A"-"9B") covers the numbers on both letters.
+ */
+export function camelotRange(from: string, to: string): string[] {
+  const a = parseCamelot(from);
+  const b = parseCamelot(to);
+  if (!a || !b) return [];
+  const steps = (b.num - a.num + 12) % 12;
+  const letters = a.letter === b.letter ? [a.letter] : ["A", "B"];
+  const keys: string[] = [];
+  for (let i = 0; i <= steps; i++) {
+    const num = ((a.num - 1 + i) % 12) + 1;
+    for (const letter of letters) keys.push(`${num}${letter}`);
+  }
+  return keys;
+}
@@ -0,0 +1,400 @@
+// src/lib/catalogSnapshot.ts
+// In-memory snapshot of the Atmos Master DB's searchable track fields.
+//
+// With USE_CATALOG_SNAPSHOT on, DBMatcher and discoverTracksByAttributes query
+// this snapshot instead of issuing Firestore queries per build. It is a compact
+// export of `tracks` (one row per doc, fixed columns), rebuilt daily by the
+// scheduled rebuildCatalogSnapshot function and stored in the Atmos DB as
+//   catalogSnapshot/current                  -- { builtAt, total, tracks }
+//   catalogSnapshot/{builtAt}_0 .. _{total-1} -- JSON payload chunks
+// Chunks are written before `current` points at them, so a reader never sees a
+// half-written build. Each function instance loads it once and re-checks
+// `current` every SNAPSHOT_RECHECK_MS for a newer build.
+//
+// The same serialized form doubles as an offline fixture: catalogFromFile()
+// builds a snapshot from a JSON export (see tools/catalogSnapshot.ts).
+//
+// Enrichment and verification write-backs land in the snapshot only at the
+// next rebuild -- until then it can be up to a day behind Firestore.
+
+import { FieldPath, type Firestore, type QueryDocumentSnapshot } from "firebase-admin/firestore";
+import { indexArtistCredits, type ArtistIndex } from "./artistIndex.js";
+import type { AtmosStore } from "./atmosDb.js";
+import { EMBEDDING_DIM, cosineSimilarity, embedTrack } from "./trackEmbedding.js";
+
+const CATALOG_SNAPSHOT_COLLECTION = "catalogSnapshot";
+const SCAN_PAGE_SIZE = 5_000;
+// Characters per chunk -- worst case 3 bytes/char keeps each doc well under 1 MiB
+const CHUNK_CHARS = 250_000;
+const WRITE_CONCURRENCY = 10;
+const SNAPSHOT_RECHECK_MS = 15 * 60 * 1000;
+
+/** The searchable fields of one `tracks` doc. */
+export interface CatalogTrack {
+  docId: string;
+  Artist: string;
+  track_Title: string;
+  album: string;
+  genre?: string;
+  genre_tags?: string[];           // taxonomy names (lib/genreTags.ts)
+  am_duration_ms?: number;
+  Apple_Music_ID?: string;
+  Apple_Music_URL?: string;
+  FINAL_SCORE?: number;
+  overall_class?: string;
+  am_has_atmos?: boolean;
+  atmos_mood?: string;
+  atmos_energy?: number;
+  atmos_vibe?: string[];
+  atmos_tempo_estimate?: number;
+  atmos_key_estimate?: string;
+  verificationFailedAtMs?: number; // am_verification_failed_at
+  release_year?: number;           // written back by the Verifier (lib/releaseEra.ts)
+  original_year?: number;
+  remix_year?: number;
+}
+
+// Row layout of the serialized form; append new columns at the end
+const CATALOG_COLUMNS = [
+  "docId", "Artist", "track_Title", "album", "genre", "am_duration_ms",
+  "Apple_Music_ID", "Apple_Music_URL", "FINAL_SCORE", "overall_class", "am_has_atmos",
+  "atmos_mood", "atmos_energy", "atmos_vibe", "atmos_tempo_estimate", "atmos_key_estimate",
+  "verificationFailedAtMs", "genre_tags", "release_year", "original_year", "remix_year",
+] as const satisfies readonly (keyof CatalogTrack)[];
+
+// Firestore fields read for a snapshot (legacy Title/Album spellings included)
+const SCAN_FIELDS = [
+  "Artist", "Title", "track_Title", "Album", "album", "genre", "am_duration_ms",
+  "Apple_Music_ID", "Apple_Music_URL", "FINAL_SCORE", "overall_class", "am_has_atmos",
+  "atmos_mood", "atmos_energy", "atmos_vibe", "atmos_tempo_estimate", "atmos_key_estimate",
+  "am_verification_failed_at", "genre_tags", "release_year", "original_year", "remix_year",
+];
+
+/** On-disk / stored form. */
+export interface CatalogSnapshotFile {
+  version: 1;
+  builtAt: number;
+  columns: string[];
+  rows: unknown[][];
+}
+
+export interface CatalogSnapshot {
+  builtAt: number;
+  tracks: CatalogTrack[];                  // docId order, like an unordered Firestore query
+  byArtist: Map<string, CatalogTrack[]>;
+  artists: string[];                       // sorted, for prefix lookups
+  byGenre: Map<string, CatalogTrack[]>;
+  byGenreTag: Map<string, CatalogTrack[]>;
+  byMood: Map<string, CatalogTrack[]>;
+  artistIndex: ArtistIndex;
+  embeddings?: Float32Array;               // tracks.length x EMBEDDING_DIM, computed on first nearest query
+}
+
+/** A nearest-neighbour result: cosine similarity to the query vector. */
+export interface NearestTrack {
+  track: CatalogTrack;
+  similarity: number;
+}
+
+interface CatalogSnapshotHead {
+  builtAt: number;
+  total: number;
+  tracks: number;
+}
+
+interface CatalogSnapshotChunk {
+  builtAt: number;
+  index: number;
+  payload: string;
+}
+
+// -- Conversion ----------------------------------------------------------------
+
+/** A `tracks` doc's searchable fields, under the names DBMatcher uses. */
+export function toCatalogTrack(docId: string, data: Record<string, unknown>): CatalogTrack {
+  const failedAt = data.am_verification_failed_at as { toMillis?: () => number } | undefined;
+  return {
+    docId,
+    Artist: (data.Artist as string | undefined) ?? "",
+    track_Title: (data.Title as string | undefined) ?? (data.track_Title as string | undefined) ?? "",
+    album: (data.Album as string | undefined) ?? (data.album as string | undefined) ?? "",
+    genre: data.genre as string | undefined,
+    genre_tags: Array.isArray(data.genre_tags) ? (data.genre_tags as string[]) : undefined,
+    am_duration_ms: data.am_duration_ms as number | undefined,
+    Apple_Music_ID: data.Apple_Music_ID != null ? String(data.Apple_Music_ID) : undefined,
+    Apple_Music_URL: data.Apple_Music_URL as string | undefined,
+    FINAL_SCORE: data.FINAL_SCORE as number | undefined,
+    overall_class: data.overall_class as string | undefined,
+    am_has_atmos: data.am_has_atmos as boolean | undefined,
+    atmos_mood: data.atmos_mood as string | undefined,
+    atmos_energy: data.atmos_energy as number | undefined,
+    atmos_vibe: data.atmos_vibe as string[] | undefined,
+    atmos_tempo_estimate: data.atmos_tempo_estimate as number | undefined,
+    atmos_key_estimate: data.atmos_key_estimate as string | undefined,
+    verificationFailedAtMs: typeof failedAt?.toMillis === "function" ? failedAt.toMillis() : undefined,
+    release_year: data.release_year as number | undefined,
+    original_year: data.original_year as number | undefined,
+    remix_year: data.remix_year as number | undefined,
+  };
+}
+
+function groupBy(tracks: CatalogTrack[], field: "Artist" | "genre" | "atmos_mood"): Map<string, CatalogTrack[]> {
+  const groups = new Map<string, CatalogTrack[]>();
+  for (const track of tracks) {
+    const value = track[field];
+    if (!value) continue;
+    const group = groups.get(value);
+    if (group) group.push(track);
+    else groups.set(value, [track]);
+  }
+  return groups;
+}
+
+function groupByGenreTag(tracks: CatalogTrack[]): Map<string, CatalogTrack[]> {
+  const groups = new Map<string, CatalogTrack[]>();
+  for (const track of tracks) {
+    for (const tag of new Set(track.genre_tags ?? [])) {
+      const group = groups.get(tag);
+      if (group) group.push(track);
+      else groups.set(tag, [track]);
+    }
+  }
+  return groups;
+}
+
+/** Build the in-memory lookups over a list of tracks. */
+export function catalogFromTracks(tracks: CatalogTrack[], builtAt: number): CatalogSnapshot {
+  const sorted = [...tracks].sort((a, b) => (a.docId < b.docId ? -1 : a.docId > b.docId ? 1 : 0));
+  const byArtist = groupBy(sorted, "Artist");
+  return {
+    builtAt,
+    tracks: sorted,
+    byArtist,
+    artists: [...byArtist.keys()].sort(),
+    byGenre: groupBy(sorted, "genre"),
+    byGenreTag: groupByGenreTag(sorted),
+    byMood: groupBy(sorted, "atmos_mood"),
+    artistIndex: indexArtistCredits(byArtist.keys(), builtAt),
+  };
+}
+
+export function serializeCatalog(catalog: CatalogSnapshot): CatalogSnapshotFile {
+  return {
+    version: 1,
+    builtAt: catalog.builtAt,
+    columns: [...CATALOG_COLUMNS],
+    rows: catalog.tracks.map(t => CATALOG_COLUMNS.map(column => t[column] ?? null)),
+  };
+}
+
+/** Snapshot from its serialized form -- a stored build or a fixture file. */
+export function catalogFromFile(file: CatalogSnapshotFile): CatalogSnapshot {
+  const tracks = file.rows.map(row => {
+    const track: Record<string, unknown> = {};
+    file.columns.forEach((column, i) => {
+      if (row[i] != null) track[column] = row[i];
+    });
+    return track as unknown as CatalogTrack;
+  });
+  return catalogFromTracks(tracks, file.builtAt);
+}
+
+// -- Queries -------------------------------------------------------------------
+// Same results a Firestore query with these filters would return: matching
+// tracks in docId order, truncated at `limit`.
+
+/** `where(field, "==", value).limit(limit)` */
+export function catalogWhereEquals(
+  catalog: CatalogSnapshot,
+  field: "Artist" | "genre" | "atmos_mood",
+  value: string,
+  limit: number
+): CatalogTrack[] {
+  const groups = field === "Artist" ? catalog.byArtist : field === "genre" ? catalog.byGenre : catalog.byMood;
+  return (groups.get(value) ?? []).slice(0, limit);
+}
+
+/** `where("Artist", "in", artists).limit(limit)` */
+export function catalogWhereArtistIn(catalog: CatalogSnapshot, artists: string[], limit: number): CatalogTrack[] {
+  return [...new Set(artists)]
+    .flatMap(artist => catalog.byArtist.get(artist) ?? [])
+    .sort((a, b) => (a.docId < b.docId ? -1 : a.docId > b.docId ? 1 : 0))
+    .slice(0, limit);
+}
+
+/** `where("genre_tags", "array-contains-any", tags).limit(limit)` */
+export function catalogWhereGenreTagsAny(catalog: CatalogSnapshot, tags: string[], limit: number): CatalogTrack[] {
+  const matches = new Map<string, CatalogTrack>();
+  for (const tag of tags) {
+    for (const track of catalog.byGenreTag.get(tag) ?? []) matches.set(track.docId, track);
+  }
+  return [...matches.values()]
+    .sort((a, b) => (a.docId < b.docId ? -1 : a.docId > b.docId ? 1 : 0))
+    .slice(0, limit);
+}
+
+/**
+ * `findNearest({ vectorField: "embedding", distanceMeasure: "COSINE", limit })`,
+ * nearest first. Embeddings come from the snapshot's own fields -- the same
+ * deterministic vectors the nightly refresh stores on the docs.
+ */
+export function catalogNearest(catalog: CatalogSnapshot, vector: number[], limit: number): NearestTrack[] {
+  if (limit <= 0) return [];
+  if (!catalog.embeddings) {
+    const embeddings = new Float32Array(catalog.tracks.length * EMBEDDING_DIM);
+    catalog.tracks.forEach((track, i) => embeddings.set(embedTrack(track), i * EMBEDDING_DIM));
+    catalog.embeddings = embeddings;
+  }
+
+  // Keep the best `limit` in a sorted array -- limit is small next to the catalog
+  const best: { index: number; similarity: number }[] = [];
+  for (let i = 0; i < catalog.tracks.length; i++) {
+    const similarity = cosineSimilarity(vector, catalog.embeddings.subarray(i * EMBEDDING_DIM, (i + 1) * EMBEDDING_DIM));
+    if (best.length === limit && similarity <= best[best.length - 1].similarity) continue;
+    let at = best.length;
+    while (at > 0 && best[at - 1].similarity < similarity) at--;
+    best.splice(at, 0, { index: i, similarity });
+    if (best.length > limit) best.pop();
+  }
+  return best.map(({ index, similarity }) => ({ track: catalog.tracks[index], similarity }));
+}
+
+/** `where("Artist", ">=", prefix).where("Artist", "<=", prefix + "\uf8ff").limit(limit)` */
+export function catalogArtistPrefix(catalog: CatalogSnapshot, prefix: string, limit: number): CatalogTrack[] {
+  const { artists } = catalog;
+  let lo = 0;
+  let hi = artists.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (artists[mid] < prefix) lo = mid + 1;
+    else hi = mid;
+  }
+
+  const results: CatalogTrack[] = [];
+  for (let i = lo; i < artists.length && artists[i].startsWith(prefix) && results.length < limit; i++) {
+    results.push(...(catalog.byArtist.get(artists[i]) ?? []).slice(0, limit - results.length));
+  }
+  return results;
+}
+
+// -- Storage -------------------------------------------------------------------
+
+let cached: { catalog: CatalogSnapshot; checkedAt: number } | null = null;
+let loading: Promise<CatalogSnapshot | null> | null = null;
+
+async function fetchCatalogSnapshot(db: AtmosStore): Promise<CatalogSnapshot | null> {
+  try {
+    const ref = db.collection(CATALOG_SNAPSHOT_COLLECTION);
+    const headSnap = await ref.doc("current").get();
+    if (!headSnap.exists) {
+      console.warn("[catalogSnapshot] No catalog snapshot in the Atmos DB -- run rebuildCatalogSnapshot");
+      return cached?.catalog ?? null;
+    }
+
+    const head = headSnap.data() as CatalogSnapshotHead;
+    if (cached && cached.catalog.builtAt === head.builtAt) {
+      cached.checkedAt = Date.now();
+      return cached.catalog;
+    }
+
+    const chunks = await db.getAll(
+      ...Array.from({ length: head.total }, (_, i) => ref.doc(`${head.builtAt}_${i}`))
+    );
+    const parts: string[] = [];
+    for (const snap of chunks) {
+      const chunk = snap.data() as CatalogSnapshotChunk | undefined;
+      if (!chunk || chunk.builtAt !== head.builtAt) {
+        console.warn(`[catalogSnapshot] Snapshot ${head.builtAt} is missing chunks -- keeping the previous one`);
+        return cached?.catalog ?? null;
+      }
+      parts.push(chunk.payload);
+    }
+
+    const catalog = catalogFromFile(JSON.parse(parts.join("")) as CatalogSnapshotFile);
+    cached = { catalog, checkedAt: Date.now() };
+    console.log(
+      `[catalogSnapshot] Loaded ${catalog.tracks.length} tracks ` +
+      `(built ${new Date(catalog.builtAt).toISOString()})`
+    );
+    return catalog;
+  } catch (err) {
+    console.warn("[catalogSnapshot] Failed to load the catalog snapshot:", err);
+    return cached?.catalog ?? null;
+  }
+}
+
+/**
+ * The current snapshot for this function instance, or null if none was ever
+ * built (callers fall back to Firestore queries). Concurrent callers share one
+ * load; a failed refresh keeps serving the previous snapshot.
+ */
+export async function loadCatalogSnapshot(db: AtmosStore): Promise<CatalogSnapshot | null> {
+  if (cached && Date.now() - cached.checkedAt < SNAPSHOT_RECHECK_MS) return cached.catalog;
+  loading ??= fetchCatalogSnapshot(db).finally(() => {
+    loading = null;
+  });
+  return loading;
+}
+
+/** Read every track's searchable fields from Firestore. */
+export async function scanCatalog(db: Firestore): Promise<CatalogSnapshot> {
+  const tracks: CatalogTrack[] = [];
+  let last: QueryDocumentSnapshot | null = null;
+
+  for (;;) {
+    let query = db.collection("tracks")
+      .select(...SCAN_FIELDS)
+      .orderBy(FieldPath.documentId())
+      .limit(SCAN_PAGE_SIZE);
+    if (last) query = query.startAfter(last);
+    const snap = await query.get();
+
+    for (const doc of snap.docs) tracks.push(toCatalogTrack(doc.id, doc.data()));
+
+    if (snap.size < SCAN_PAGE_SIZE) break;
+    last = snap.docs[snap.docs.length - 1];
+  }
+  return catalogFromTracks(tracks, Date.now());
+}
+
+/**
+ * Export the tracks collection as a new snapshot build, point `current` at it
+ * and delete the chunks of older builds.
+ */
+export async function buildCatalogSnapshot(db: Firestore): Promise<{ tracks: number; chunks: number }> {
+  const catalog = await scanCatalog(db);
+  const { builtAt } = catalog;
+  const json = JSON.stringify(serializeCatalog(catalog));
+  const total = Math.max(1, Math.ceil(json.length / CHUNK_CHARS));
+  const ref = db.collection(CATALOG_SNAPSHOT_COLLECTION);
+
+  // Chunks first, in small parallel groups (a single batch would exceed the request size limit)
+  for (let start = 0; start < total; start += WRITE_CONCURRENCY) {
+    await Promise.all(
+      Array.from({ length: Math.min(WRITE_CONCURRENCY, total - start) }, (_, i) => {
+        const index = start + i;
+        const chunk: CatalogSnapshotChunk = {
+          builtAt,
+          index,
+          payload: json.slice(index * CHUNK_CHARS, (index + 1) * CHUNK_CHARS),
+        };
+        return ref.doc(`${builtAt}_${index}`).set(chunk);
+      })
+    );
+  }
+  const head: CatalogSnapshotHead = { builtAt, total, tracks: catalog.tracks.length };
+  await ref.doc("current").set(head);
+
+  const stale = await ref.where("builtAt", "<", builtAt).select().get();
+  for (let i = 0; i < stale.docs.length; i += 400) {
+    const batch = db.batch();
+    for (const doc of stale.docs.slice(i, i + 400)) batch.delete(doc.ref);
+    await batch.commit();
+  }
+
+  console.log(
+    `[catalogSnapshot] Built ${catalog.tracks.length} tracks into ${total} chunks ` +
+    `(${json.length} chars), removed ${stale.size} stale chunks`
+  );
+  return { tracks: catalog.tracks.length, chunks: total };
+}
@@ -0,0 +1,89 @@
+// src/lib/checkpointStore.ts
+// Per-stage pipeline outputs for resume, stored under pipelineJobs/{jobId}/checkpoints.
+//
+// Stage outputs (candidate pools, drafts) can exceed Firestore's 1 MiB document
+// limit, so each one is serialized to JSON and split across numbered chunk docs:
+//   checkpoints/{stage}_0 .. {stage}_{total-1}
+// All chunks of a stage are written in one batch, so a stage is either fully
+// saved or not at all. Chunks carry expiresAt for the same TTL policy as the job.
+
+import { getFirestore } from "firebase-admin/firestore";
+import { JOB_TTL_MS, PIPELINE_JOBS_COLLECTION } from "./pipelineJobs.js";
+
+// Characters per chunk -- worst case 3 bytes/char keeps each doc well under 1 MiB
+const CHUNK_CHARS = 250_000;
+
+interface CheckpointChunk {
+  stage: string;
+  index: number;
+  total: number;
+  payload: string;
+  expiresAt: number;
+}
+
+function checkpointsRef(jobId: string) {
+  return getFirestore()
+    .collection(PIPELINE_JOBS_COLLECTION)
+    .doc(jobId)
+    .collection("checkpoints");
+}
+
+/**
+ * Persist one stage's output. Returns false on failure -- the stage simply
+ * re-runs on resume, so callers don't need to handle it.
+ */
+export async function saveStageCheckpoint(jobId: string, stage: string, data: unknown): Promise<boolean> {
+  try {
+    const json = JSON.stringify(data);
+    const total = Math.max(1, Math.ceil(json.length / CHUNK_CHARS));
+    const expiresAt = Date.now() + JOB_TTL_MS;
+    const ref = checkpointsRef(jobId);
+    const batch = getFirestore().batch();
+
+    for (let index = 0; index < total; index++) {
+      const chunk: CheckpointChunk = {
+        stage,
+        index,
+        total,
+        payload: json.slice(index * CHUNK_CHARS, (index + 1) * CHUNK_CHARS),
+        expiresAt,
+      };
+      batch.set(ref.doc(`${stage}_${index}`), chunk);
+    }
+    await batch.commit();
+
+    console.log(`[checkpointStore] Saved ${stage} for job ${jobId} (${json.length} chars, ${total} chunks)`);
+    return true;
+  } catch (err) {
+    console.warn(`[checkpointStore] Failed to save ${stage} for job ${jobId}:`, err);
+    return false;
+  }
+}
+
+/** Load one stage's output, or null if it was never saved or is incomplete. */
+export async function loadStageCheckpoint<T>(jobId: string, stage: string): Promise<T | null> {
+  try {
+    const ref = checkpointsRef(jobId);
+    const first = await ref.doc(`${stage}_0`).get();
+    if (!first.exists) return null;
+
+    const head = first.data() as CheckpointChunk;
+    const rest = head.total > 1
+      ? await getFirestore().getAll(
+          ...Array.from({ length: head.total - 1 }, (_, i) => ref.doc(`${stage}_${i + 1}`))
+        )
+      : [];
+
+    const parts = [head.payload];
+    for (const snap of rest) {
+      // A chunk from a different save (stale total) means the set is inconsistent
+      const chunk = snap.data() as CheckpointChunk | undefined;
+      if (!chunk || chunk.total !== head.total) return null;
+      parts.push(chunk.payload);
+    }
+    return JSON.parse(parts.join("")) as T;
+  } catch (err) {
+    console.warn(`[checkpointStore] Failed to load ${stage} for job ${jobId}:`, err);
+    return null;
+  }
+}
@@ -0,0 +1,74 @@
+// src/lib/embeddingIndex.ts
+// Keeps the `embedding` vector on every `tracks` doc in step with the fields
+// it is built from (lib/trackEmbedding.ts).
+//
+// The scheduled refreshTrackEmbeddings function rescans the collection
+// nightly and rewrites only docs whose `embedding_key` changed -- new
+// enrichment, a genre re-tag, or a new EMBEDDING_MODEL. Nearest-neighbour
+// queries on `embedding` (DBMatcher's similarity source) need a Firestore
+// vector index on tracks.embedding with EMBEDDING_DIM dimensions; see
+// TECHNICAL_HANDOFF.md.
+
+import { FieldPath, FieldValue, type Firestore, type QueryDocumentSnapshot } from "firebase-admin/firestore";
+import { EMBEDDING_MODEL, embedTrack, embeddingKey, type EmbeddableTrack } from "./trackEmbedding.js";
+
+const SCAN_PAGE_SIZE = 2_000;
+const WRITE_BATCH_SIZE = 500; // Firestore batch cap
+
+// Embedding inputs, under the `tracks` field names (legacy Title/Album spellings included)
+const SOURCE_FIELDS = [
+  "Title", "track_Title", "Album", "album", "genre", "genre_tags",
+  "atmos_mood", "atmos_vibe", "atmos_energy", "atmos_tempo_estimate",
+];
+
+function embeddableTrack(doc: QueryDocumentSnapshot): EmbeddableTrack {
+  const data = doc.data();
+  return {
+    track_Title: (data.Title as string | undefined) ?? (data.track_Title as string | undefined),
+    album: (data.Album as string | undefined) ?? (data.album as string | undefined),
+    genre: data.genre as string | undefined,
+    genre_tags: Array.isArray(data.genre_tags) ? (data.genre_tags as string[]) : undefined,
+    atmos_mood: data.atmos_mood as string | undefined,
+    atmos_vibe: data.atmos_vibe as string[] | undefined,
+    atmos_energy: data.atmos_energy as number | undefined,
+    atmos_tempo_estimate: data.atmos_tempo_estimate as number | undefined,
+  };
+}
+
+/** Recompute every track's embedding key and rewrite the vectors that changed. */
+export async function syncTrackEmbeddings(db: Firestore): Promise<{ scanned: number; updated: number }> {
+  let scanned = 0;
+  let updated = 0;
+  let last: QueryDocumentSnapshot | null = null;
+
+  for (;;) {
+    let query = db.collection("tracks")
+      .select(...SOURCE_FIELDS, "embedding_key")
+      .orderBy(FieldPath.documentId())
+      .limit(SCAN_PAGE_SIZE);
+    if (last) query = query.startAfter(last);
+    const snap = await query.get();
+
+    const changed: { doc: QueryDocumentSnapshot; track: EmbeddableTrack; key: string }[] = [];
+    for (const doc of snap.docs) {
+      const track = embeddableTrack(doc);
+      const key = embeddingKey(track);
+      if (doc.get("embedding_key") !== key) changed.push({ doc, track, key });
+    }
+    for (let i = 0; i < changed.length; i += WRITE_BATCH_SIZE) {
+      const batch = db.batch();
+      for (const { doc, track, key } of changed.slice(i, i + WRITE_BATCH_SIZE)) {
+        batch.update(doc.ref, { embedding: FieldValue.vector(embedTrack(track)), embedding_key: key });
+      }
+      await batch.commit();
+    }
+
+    scanned += snap.size;
+    updated += changed.length;
+    if (snap.size < SCAN_PAGE_SIZE) break;
+    last = snap.docs[snap.docs.length - 1];
+  }
+
+  console.log(`[embeddingIndex] Scanned ${scanned} tracks, wrote ${updated} ${EMBEDDING_MODEL} embeddings`);
+  return { scanned, updated };
+}
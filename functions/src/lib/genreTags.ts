@@ -0,0 +1,62 @@
+// src/lib/genreTags.ts
+// Keeps the `genre_tags` array on every `tracks` doc in step with its `genre`.
+//
+// `genre` is free-form ("Rock / Yacht Rock", "Electronic, House"), so it only
+// answers exact `==` queries. `genre_tags` holds the same value as taxonomy
+// names plus their families (genreTagsFor in lib/genreTaxonomy.ts) and backs
+// the `array-contains-any` queries in discoverTracksByAttributes. The scheduled
+// refreshGenreTags function rescans the collection nightly, ahead of the
+// catalog snapshot rebuild, and rewrites only docs whose tags changed -- a
+// taxonomy edit reaches every track on the next run.
+
+import { FieldPath, type Firestore, type QueryDocumentSnapshot } from "firebase-admin/firestore";
+import { genreTagsFor } from "./genreTaxonomy.js";
+
+const SCAN_PAGE_SIZE = 5_000;
+const WRITE_BATCH_SIZE = 500; // Firestore batch cap
+
+function sameTags(a: unknown, b: string[]): boolean {
+  return Array.isArray(a) && a.length === b.length && a.every((tag, i) => tag === b[i]);
+}
+
+/**
+ * Recompute `genre_tags` for every track and write the ones that differ.
+ * Tracks with no recognizable genre get an empty array, so they stay out of
+ * tag queries without being rescanned as "missing" each night.
+ */
+export async function syncGenreTags(db: Firestore): Promise<{ scanned: number; updated: number; untagged: number }> {
+  let scanned = 0;
+  let updated = 0;
+  let untagged = 0;
+  let last: QueryDocumentSnapshot | null = null;
+
+  for (;;) {
+    let query = db.collection("tracks")
+      .select("genre", "genre_tags")
+      .orderBy(FieldPath.documentId())
+      .limit(SCAN_PAGE_SIZE);
+    if (last) query = query.startAfter(last);
+    const snap = await query.get();
+
+    const changed: { doc: QueryDocumentSnapshot; tags: string[] }[] = [];
+    for (const doc of snap.docs) {
+      const genre = doc.get("genre");
+      const tags = genreTagsFor(typeof genre === "string" ? genre : null);
+      if (tags.length === 0) untagged++;
+      if (!sameTags(doc.get("genre_tags"), tags)) changed.push({ doc, tags });
+    }
+    for (let i = 0; i < changed.length; i += WRITE_BATCH_SIZE) {
+      const batch = db.batch();
+      for (const { doc, tags } of changed.slice(i, i + WRITE_BATCH_SIZE)) batch.update(doc.ref, { genre_tags: tags });
+      await batch.commit();
+    }
+
+    scanned += snap.size;
+    updated += changed.length;
+    if (snap.size < SCAN_PAGE_SIZE) break;
+    last = snap.docs[snap.docs.length - 1];
+  }
+
+  console.log(`[genreTags] Scanned ${scanned} tracks, updated ${updated}, ${untagged} without a taxonomy genre`);
+  return { scanned, updated, untagged };
+}
@@ -7,6 +7,8 @@
 //
 // Rebuild manually when taxonomy needs updating by querying the NotebookLM notebook.
 
+import { closestMatch, matchKey } from "./textMatch.js";
+
 // --- 1. GENRE HIERARCHY (11 families) -----------------------------------------
 
 export interface GenreFamily {
@@ -424,6 +426,101 @@ export function findGenreFamily(genre: string): GenreFamily | undefined {
   );
 }
 
+// Common spellings the LLM (and users) produce -> canonical taxonomy entry.
+// Keys are matchKey()s (lowercase, alphanumeric, "&" -> "and").
+const GENRE_ALIASES: Record<string, string> = {
+  hiphop: "Hip-Hop",
+  rap: "Hip-Hop/Rap",
+  hiphoprap: "Hip-Hop/Rap",
+  rnb: "R&B",
+  randbsoul: "R&B/Soul",
+  rhythmandblues: "R&B",
+  neosoul: "Neo-Soul",
+  dnb: "Drum & Bass",
+  dandb: "Drum & Bass",
+  drumnbass: "Drum & Bass",
+  liquiddrumandbass: "Liquid DnB",
+  electronic: "Electronic/Dance",
+  dance: "Electronic/Dance",
+  electronica: "Electronic/Dance",
+  ukg: "UK Garage",
+  garage: "UK Garage",
+  chill: "Chillout",
+  chillwave: "Chillout",
+  lofi: "Downtempo",
+  lofihiphop: "Downtempo",
+  triphop: "Downtempo",
+  altrock: "Alternative Rock",
+  indie: "Indie Rock",
+  classicalmusic: "Classical",
+  soundtrack: "Film Score",
+  christian: "Gospel/Christian",
+  worship: "Praise & Worship",
+  afrobeat: "Afrobeats",
+  afropop: "Afrobeats/Afropop",
+  kpop: "K-Pop",
+  jpop: "J-Pop",
+  cpop: "C-Pop",
+  latinx: "Latin",
+  mexican: "Musica Mexicana",
+  world: "Global/Regional",
+  worldmusic: "Global/Regional",
+};
+
+let genreVocabulary: Map<string, string> | null = null;
+
+/** Every canonical genre name (families, sub-genres, Musicmap clusters, BPM table) by match key. */
+function getGenreVocabulary(): Map<string, string> {
+  if (genreVocabulary) return genreVocabulary;
+  const names = [
+    ...GENRE_FAMILIES.flatMap(f => [f.name, ...f.subGenres]),
+    ...MUSICMAP_CLUSTERS.flatMap(c => c.genres),
+    ...Object.keys(BPM_RANGES),
+  ];
+  genreVocabulary = new Map();
+  for (const name of names) {
+    const key = matchKey(name);
+    if (!genreVocabulary.has(key)) genreVocabulary.set(key, name);
+  }
+  return genreVocabulary;
+}
+
+export type GenreMatch = "exact" | "alias" | "fuzzy";
+
+/** Resolve a free-form genre name to its canonical taxonomy entry, or null if unknown. */
+export function resolveGenre(genre: string): { canonical: string; match: GenreMatch } | null {
+  const key = matchKey(genre);
+  if (!key) return null;
+  const vocabulary = getGenreVocabulary();
+
+  const exact = vocabulary.get(key);
+  if (exact) return { canonical: exact, match: "exact" };
+  const alias = GENRE_ALIASES[key];
+  if (alias) return { canonical: alias, match: "alias" };
+  // Short names are one typo away from unrelated genres ("emo" / "EBM")
+  if (key.length < 5) return null;
+  const fuzzy = closestMatch(genre, vocabulary);
+  return fuzzy ? { canonical: fuzzy.canonical, match: "fuzzy" } : null;
+}
+
+/**
+ * Taxonomy tags for a track's free-form `genre` value: the whole value and each
+ * part of it ("Rock / Yacht Rock", "Electronic, House") resolved to canonical
+ * names, plus the family of every sub-genre. Unknown parts are dropped.
+ */
+export function genreTagsFor(genre: string | null | undefined): string[] {
+  if (!genre?.trim()) return [];
+  const tags = new Set<string>();
+  for (const part of [genre, ...genre.split(/\s*[/,;|]\s*/)]) {
+    const resolved = part ? resolveGenre(part) : null;
+    if (!resolved) continue;
+    tags.add(resolved.canonical);
+    const family = findGenreFamily(resolved.canonical);
+    if (family) tags.add(family.name);
+  }
+  return [...tags];
+}
+
 /** Get adjacent genres using Musicmap cluster membership */
 export function getAdjacentGenres(genre: string, maxResults = 6): string[] {
   const lower = genre.toLowerCase();
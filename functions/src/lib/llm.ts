@@ -0,0 +1,377 @@
+// src/lib/llm.ts
+// Pluggable LLM provider layer shared by every AI-backed pipeline stage.
+//
+// Stages never construct SDK clients or hand-roll fetch calls. Instead they
+// receive an ordered provider chain (primary first, fallbacks after) and call
+// completeJSON(), which walks the chain until one provider returns parseable
+// JSON. Chains are resolved per stage from defaults + optional overrides so
+// models can be swapped per stage without code changes.
+//
+// Providers:
+//   - gemini      -- Google Generative AI SDK (JSON mode)
+//   - perplexity  -- Perplexity Sonar chat completions
+//   - openai      -- any OpenAI-compatible /chat/completions endpoint
+//   - mock        -- deterministic, offline; answers from a fixture map
+
+import { createHash } from "crypto";
+import { GoogleGenerativeAI } from "@google/generative-ai";
+
+const DEFAULT_GEMINI_MODEL = "gemini-3.1-flash-lite-preview";
+const DEFAULT_PERPLEXITY_MODEL = "sonar";
+const DEFAULT_OPENAI_MODEL = "gpt-4o-mini";
+const PERPLEXITY_API_URL = "https://api.perplexity.ai/chat/completions";
+const DEFAULT_OPENAI_BASE_URL = "https://api.openai.com/v1";
+const DEFAULT_TIMEOUT_MS = 45_000;
+
+// -- Provider contract --------------------------------------------------------
+
+export type LlmProviderKind = "gemini" | "perplexity" | "openai" | "mock";
+
+export interface LlmRequest {
+  prompt: string;
+  temperature?: number;
+  maxOutputTokens?: number;
+  json?: boolean;      // ask for a JSON-only response where the provider supports it
+  timeoutMs?: number;
+}
+
+export interface LlmUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface LlmResponse {
+  text: string;
+  provider: string;
+  model: string;
+  usage?: LlmUsage;
+}
+
+export interface LlmProvider {
+  readonly name: string;
+  readonly model: string;
+  /** Returns null on any transport/API failure (never throws). */
+  complete(req: LlmRequest): Promise<LlmResponse | null>;
+}
+
+// -- Gemini -------------------------------------------------------------------
+
+export function createGeminiProvider(apiKey: string, model = DEFAULT_GEMINI_MODEL): LlmProvider {
+  return {
+    name: "gemini",
+    model,
+    async complete(req) {
+      try {
+        const genAI = new GoogleGenerativeAI(apiKey);
+        const generativeModel = genAI.getGenerativeModel(
+          {
+            model,
+            generationConfig: {
+              ...(req.json !== false ? { responseMimeType: "application/json" } : {}),
+              ...(req.temperature != null ? { temperature: req.temperature } : {}),
+              ...(req.maxOutputTokens != null ? { maxOutputTokens: req.maxOutputTokens } : {}),
+            },
+          },
+          req.timeoutMs ? { timeout: req.timeoutMs } : undefined
+        );
+
+        const result = await generativeModel.generateContent(req.prompt);
+        const usage = result.response.usageMetadata;
+        return {
+          text: result.response.text(),
+          provider: "gemini",
+          model,
+          usage: usage
+            ? { promptTokens: usage.promptTokenCount ?? 0, completionTokens: usage.candidatesTokenCount ?? 0 }
+            : undefined,
+        };
+      } catch (err) {
+        console.warn(`[llm] Gemini (${model}) request failed:`, err);
+        return null;
+      }
+    },
+  };
+}
+
+// -- Chat-completions (Perplexity + OpenAI-compatible) ------------------------
+
+interface ChatCompletionResponse {
+  choices?: Array<{ message?: { content?: string } }>;
+  model?: string;
+  usage?: { prompt_tokens?: number; completion_tokens?: number };
+}
+
+async function postChatCompletion(
+  label: string,
+  url: string,
+  apiKey: string,
+  model: string,
+  req: LlmRequest
+): Promise<LlmResponse | null> {
+  try {
+    const resp = await fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${apiKey}`,
+      },
+      body: JSON.stringify({
+        model,
+        messages: [{ role: "user", content: req.prompt }],
+        max_tokens: req.maxOutputTokens ?? 3000,
+        temperature: req.temperature ?? 0.2,
+      }),
+      signal: AbortSignal.timeout(req.timeoutMs ?? DEFAULT_TIMEOUT_MS),
+    });
+
+    if (!resp.ok) {
+      console.warn(`[llm] ${label} HTTP ${resp.status}: ${resp.statusText}`);
+      return null;
+    }
+
+    const data = await resp.json() as ChatCompletionResponse;
+    const text = data.choices?.[0]?.message?.content;
+    if (text == null) return null;
+
+    return {
+      text,
+      provider: label,
+      model: data.model ?? model,
+      usage: data.usage
+        ? { promptTokens: data.usage.prompt_tokens ?? 0, completionTokens: data.usage.completion_tokens ?? 0 }
+        : undefined,
+    };
+  } catch (err) {
+    console.warn(`[llm] ${label} request failed:`, err);
+    return null;
+  }
+}
+
+export function createPerplexityProvider(apiKey: string, model = DEFAULT_PERPLEXITY_MODEL): LlmProvider {
+  return {
+    name: "perplexity",
+    model,
+    complete: req => postChatCompletion("perplexity", PERPLEXITY_API_URL, apiKey, model, req),
+  };
+}
+
+export function createOpenAICompatibleProvider(
+  apiKey: string,
+  model = DEFAULT_OPENAI_MODEL,
+  baseUrl = DEFAULT_OPENAI_BASE_URL
+): LlmProvider {
+  const url = `${baseUrl.replace(/\/+$/, "")}/chat/completions`;
+  return {
+    name: "openai",
+    model,
+    complete: req => postChatCompletion("openai", url, apiKey, model, req),
+  };
+}
+
+// -- Mock (deterministic, offline) --------------------------------------------
+
+/** Stable fixture key for a prompt: 16 hex chars of its SHA-256. */
+export function promptKey(prompt: string): string {
+  return createHash("sha256").update(prompt).digest("hex").slice(0, 16);
+}
+
+export interface MockProviderOptions {
+  model?: string;
+  fixtures?: Record<string, string>; // promptKey(prompt) -> response text
+  respond?: (req: LlmRequest) => string | null; // consulted when no fixture matches
+}
+
+/**
+ * Deterministic provider for offline runs. Looks up the response by prompt key,
+ * then falls back to `respond`. A miss returns null, exactly like a failed call,
+ * so stage fallbacks behave the same as in production.
+ */
+export function createMockProvider(options: MockProviderOptions = {}): LlmProvider {
+  const model = options.model ?? "mock";
+  return {
+    name: "mock",
+    model,
+    async complete(req) {
+      const text = options.fixtures?.[promptKey(req.prompt)] ?? options.respond?.(req) ?? null;
+      if (text == null) {
+        console.warn(`[llm] mock: no fixture for prompt ${promptKey(req.prompt)}`);
+        return null;
+      }
+      return { text, provider: "mock", model };
+    },
+  };
+}
+
+// -- JSON extraction ----------------------------------------------------------
+
+/**
+ * Extract a JSON array or object from an LLM response string.
+ * Uses bracket-depth tracking to find the correct boundaries, avoiding
+ * the greedy-regex problem where citation footnotes break parsing.
+ */
+export function extractJSON<T>(content: string): T | null {
+  // 1. Try markdown code fences first (most reliable)
+  const fenceMatch = content.match(/```(?:json)?\s*([\s\S]*?)```/);
+  if (fenceMatch) {
+    try { return JSON.parse(fenceMatch[1]) as T; } catch { /* fall through */ }
+  }
+
+  // 2. Find JSON using bracket-depth tracking (handles citations after JSON).
+  //    Whichever bracket opens first wins, so a top-level array of objects is
+  //    returned whole rather than as its first element.
+  const pairs = ([["{", "}"], ["[", "]"]] as const)
+    .map(([open, close]) => ({ open, close, start: content.indexOf(open) }))
+    .filter(p => p.start !== -1)
+    .sort((a, b) => a.start - b.start);
+
+  for (const { open, close, start } of pairs) {
+    let depth = 0;
+    let inString = false;
+    let escape = false;
+    for (let i = start; i < content.length; i++) {
+      const ch = content[i];
+      if (escape) { escape = false; continue; }
+      if (ch === "\\" && inString) { escape = true; continue; }
+      if (ch === '"') { inString = !inString; continue; }
+      if (inString) continue;
+      if (ch === open) depth++;
+      else if (ch === close) {
+        depth--;
+        if (depth === 0) {
+          try { return JSON.parse(content.slice(start, i + 1)) as T; } catch { break; }
+        }
+      }
+    }
+  }
+
+  return null;
+}
+
+/** Strict JSON.parse first (JSON-mode providers), then tolerant extraction. */
+export function parseJSON<T>(text: string): T | null {
+  try {
+    return JSON.parse(text) as T;
+  } catch {
+    return extractJSON<T>(text);
+  }
+}
+
+export interface LlmJSONResult<T> {
+  data: T;
+  provider: string;
+  model: string;
+}
+
+/**
+ * Walk a provider chain until one returns JSON that parses (and passes
+ * `accept`, when given). Returns null when every provider fails -- callers
+ * own their domain-specific fallback (defaults, rule-based selection, etc).
+ */
+export async function completeJSON<T>(
+  chain: LlmProvider[],
+  req: LlmRequest,
+  label: string,
+  accept?: (data: T) => boolean
+): Promise<LlmJSONResult<T> | null> {
+  for (const provider of chain) {
+    const response = await provider.complete(req);
+    if (!response) continue;
+
+    const data = parseJSON<T>(response.text);
+    if (data == null) {
+      console.warn(
+        `[${label}] ${provider.name} returned no parseable JSON ` +
+        `(length ${response.text.length}): ${response.text.slice(0, 200)}`
+      );
+      continue;
+    }
+    if (accept && !accept(data)) {
+      console.warn(`[${label}] ${provider.name} response rejected, trying next provider`);
+      continue;
+    }
+    return { data, provider: provider.name, model: provider.model };
+  }
+  return null;
+}
+
+// -- Per-stage provider chains ------------------------------------------------
+
+export type LlmStage = "clarify" | "discovery" | "extraction" | "enrichment" | "curation";
+
+export interface LlmProviderSpec {
+  provider: LlmProviderKind;
+  model?: string;
+  baseUrl?: string;                      // openai only
+  apiKeyEnv?: string;                    // openai only: env var holding the key
+  fixtures?: Record<string, string>;     // mock only
+}
+
+/** Per-stage overrides; stages not listed keep their default chain. */
+export type LlmStageConfig = Partial<Record<LlmStage, LlmProviderSpec[]>>;
+
+export type StageProviders = Record<LlmStage, LlmProvider[]>;
+
+export interface LlmCredentials {
+  geminiApiKey: string;
+  perplexityApiKey: string;
+}
+
+/**
+ * Default chains -- these reproduce the pre-abstraction behaviour:
+ * Perplexity leads discovery (web-aware), Gemini leads enrichment
+ * (classification, ~10x cheaper), Gemini alone for clarify/curation.
+ */
+const DEFAULT_STAGE_CHAINS: Record<LlmStage, LlmProviderSpec[]> = {
+  clarify:    [{ provider: "gemini" }],
+  discovery:  [{ provider: "perplexity" }, { provider: "gemini" }],
+  extraction: [{ provider: "gemini" }],
+  enrichment: [{ provider: "gemini" }, { provider: "perplexity" }],
+  curation:   [{ provider: "gemini" }],
+};
+
+function createProvider(spec: LlmProviderSpec, credentials: LlmCredentials): LlmProvider {
+  switch (spec.provider) {
+    case "gemini":
+      return createGeminiProvider(credentials.geminiApiKey, spec.model);
+    case "perplexity":
+      return createPerplexityProvider(credentials.perplexityApiKey, spec.model);
+    case "openai":
+      return createOpenAICompatibleProvider(
+        (spec.apiKeyEnv ? process.env[spec.apiKeyEnv] : undefined) ?? "",
+        spec.model,
+        spec.baseUrl
+      );
+    case "mock":
+      return createMockProvider({ model: spec.model, fixtures: spec.fixtures });
+  }
+}
+
+/**
+ * Resolve the provider chain for every stage from defaults + overrides.
+ */
+export function resolveStageProviders(
+  credentials: LlmCredentials,
+  overrides: LlmStageConfig = {}
+): StageProviders {
+  const stages = Object.keys(DEFAULT_STAGE_CHAINS) as LlmStage[];
+  const resolved = {} as StageProviders;
+  for (const stage of stages) {
+    const specs = overrides[stage]?.length ? overrides[stage]! : DEFAULT_STAGE_CHAINS[stage];
+    resolved[stage] = specs.map(spec => createProvider(spec, credentials));
+  }
+  return resolved;
+}
+
+/**
+ * Parse a per-stage override string (JSON) from deployment config.
+ * Invalid config is logged and ignored rather than failing the build.
+ */
+export function parseStageConfig(raw: string | undefined): LlmStageConfig {
+  if (!raw?.trim()) return {};
+  try {
+    return JSON.parse(raw) as LlmStageConfig;
+  } catch (err) {
+    console.warn("[llm] Ignoring invalid LLM stage config:", err);
+    return {};
+  }
+}
@@ -0,0 +1,166 @@
+// src/lib/pipelineJobs.ts
+// Pipeline job lifecycle on the default (nextn) Firestore project.
+//
+// runAtmosify creates pipelineJobs/{jobId} and enqueues it; the processPipelineJob
+// task-queue worker claims the job, runs the orchestrator (which checkpoints
+// progress onto the same doc) and writes the outcome back. The frontend only
+// ever listens to the job doc.
+//
+// Finished jobs are kept until `expiresAt` -- configure a Firestore TTL policy
+// on pipelineJobs.expiresAt to have them swept automatically.
+
+import { getFirestore } from "firebase-admin/firestore";
+import { getFunctions } from "firebase-admin/functions";
+import type {
+  AtmosPlaylist,
+  ClarificationOptions,
+  ClarificationReply,
+  ClarificationSession,
+  PlaylistIntent,
+  PlaylistRefinement,
+} from "./types.js";
+
+export const PIPELINE_JOBS_COLLECTION = "pipelineJobs";
+export const PIPELINE_WORKER_FUNCTION = "processPipelineJob";
+
+/**
+ * Worker attempts per job (first run + retries). The task queue allows one
+ * more delivery, which only finalizes a job whose attempts all timed out.
+ */
+export const MAX_JOB_ATTEMPTS = 3;
+export const JOB_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
+
+export type PipelineJobStatus =
+  | "queued"
+  | "running"
+  | "succeeded"
+  | "needs_clarification"
+  | "failed";
+
+const TERMINAL_STATUSES: PipelineJobStatus[] = ["succeeded", "needs_clarification", "failed"];
+
+export interface PipelineJob {
+  status: PipelineJobStatus;
+  prompt: string;
+  refinement?: PlaylistRefinement; // set for follow-ups to an existing playlist
+  clarification?: ClarificationReply; // set when answering a clarification question
+  confirmedIntent?: PlaylistIntent;   // set by the intent editor -- skips Clarify
+  attempts: number;
+  createdAt: number;
+  updatedAt: number;
+  expiresAt?: number;
+  // Outcome (set once terminal)
+  playlist?: AtmosPlaylist;
+  clarificationQuestion?: string;
+  clarificationOptions?: ClarificationOptions;
+  clarificationSession?: ClarificationSession;
+  error?: string;
+}
+
+export type PipelineJobOutcome =
+  | { status: "succeeded"; playlist: AtmosPlaylist }
+  | {
+      status: "needs_clarification";
+      clarificationQuestion: string;
+      clarificationOptions?: ClarificationOptions;
+      clarificationSession?: ClarificationSession;
+    }
+  | { status: "failed"; error: string };
+
+function jobRef(jobId: string) {
+  return getFirestore().collection(PIPELINE_JOBS_COLLECTION).doc(jobId);
+}
+
+/**
+ * Create the job doc and hand it to the worker queue.
+ * Idempotent per jobId: returns false (and enqueues nothing) if the job already exists.
+ */
+export async function enqueuePipelineJob(
+  jobId: string,
+  prompt: string,
+  input: Pick<PipelineJob, "refinement" | "clarification" | "confirmedIntent"> = {}
+): Promise<boolean> {
+  const now = Date.now();
+  const job: PipelineJob = {
+    status: "queued",
+    prompt,
+    ...input,
+    attempts: 0,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  try {
+    await jobRef(jobId).create({ ...job, stage: "queued", message: "Waiting for a worker..." });
+  } catch (err) {
+    // ALREADY_EXISTS -- a duplicate submit of the same job
+    if ((err as { code?: number }).code === 6) return false;
+    throw err;
+  }
+
+  await getFunctions().taskQueue(PIPELINE_WORKER_FUNCTION).enqueue({ jobId });
+  console.log(`[pipelineJobs] Enqueued job ${jobId}`);
+  return true;
+}
+
+/**
+ * Claim a job for one worker attempt. Returns null if the job is missing or
+ * already finished (duplicate task delivery), otherwise the job with its
+ * attempt counter incremented.
+ */
+export async function claimPipelineJob(jobId: string): Promise<PipelineJob | null> {
+  const db = getFirestore();
+  const ref = jobRef(jobId);
+
+  return db.runTransaction(async (txn) => {
+    const snap = await txn.get(ref);
+    if (!snap.exists) return null;
+    const job = snap.data() as PipelineJob;
+    if (TERMINAL_STATUSES.includes(job.status)) return null;
+    if ((job.attempts ?? 0) >= MAX_JOB_ATTEMPTS) {
+      // Previous attempts all died without reporting (e.g. timeouts) -- give up
+      txn.set(ref, {
+        status: "failed",
+        error: "The playlist build kept timing out. Please try again.",
+        updatedAt: Date.now(),
+        expiresAt: Date.now() + JOB_TTL_MS,
+      }, { merge: true });
+      return null;
+    }
+
+    const attempts = (job.attempts ?? 0) + 1;
+    txn.set(ref, { status: "running", attempts, updatedAt: Date.now() }, { merge: true });
+    return { ...job, status: "running" as const, attempts };
+  });
+}
+
+/** Write the final outcome; the job doc stays readable until it expires. */
+export async function finishPipelineJob(jobId: string, outcome: PipelineJobOutcome): Promise<void> {
+  const now = Date.now();
+  await jobRef(jobId).set(
+    {
+      ...outcome,
+      stage: outcome.status === "succeeded" ? "complete" : outcome.status,
+      message: outcome.status === "failed" ? outcome.error : "Done!",
+      updatedAt: now,
+      expiresAt: now + JOB_TTL_MS,
+    },
+    { merge: true }
+  );
+}
+
+/** Note a crashed attempt on the job doc before the task queue retries it. */
+export async function markPipelineJobRetrying(jobId: string, attempts: number): Promise<void> {
+  try {
+    await jobRef(jobId).set(
+      {
+        status: "queued",
+        message: `Hit a snag -- retrying (attempt ${attempts + 1} of ${MAX_JOB_ATTEMPTS})...`,
+        updatedAt: Date.now(),
+      },
+      { merge: true }
+    );
+  } catch (err) {
+    console.warn(`[pipelineJobs] Failed to mark job ${jobId} for retry:`, err);
+  }
+}
@@ -107,3 +107,19 @@ export const SHARE_RATE_LIMIT: RateLimitConfig = {
   windowMs: 60 * 60 * 1000,
   keyPrefix: "share",
 };
+
+/** parseIntent: 30 requests per hour per IP */
+export const INTENT_RATE_LIMIT: RateLimitConfig = {
+  collection: "rateLimits",
+  maxRequests: 30,
+  windowMs: 60 * 60 * 1000,
+  keyPrefix: "intent",
+};
+
+/** editPlaylist: 60 requests per hour per IP */
+export const EDIT_RATE_LIMIT: RateLimitConfig = {
+  collection: "rateLimits",
+  maxRequests: 60,
+  windowMs: 60 * 60 * 1000,
+  keyPrefix: "edit",
+};
@@ -0,0 +1,104 @@
+// src/lib/releaseEra.ts
+// Release years from Apple Music, and the era windows eraPreference maps to.
+//
+// Apple's releaseDate is the date of the release a track sits on. For an Atmos
+// remix or remaster reissue ("Abbey Road (Super Deluxe Edition)", "2021 Mix")
+// that is the reissue year, not when the song came out. releaseYearsOf()
+// separates the two:
+//   releaseYear  -- Apple's releaseDate year, as-is
+//   remixYear    -- set when the title/album mark a reissue
+//   originalYear -- the release year for ordinary releases; for a reissue, the
+//                   earliest earlier evidence (a release date that predates the
+//                   marked remix year, "50th Anniversary", the ISRC year), or
+//                   unset when there is none
+// Era matching and the yearRange constraint use the original year, so a 1975
+// song remixed in 2021 is a 1970s track, and a reissue of unknown age is
+// treated like a track with no year at all.
+
+import type { AppleTrackAttrs } from "./appleMusic.js";
+
+const MIN_YEAR = 1900;
+const CLASSIC_BEFORE = 1990; // "classic" = released before this year
+const MODERN_YEARS = 10;     // "modern" = the last N years
+
+// "Remastered", "Super Deluxe Edition", "50th Anniversary", "Dolby Atmos Mix", "2019 Mix"
+const REISSUE_MARKER =
+  /\b(?:remaster(?:ed)?|re-?issue|anniversary|deluxe|expanded edition|(?:dolby\s+)?atmos(?:\s+mix)?|(?:19|20)\d{2}\s+(?:stereo\s+)?mix)\b/i;
+// "2011 Remaster", "2019 Mix", "Remastered 2009"
+const MARKED_YEAR = /\b((?:19|20)\d{2})\s+(?:remaster(?:ed)?|(?:stereo\s+|atmos\s+)?mix)\b|\bremaster(?:ed)?\s+((?:19|20)\d{2})\b/i;
+const ANNIVERSARY = /\b(\d{1,3})(?:st|nd|rd|th)\s+anniversary\b/i;
+
+export interface ReleaseYears {
+  releaseYear?: number;  // Apple Music releaseDate
+  originalYear?: number; // first release of the song, when known
+  remixYear?: number;    // the remix/remaster reissue, when the track is one
+}
+
+function yearOf(date: string | undefined): number | undefined {
+  const year = Number(date?.slice(0, 4));
+  return Number.isFinite(year) && year >= MIN_YEAR ? year : undefined;
+}
+
+/** ISRC year of reference ("USCA29800388" -> 1998) -- when the recording was registered. */
+function isrcYear(isrc: string | undefined): number | undefined {
+  const yy = Number(isrc?.slice(5, 7));
+  if (!isrc || isrc.length < 7 || !Number.isInteger(yy)) return undefined;
+  return yy > new Date().getFullYear() % 100 ? 1900 + yy : 2000 + yy;
+}
+
+/** Original, remix and raw release years of an Apple Music track. */
+export function releaseYearsOf(
+  attrs: Pick<AppleTrackAttrs, "releaseDate" | "name" | "albumName" | "isrc">
+): ReleaseYears {
+  const releaseYear = yearOf(attrs.releaseDate);
+  if (releaseYear == null) return {};
+
+  const text = `${attrs.name ?? ""} ${attrs.albumName ?? ""}`;
+  const marked = text.match(MARKED_YEAR);
+  const markedYear = marked ? Number(marked[1] ?? marked[2]) : undefined;
+  if (markedYear == null && !REISSUE_MARKER.test(text)) return { releaseYear, originalYear: releaseYear };
+
+  const remixYear = Math.max(releaseYear, markedYear ?? 0);
+  const anniversary = text.match(ANNIVERSARY);
+  const earlier = [releaseYear, isrcYear(attrs.isrc), anniversary ? remixYear - Number(anniversary[1]) : undefined]
+    .filter((year): year is number => year != null && year >= MIN_YEAR && year < remixYear);
+  return {
+    releaseYear,
+    remixYear,
+    ...(earlier.length > 0 ? { originalYear: Math.min(...earlier) } : {}),
+  };
+}
+
+/**
+ * The year a track counts as for era matching: its original release year, or
+ * undefined for a reissue whose original year is unknown.
+ */
+export function eraYearOf(track: ReleaseYears): number | undefined {
+  if (track.originalYear != null) return track.originalYear;
+  return track.remixYear != null ? undefined : track.releaseYear;
+}
+
+/** Inclusive year window for an eraPreference ("1970s", "classic", "modern"), null if unknown. */
+export function eraYearRange(era: string | null | undefined): [number, number] | null {
+  if (!era) return null;
+  const now = new Date().getFullYear();
+  const decade = era.match(/^((?:19|20)\d0)s$/);
+  if (decade) return [Number(decade[1]), Number(decade[1]) + 9];
+  if (era === "classic") return [MIN_YEAR, CLASSIC_BEFORE - 1];
+  if (era === "modern") return [now - MODERN_YEARS, now];
+  return null;
+}
+
+/** 1 inside the era, -1 outside it, 0 with no era preference or no known year. */
+export function eraFit(track: ReleaseYears, era: string | null | undefined): number {
+  const range = eraYearRange(era);
+  const year = eraYearOf(track);
+  if (!range || year == null) return 0;
+  return year >= range[0] && year <= range[1] ? 1 : -1;
+}
+
+/** Tracks in the era first, then those with no known year, then the rest (stable). */
+export function rankByEraFit<T extends ReleaseYears>(tracks: T[], era: string | null | undefined): T[] {
+  if (!eraYearRange(era)) return tracks;
+  return [1, 0, -1].flatMap(fit => tracks.filter(t => eraFit(t, era) === fit));
+}
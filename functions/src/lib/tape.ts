@@ -0,0 +1,332 @@
+// src/lib/tape.ts
+// Record-and-replay harness for external calls made during a pipeline run.
+//
+// A tape captures every response the pipeline receives from the outside world
+// (LLM providers, Serper, Apple Music catalog lookups, Atmos Master DB reads)
+// keyed by what was asked. Replaying a tape feeds those responses back in the
+// same order, so candidateScorer / sequencer / assembler changes can be
+// regression-tested against real historical prompts with no network access.
+//
+// Replay misses (a call whose key was never recorded -- usually because an
+// upstream change altered a prompt or query) behave like a failed call and are
+// listed in tape.misses so the caller can tell how far the run diverged.
+
+import type { DocumentData } from "firebase-admin/firestore";
+import type {
+  AtmosDocRef,
+  AtmosDocSnapshot,
+  AtmosQuery,
+  AtmosQuerySnapshot,
+  AtmosStore,
+  AtmosWriteBatch,
+} from "./atmosDb.js";
+import { promptKey, type LlmProvider, type LlmResponse, type StageProviders } from "./llm.js";
+
+export type TapeMode = "record" | "replay";
+export type TapeChannel = "llm" | "serper" | "appleMusic" | "firestore";
+
+export interface TapeEntry {
+  channel: TapeChannel;
+  key: string;
+  value: unknown;
+}
+
+/** On-disk fixture format. */
+export interface PipelineTapeFile {
+  version: 1;
+  prompt: string;
+  recordedAt: number;
+  entries: TapeEntry[];
+  /** Final track list of the recorded run, for regression comparison. */
+  expectedTracks?: Array<{ docId: string; Artist: string; track_Title: string }>;
+}
+
+export interface PipelineTape {
+  mode: TapeMode;
+  prompt: string;
+  recordedAt: number;
+  entries: TapeEntry[];
+  misses: string[];
+  expectedTracks?: PipelineTapeFile["expectedTracks"];
+  // replay cursor: channel|key -> values not yet consumed
+  queues: Map<string, unknown[]>;
+  // last value served per key, reused once a queue is drained
+  lastServed: Map<string, unknown>;
+}
+
+const TIMESTAMP_MARKER = "__tapeTimestamp";
+
+function entryId(channel: TapeChannel, key: string): string {
+  return `${channel}|${key}`;
+}
+
+export function createRecordingTape(prompt: string): PipelineTape {
+  return {
+    mode: "record",
+    prompt,
+    recordedAt: Date.now(),
+    entries: [],
+    misses: [],
+    queues: new Map(),
+    lastServed: new Map(),
+  };
+}
+
+export function loadTape(file: PipelineTapeFile): PipelineTape {
+  const queues = new Map<string, unknown[]>();
+  for (const entry of file.entries) {
+    const id = entryId(entry.channel, entry.key);
+    const queue = queues.get(id) ?? [];
+    queue.push(entry.value);
+    queues.set(id, queue);
+  }
+  return {
+    mode: "replay",
+    prompt: file.prompt,
+    recordedAt: file.recordedAt,
+    entries: file.entries,
+    misses: [],
+    expectedTracks: file.expectedTracks,
+    queues,
+    lastServed: new Map(),
+  };
+}
+
+export function serializeTape(tape: PipelineTape): PipelineTapeFile {
+  return {
+    version: 1,
+    prompt: tape.prompt,
+    recordedAt: tape.recordedAt,
+    entries: tape.entries,
+    expectedTracks: tape.expectedTracks,
+  };
+}
+
+/**
+ * Route one external call through the tape.
+ *   record: run `live`, store its result, return it.
+ *   replay: return the next stored result for this key; `onMiss` if none.
+ * Identical keys are served in recorded order; once drained, the last value
+ * repeats (covers retries and cache re-reads).
+ */
+export async function tapeCall<T>(
+  tape: PipelineTape | undefined,
+  channel: TapeChannel,
+  key: string,
+  live: () => Promise<T>,
+  onMiss: T
+): Promise<T> {
+  if (!tape) return live();
+
+  const id = entryId(channel, key);
+  if (tape.mode === "record") {
+    const value = await live();
+    tape.entries.push({ channel, key, value: encodeValue(value) });
+    return value;
+  }
+
+  const queue = tape.queues.get(id);
+  if (queue && queue.length > 0) {
+    const value = queue.shift();
+    tape.lastServed.set(id, value);
+    return decodeValue(value, tape.recordedAt) as T;
+  }
+  if (tape.lastServed.has(id)) {
+    return decodeValue(tape.lastServed.get(id), tape.recordedAt) as T;
+  }
+
+  tape.misses.push(id);
+  return onMiss;
+}
+
+// -- Value encoding -----------------------------------------------------------
+// Firestore Timestamps don't survive JSON. They are stored as epoch ms and
+// rehydrated as { toMillis } shifted by (now - recordedAt), so age-based
+// checks (enrichment TTL, verification cooldown) see the same relative ages
+// as the recorded run no matter when the tape is replayed.
+
+function encodeValue(value: unknown): unknown {
+  if (value == null || typeof value !== "object") return value;
+  if (typeof (value as { toMillis?: unknown }).toMillis === "function") {
+    return { [TIMESTAMP_MARKER]: (value as { toMillis: () => number }).toMillis() };
+  }
+  if (Array.isArray(value)) return value.map(encodeValue);
+  const out: Record<string, unknown> = {};
+  for (const [k, v] of Object.entries(value)) out[k] = encodeValue(v);
+  return out;
+}
+
+function decodeValue(value: unknown, recordedAt: number): unknown {
+  if (value == null || typeof value !== "object") return value;
+  if (Array.isArray(value)) return value.map(v => decodeValue(v, recordedAt));
+  const marker = (value as Record<string, unknown>)[TIMESTAMP_MARKER];
+  if (typeof marker === "number") {
+    const shift = Date.now() - recordedAt;
+    return { toMillis: () => marker + shift };
+  }
+  const out: Record<string, unknown> = {};
+  for (const [k, v] of Object.entries(value)) out[k] = decodeValue(v, recordedAt);
+  return out;
+}
+
+// -- LLM providers ------------------------------------------------------------
+
+function tapeProvider(provider: LlmProvider, tape: PipelineTape): LlmProvider {
+  return {
+    name: provider.name,
+    model: provider.model,
+    complete: req => tapeCall<LlmResponse | null>(
+      tape,
+      "llm",
+      `${provider.name}:${provider.model}:${promptKey(req.prompt)}`,
+      () => provider.complete(req),
+      null
+    ),
+  };
+}
+
+/** Wrap every stage's provider chain so completions are recorded/replayed. */
+export function tapeStageProviders(providers: StageProviders, tape: PipelineTape | undefined): StageProviders {
+  if (!tape) return providers;
+  const wrapped = {} as StageProviders;
+  for (const [stage, chain] of Object.entries(providers) as Array<[keyof StageProviders, LlmProvider[]]>) {
+    wrapped[stage] = chain.map(p => tapeProvider(p, tape));
+  }
+  return wrapped;
+}
+
+// -- Atmos Master DB ----------------------------------------------------------
+// Taped AtmosStore: collection().where().limit().get(), findNearest(),
+// doc().get()/set(), getAll(), batch(). Reads are taped; writes pass through
+// when recording and are dropped on replay.
+
+interface TapedDoc {
+  id: string;
+  data: DocumentData | undefined;
+}
+
+interface TapedDocRef extends AtmosDocRef {
+  real: AtmosDocRef | undefined;
+}
+
+function toSnapshot(doc: TapedDoc): AtmosDocSnapshot {
+  return { id: doc.id, exists: doc.data !== undefined, data: () => doc.data };
+}
+
+async function tapedGet(
+  tape: PipelineTape,
+  key: string,
+  real: { get(): Promise<AtmosQuerySnapshot> } | undefined
+): Promise<AtmosQuerySnapshot> {
+  const docs = await tapeCall<TapedDoc[]>(
+    tape,
+    "firestore",
+    key,
+    async () => {
+      if (!real) throw new Error(`[tape] No Atmos DB to record ${key} from`);
+      const snap = await real.get();
+      return snap.docs.map(d => ({ id: d.id, data: d.data() }));
+    },
+    []
+  );
+  const snapshots = docs.map(d => ({ id: d.id, data: () => d.data ?? {} }));
+  return { empty: snapshots.length === 0, size: snapshots.length, docs: snapshots };
+}
+
+function tapedQuery(real: AtmosQuery | undefined, tape: PipelineTape, path: string, clauses: string[]): AtmosQuery {
+  return {
+    where: (field, op, value) =>
+      tapedQuery(real?.where(field, op, value), tape, path, [...clauses, `${String(field)} ${op} ${JSON.stringify(value)}`]),
+    limit: limit =>
+      tapedQuery(real?.limit(limit), tape, path, [...clauses, `limit ${limit}`]),
+    // Query vectors are long -- the key carries a hash of one
+    findNearest: options => {
+      const key = [
+        path,
+        ...clauses,
+        `nearest ${options.vectorField} ${options.distanceMeasure} ` +
+          `${promptKey(JSON.stringify(options.queryVector))} limit ${options.limit}`,
+      ].join("|");
+      const realNearest = real?.findNearest(options);
+      return { get: () => tapedGet(tape, key, realNearest) };
+    },
+    get: () => tapedGet(tape, [path, ...clauses].join("|"), real),
+  };
+}
+
+function tapedDocRef(real: AtmosDocRef | undefined, tape: PipelineTape, path: string): TapedDocRef {
+  return {
+    id: path.split("/").pop() ?? path,
+    path,
+    real,
+    async get() {
+      const doc = await tapeCall<TapedDoc>(
+        tape,
+        "firestore",
+        path,
+        async () => {
+          if (!real) throw new Error(`[tape] No Atmos DB to record ${path} from`);
+          const snap = await real.get();
+          return { id: snap.id, data: snap.exists ? snap.data() : undefined };
+        },
+        { id: path, data: undefined }
+      );
+      return toSnapshot(doc);
+    },
+    set: async (data, options) => (tape.mode === "record" ? real?.set(data, options) : undefined),
+  };
+}
+
+function isTapedDocRef(ref: AtmosDocRef): ref is TapedDocRef {
+  return "real" in ref;
+}
+
+/** The real ref behind a ref from the taped store (refs from elsewhere pass through). */
+function realRef(ref: AtmosDocRef): AtmosDocRef | undefined {
+  return isTapedDocRef(ref) ? ref.real : ref;
+}
+
+/**
+ * Wrap the Atmos Master DB so every read is recorded (record mode) or served
+ * from the tape (replay mode, `real` may be null -- no credentials needed).
+ */
+export function createTapedFirestore(real: AtmosStore | null, tape: PipelineTape): AtmosStore {
+  const db = tape.mode === "record" ? real : null;
+  return {
+    collection: name => ({
+      ...tapedQuery(db?.collection(name), tape, name, []),
+      doc: id => tapedDocRef(db?.collection(name).doc(id), tape, `${name}/${id}`),
+    }),
+    async getAll(...refsOrOptions) {
+      // One real getAll when recording; each doc is taped individually so a
+      // replay with a different ref set still resolves per document. Taped
+      // docs are whole, so read options (field masks) are dropped.
+      const refs = refsOrOptions.filter((r): r is AtmosDocRef => "path" in r);
+      const realRefs = refs.map(realRef).filter((ref): ref is AtmosDocRef => ref !== undefined);
+      const realSnaps = db && realRefs.length === refs.length ? await db.getAll(...realRefs) : [];
+      return Promise.all(refs.map(async (ref, i) => toSnapshot(await tapeCall<TapedDoc>(
+        tape,
+        "firestore",
+        ref.path,
+        async () => {
+          const snap = realSnaps[i];
+          if (!snap) throw new Error(`[tape] No Atmos DB to record ${ref.path} from`);
+          return { id: snap.id, data: snap.exists ? snap.data() : undefined };
+        },
+        { id: ref.id, data: undefined }
+      ))));
+    },
+    batch: () => {
+      const realBatch = db?.batch() ?? null;
+      const batch: AtmosWriteBatch = {
+        set(ref, data, options) {
+          const target = realRef(ref);
+          if (target) realBatch?.set(target, data, options);
+          return batch;
+        },
+        commit: async () => realBatch?.commit(),
+      };
+      return batch;
+    },
+  };
+}
@@ -0,0 +1,54 @@
+// src/lib/textMatch.ts
+// Small string-matching helpers for resolving free-form names (genres from the
+// LLM, user-typed values) against a known vocabulary.
+
+/** Lowercase, "&" -> "and", strip everything but letters and digits. */
+export function matchKey(value: string): string {
+  return value
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/&/g, "and")
+    .replace(/[^a-z0-9]/g, "");
+}
+
+/** Levenshtein distance, abandoned early once it exceeds `max`. */
+export function editDistance(a: string, b: string, max = Infinity): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const curr = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      curr[j] = Math.min(prev[j] + 1, curr[j - 1] + 1, prev[j - 1] + cost);
+      rowMin = Math.min(rowMin, curr[j]);
+    }
+    if (rowMin > max) return max + 1;
+    prev = curr;
+  }
+  return prev[b.length];
+}
+
+/**
+ * Closest vocabulary entry to `value` by edit distance on match keys, or null
+ * if nothing is within `maxRatio` of the value's length (at least 1 edit).
+ */
+export function closestMatch(
+  value: string,
+  vocabulary: Map<string, string>, // matchKey -> canonical
+  maxRatio = 0.2
+): { canonical: string; distance: number } | null {
+  const key = matchKey(value);
+  if (!key) return null;
+  const maxDistance = Math.max(1, Math.floor(key.length * maxRatio));
+
+  let best: { canonical: string; distance: number } | null = null;
+  for (const [candidateKey, canonical] of vocabulary) {
+    const distance = editDistance(key, candidateKey, best?.distance ?? maxDistance);
+    if (distance <= maxDistance && (!best || distance < best.distance)) {
+      best = { canonical, distance };
+    }
+  }
+  return best;
+}
@@ -0,0 +1,165 @@
+// src/lib/trackEmbedding.ts
+// Deterministic hashed embeddings for tracks and playlist intents.
+//
+// No model call: each track or intent becomes a weighted bag of features --
+// words from mood, vibe tags, genre and title/album, taxonomy genre tags, and
+// energy / tempo buckets -- hashed into EMBEDDING_DIM signed buckets (the
+// "hashing trick") and L2-normalized. Words share one namespace, so "late
+// night" in an intent description lands on the same buckets as a "late-night"
+// vibe tag; energy and tempo also light up neighbouring buckets so 6 is close
+// to 7. The same input always gives the same vector, offline.
+//
+// Track vectors are stored on `tracks` docs as `embedding` by the scheduled
+// refreshTrackEmbeddings function (lib/embeddingIndex.ts); the catalog
+// snapshot computes them locally instead. Changing features or weights means
+// bumping EMBEDDING_MODEL so every stored vector is rewritten.
+
+import { genreTagsFor, resolveGenre } from "./genreTaxonomy.js";
+import type { PlaylistIntent } from "./types.js";
+
+export const EMBEDDING_MODEL = "hashed-v1";
+export const EMBEDDING_DIM = 256;
+
+// Feature weights -- mood and vibe carry the most meaning, titles the least
+const MOOD_WEIGHT = 3;
+const VIBE_WEIGHT = 2;
+const GENRE_TAG_WEIGHT = 2;
+const GENRE_WORD_WEIGHT = 1;
+const ENERGY_WEIGHT = 1.5;
+const TEMPO_WEIGHT = 1;
+const NEIGHBOUR_SHARE = 0.5;  // weight of the adjacent energy/tempo bucket
+const TITLE_WEIGHT = 0.5;
+const DESCRIPTION_WEIGHT = 1;
+const TEMPO_BUCKET_BPM = 10;
+
+const STOP_WORDS = new Set([
+  "a", "an", "and", "the", "of", "for", "to", "in", "on", "with", "by", "at", "from", "or",
+  "my", "me", "i", "some", "that", "this", "is", "it", "like", "songs", "song", "tracks",
+  "track", "music", "playlist", "feat", "ft", "remastered", "remaster", "version", "mix",
+  "edition", "deluxe", "dolby", "atmos",
+]);
+
+/** The `tracks` doc fields a track embedding is built from. */
+export interface EmbeddableTrack {
+  track_Title?: string;
+  album?: string;
+  genre?: string;
+  genre_tags?: string[];
+  atmos_mood?: string;
+  atmos_vibe?: string[];
+  atmos_energy?: number;
+  atmos_tempo_estimate?: number;
+}
+
+type Feature = [token: string, weight: number];
+
+/** 32-bit FNV-1a. */
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function words(text: string | undefined, weight: number): Feature[] {
+  if (!text) return [];
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(word => word.length > 1 && !STOP_WORDS.has(word))
+    .map(word => [`w:${word}`, weight]);
+}
+
+/** A bucket plus its neighbours at NEIGHBOUR_SHARE of the weight. */
+function bucket(prefix: string, value: number, weight: number): Feature[] {
+  return [
+    [`${prefix}:${value}`, weight],
+    [`${prefix}:${value - 1}`, weight * NEIGHBOUR_SHARE],
+    [`${prefix}:${value + 1}`, weight * NEIGHBOUR_SHARE],
+  ];
+}
+
+function genreFeatures(tags: string[], text: string | undefined): Feature[] {
+  return [
+    ...tags.map((tag): Feature => [`g:${tag}`, GENRE_TAG_WEIGHT]),
+    ...words(text ?? tags.join(" "), GENRE_WORD_WEIGHT),
+  ];
+}
+
+function trackFeatures(track: EmbeddableTrack): Feature[] {
+  const features: Feature[] = [
+    ...words(track.atmos_mood, MOOD_WEIGHT),
+    ...(track.atmos_vibe ?? []).flatMap(tag => words(tag, VIBE_WEIGHT)),
+    ...genreFeatures(track.genre_tags ?? genreTagsFor(track.genre), track.genre),
+    ...words(track.track_Title, TITLE_WEIGHT),
+    ...words(track.album, TITLE_WEIGHT),
+  ];
+  if (track.atmos_energy != null) features.push(...bucket("e", Math.round(track.atmos_energy), ENERGY_WEIGHT));
+  if (track.atmos_tempo_estimate != null) {
+    features.push(...bucket("t", Math.round(track.atmos_tempo_estimate / TEMPO_BUCKET_BPM), TEMPO_WEIGHT));
+  }
+  return features;
+}
+
+function intentFeatures(intent: PlaylistIntent): Feature[] {
+  const tags = [...intent.genres, ...intent.subGenres].flatMap(g => {
+    const resolved = resolveGenre(g);
+    return resolved ? [resolved.canonical] : [];
+  });
+  const features: Feature[] = [
+    ...words(intent.description, DESCRIPTION_WEIGHT),
+    ...intent.moods.flatMap(mood => words(mood, MOOD_WEIGHT)),
+    ...intent.vibeKeywords.flatMap(vibe => words(vibe, VIBE_WEIGHT)),
+    ...genreFeatures(tags, [...intent.genres, ...intent.subGenres].join(" ")),
+  ];
+
+  // A range spreads its weight over every bucket in it
+  const [minEnergy, maxEnergy] = intent.energyRange;
+  for (let e = minEnergy; e <= maxEnergy; e++) {
+    features.push([`e:${e}`, ENERGY_WEIGHT / (maxEnergy - minEnergy + 1)]);
+  }
+  if (intent.bpmRange) {
+    const low = Math.round(intent.bpmRange[0] / TEMPO_BUCKET_BPM);
+    const high = Math.round(intent.bpmRange[1] / TEMPO_BUCKET_BPM);
+    for (let t = low; t <= high; t++) features.push([`t:${t}`, TEMPO_WEIGHT / (high - low + 1)]);
+  }
+  return features;
+}
+
+function embed(features: Feature[]): number[] {
+  const vector = new Array<number>(EMBEDDING_DIM).fill(0);
+  for (const [token, weight] of features) {
+    const hash = fnv1a(token);
+    vector[hash % EMBEDDING_DIM] += hash & 0x10000 ? -weight : weight;
+  }
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return norm > 0 ? vector.map(v => v / norm) : vector;
+}
+
+/** Unit-length embedding of a track (all zeros if it has no usable fields). */
+export function embedTrack(track: EmbeddableTrack): number[] {
+  return embed(trackFeatures(track));
+}
+
+/** Unit-length embedding of what a playlist intent asks for. */
+export function embedIntent(intent: PlaylistIntent): number[] {
+  return embed(intentFeatures(intent));
+}
+
+/**
+ * Identifies a track's embedding inputs under the current model -- unchanged
+ * key, unchanged vector, so the nightly refresh skips the write.
+ */
+export function embeddingKey(track: EmbeddableTrack): string {
+  const features = trackFeatures(track).map(([token, weight]) => `${token}=${weight}`).join("|");
+  return `${EMBEDDING_MODEL}:${fnv1a(features).toString(36)}`;
+}
+
+/** Cosine similarity of two unit vectors (their dot product). */
+export function cosineSimilarity(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  let dot = 0;
+  for (let i = 0; i < a.length; i++) dot += a[i] * b[i];
+  return dot;
+}
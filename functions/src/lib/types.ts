@@ -14,6 +14,42 @@ export interface PlaylistIntent {
   excludeArtists: string[];
   eraPreference: string | null;
   referenceQuality: boolean;
+  normalization?: IntentNormalizationReport; // what Clarify's taxonomy pass corrected
+  // Hard constraints (see pipeline/constraints.ts) -- enforced as filters, not prompt hints
+  bpmRange?: [number, number] | null;  // tempo window; tracks with a known BPM outside it are dropped
+  allowedKeys?: string[] | null;       // Camelot keys ("8A", "9A", ...); tracks with a known key outside the set are dropped
+  unknownTempoPolicy?: UnknownTempoPolicy; // tracks with no BPM/key estimate under bpmRange/allowedKeys (default "keep")
+  yearRange?: [number, number] | null; // release years, inclusive (checked against Apple Music)
+  maxTracksPerArtist?: number | null;  // overrides the default artist cap
+  requiredArtists?: string[];          // at least one track from each
+  requiredTracks?: RequiredTrack[];
+  radioArtist?: string | null;         // artist radio: the seed artist gets a quota and is spread through the playlist
+  albumMode?: boolean;                 // whole Atmos albums in track order instead of a mixed playlist (see pipeline/albumMode.ts)
+}
+
+/**
+ * What the hard tempo/key filters do with a track that has no estimate:
+ * keep it, keep it but rank it after every track known to fit, or drop it.
+ */
+export type UnknownTempoPolicy = "keep" | "deprioritize" | "drop";
+
+/** A specific song the user asked for ("must include 'Teardrop' by Massive Attack"). */
+export interface RequiredTrack {
+  title: string;
+  artist: string | null;
+}
+
+/** One value the intent normalizer changed (or removed, when `to` is null). */
+export interface IntentCorrection {
+  field: "genres" | "subGenres" | "energyRange" | "eraPreference";
+  from: string;
+  to: string | null;
+  reason: string;
+}
+
+export interface IntentNormalizationReport {
+  corrections: IntentCorrection[];
+  unknownGenres: string[]; // kept as-is, but not in the taxonomy
 }
 
 export interface DiscoveredArtist {
@@ -48,6 +84,32 @@ export interface TrackCandidate {
   atmos_vibe?: string[];
   atmos_tempo_estimate?: number; // BPM estimate
   atmos_key_estimate?: string;   // Camelot notation e.g. "8B", "3A"
+  // Release years written back by the Verifier (see lib/releaseEra.ts); absent until first verified
+  releaseYear?: number;
+  originalYear?: number;
+  remixYear?: number;
+  provenance?: TrackProvenance;
+}
+
+/** How a candidate entered the pool (DBMatcher query that produced it). */
+export type MatchSource = "artist" | "genre" | "mood" | "similar";
+
+/**
+ * Why a track is in the playlist, carried from DBMatcher through to the final
+ * VerifiedTrack. Each stage fills in its part.
+ */
+export interface TrackProvenance {
+  source?: MatchSource;
+  discoveredArtist?: string;   // artist query that matched (source "artist")
+  genreContext?: string;       // DiscoveredArtist.genreContext
+  knownFor?: string;           // DiscoveredArtist.knownFor
+  matchedAttribute?: string;   // genre or mood value (source "genre" / "mood")
+  similarity?: number;         // cosine similarity to the intent embedding (source "similar")
+  preScore?: number;           // scoreAndRank pre-enrichment score
+  selectionRationale?: string; // Curator
+  gapFill?: boolean;           // added by the Assembler's gap-fill
+  replacedDocId?: string;      // swapped in by a "replace with something similar" edit
+  transitionScore?: number;    // Sequencer score from the previous track (0-1)
 }
 
 export interface PlaylistDraftTrack {
@@ -66,6 +128,7 @@ export interface PlaylistDraftTrack {
   atmos_key_estimate?: string;
   selectionRationale: string;
   position: number;
+  provenance?: TrackProvenance;
 }
 
 export interface PlaylistDraft {
@@ -90,6 +153,23 @@ export interface VerifiedTrack {
   atmos_vibe?: string[];
   atmos_key_estimate?: string;
   FINAL_SCORE: number | null;
+  provenance?: TrackProvenance;
+  pinned?: boolean;           // kept at its position when the playlist is edited
+  releaseYear?: number;       // from Apple Music's releaseDate at verification
+  originalYear?: number;      // first release of the song, when known (lib/releaseEra.ts)
+  remixYear?: number;         // set when the Atmos version is a remix/remaster reissue
+  discNumber?: number;        // album position from Apple Music (album mode keeps this order)
+  trackNumber?: number;
+}
+
+/** One album in an album-mode build; its tracks sit at startIndex.. in AtmosPlaylist.tracks. */
+export interface AlbumSummary {
+  album: string;
+  artist: string;
+  startIndex: number;
+  trackCount: number;    // verified Atmos tracks kept
+  atmosCoverage: number; // 0-1: verified Atmos tracks / album tracks in the Atmos DB
+  averageScore: number | null; // mean FINAL_SCORE of the kept tracks
 }
 
 export interface AtmosPlaylist {
@@ -100,6 +180,7 @@ export interface AtmosPlaylist {
   atmosVerifiedCount: number;
   atmosWarningCount: number;
   intent: PlaylistIntent;
+  albums?: AlbumSummary[]; // album mode only, in playlist order
   buildMetadata: {
     artistsDiscovered: number;
     candidatesFound: number;
@@ -107,11 +188,111 @@ export interface AtmosPlaylist {
     verificationDropped: number;
     expansionLoops: number;
     buildDurationMs: number;
+    cost?: BuildCost;   // estimated external-call spend (see lib/buildLedger.ts)
+    trace?: BuildTrace; // per-stage counts, notes and drops (see lib/buildTrace.ts)
+    buildId?: string;   // pipeline job ID -- keys the saved candidate pool for edits
+    refinementSummary?: string; // what the last refinement changed (IntentDelta.summary)
   };
 }
 
+/** One edit to a built playlist (see pipeline/playlistEditor.ts). */
+export type PlaylistEditOp =
+  | { type: "remove"; docId: string }
+  | { type: "pin"; docId: string; pinned?: boolean }
+  | { type: "replace"; docId: string };
+
+export interface PlaylistEditResponse {
+  playlist: AtmosPlaylist;
+  /** Ops that couldn't be applied (unknown track, no verified replacement). */
+  unresolved: Array<{ op: PlaylistEditOp; reason: string }>;
+}
+
+/** Something a stage discarded, and why (an artist, candidate or track). */
+export interface DroppedItem {
+  label: string;   // "Artist - Title", or an artist name
+  reason: string;
+  docId?: string;
+}
+
+export interface StageTrace {
+  stage: string;
+  startedAt: number;
+  durationMs?: number;
+  inputCount?: number;
+  outputCount?: number;
+  cacheHits?: number;
+  notes: string[];
+  dropped: DroppedItem[]; // capped sample -- droppedCount has the full total
+  droppedCount: number;
+}
+
+export interface BuildTrace {
+  stages: StageTrace[];
+}
+
+export interface StageCost {
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  latencyMs: number;         // summed call latency (calls may overlap)
+  estimatedCostUsd: number;
+}
+
+export interface BuildCost extends StageCost {
+  byStage: Record<string, StageCost>;
+}
+
+/** A follow-up request against a built playlist ("more energy", "no vocals"). */
+export interface PlaylistRefinement {
+  request: string;
+  previousIntent: PlaylistIntent;
+  previousTracks: VerifiedTrack[];
+  previousBuildId?: string; // reuse that build's candidate pool when the delta allows
+}
+
+/** What a refinement changes, as parsed by Clarify (see refineIntent). */
+export interface IntentDelta {
+  summary: string;                  // one line, e.g. "Raised energy, dropped vocal tracks"
+  changes: Partial<Omit<PlaylistIntent, "referenceQuality">>;
+  dropTrackIds: string[];           // previous tracks that no longer fit
+  rediscover: boolean;              // genres/artists/era moved -- the old pool won't do
+}
+
+/** Structured choices shown alongside a clarification question. */
+export interface ClarificationOptions {
+  genres: string[];              // chips -- pick any
+  energyRange: [number, number]; // slider default on the 1-10 scale
+  durationMinutes: number[];     // pick one
+}
+
+/** The user's reply to a clarification turn. Structured picks win over the free text. */
+export interface ClarificationAnswer {
+  text?: string;
+  genres?: string[];
+  energyRange?: [number, number];
+  targetDurationMinutes?: number;
+}
+
+/**
+ * Multi-turn clarification state. Held by the client between turns and sent
+ * back with each answer, so the original prompt and partial intent survive.
+ */
+export interface ClarificationSession {
+  originalPrompt: string;
+  partialIntent: Partial<PlaylistIntent>;
+  turns: Array<{ question: string; answer?: ClarificationAnswer }>;
+}
+
+/** A clarification answer plus the session it answers (sent back by the client). */
+export interface ClarificationReply {
+  session: ClarificationSession;
+  answer: ClarificationAnswer;
+}
+
 export interface ClarifyResult {
   needsClarification: boolean;
   clarificationQuestion?: string;
+  clarificationOptions?: ClarificationOptions;
+  partialIntent?: Partial<PlaylistIntent>; // whatever the LLM could extract before asking
   intent?: PlaylistIntent;
 }
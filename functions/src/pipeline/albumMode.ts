@@ -0,0 +1,280 @@
+// src/pipeline/albumMode.ts
+// Album mode: whole Dolby Atmos albums instead of a mixed playlist.
+//
+// Stands in for Curator and Assembler when PlaylistIntent.albumMode is set:
+//   - groups matched tracks docs by album, scored by mean FINAL_SCORE, Atmos
+//     coverage and artist relevance
+//   - drafts every DB track of the top albums, so the Verifier checks them all
+//   - keeps each album in Apple Music disc/track order -- the Sequencer never
+//     reorders an album
+
+import { matchKey } from "../lib/textMatch.js";
+import type {
+  AlbumSummary,
+  AtmosPlaylist,
+  DroppedItem,
+  PlaylistDraft,
+  PlaylistDraftTrack,
+  PlaylistIntent,
+  TrackCandidate,
+  VerifiedTrack,
+} from "../lib/types.js";
+import type { AssemblerResult } from "./assembler.js";
+import { violatedConstraint } from "./constraints.js";
+
+const MIN_ALBUM_TRACKS = 4;            // fewer Atmos DB tracks = a single or a stray, not an album
+const MAX_ALBUMS_PER_ARTIST = 1;
+const ALBUM_DURATION_OVERSHOOT = 1.3;  // draft extra albums to absorb verification drops
+const MIN_VERIFIED_COVERAGE = 0.5;     // an album that loses more than half its tracks is dropped
+const DEFAULT_DURATION_MS = 240_000;
+
+// Album ranking weights
+const W_SCORE = 0.60;
+const W_COVERAGE = 0.25;
+const W_RELEVANCE = 0.15;
+
+interface AlbumCandidate {
+  key: string;
+  album: string;
+  artist: string;
+  tracks: TrackCandidate[];
+  averageScore: number | null;
+  atmosCoverage: number; // share of the album's DB tracks not flagged as missing Atmos
+  score: number;
+}
+
+function albumKey(track: { Artist: string; album: string }): string {
+  return `${matchKey(track.Artist)}|${matchKey(track.album)}`;
+}
+
+function mean(values: number[]): number | null {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : null;
+}
+
+function trackLabel(track: { Artist: string; track_Title: string }): string {
+  return `${track.Artist} - ${track.track_Title}`;
+}
+
+function albumDescription(albumCount: number, tracks: VerifiedTrack[], totalDurationMs: number): string {
+  return `${albumCount} Dolby Atmos albums \u00B7 ${tracks.length} tracks \u00B7 ` +
+    `~${Math.round(totalDurationMs / 60_000)} min \u00B7 album order kept`;
+}
+
+// -- Album selection (replaces Curator) ------------------------------------------
+
+/** Group candidates into albums and rank them, best first. */
+function rankAlbums(candidates: TrackCandidate[], intent: PlaylistIntent): AlbumCandidate[] {
+  const groups = new Map<string, TrackCandidate[]>();
+  for (const c of candidates) {
+    if (!c.album.trim() || violatedConstraint(c, intent) !== null) continue;
+    const key = albumKey(c);
+    groups.set(key, [...(groups.get(key) ?? []), c]);
+  }
+
+  const albums: AlbumCandidate[] = [];
+  for (const [key, tracks] of groups) {
+    if (tracks.length < MIN_ALBUM_TRACKS) continue;
+    const averageScore = mean(tracks.flatMap(t => (t.FINAL_SCORE != null ? [t.FINAL_SCORE] : [])));
+    const atmosCoverage = tracks.filter(t => t.am_has_atmos !== false).length / tracks.length;
+    const relevance = Math.max(...tracks.map(t => t.artistRelevance));
+    albums.push({
+      key,
+      album: tracks[0].album,
+      artist: tracks[0].Artist,
+      tracks,
+      averageScore,
+      atmosCoverage,
+      score: W_SCORE * (averageScore ?? 5) / 10 + W_COVERAGE * atmosCoverage + W_RELEVANCE * relevance,
+    });
+  }
+  return albums.sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Draft every track of the best albums, enough to cover the target duration
+ * with room for verification drops. Leftover candidates stay in the pool.
+ */
+export function selectAlbumDraft(candidates: TrackCandidate[], intent: PlaylistIntent): PlaylistDraft {
+  const targetMs = intent.targetDurationMinutes * 60_000 * ALBUM_DURATION_OVERSHOOT;
+  const perArtist = new Map<string, number>();
+  const selected: AlbumCandidate[] = [];
+  let draftedMs = 0;
+
+  for (const album of rankAlbums(candidates, intent)) {
+    if (draftedMs >= targetMs) break;
+    const artistKey = matchKey(album.artist);
+    if ((perArtist.get(artistKey) ?? 0) >= MAX_ALBUMS_PER_ARTIST) continue;
+    perArtist.set(artistKey, (perArtist.get(artistKey) ?? 0) + 1);
+    selected.push(album);
+    draftedMs += album.tracks.reduce((sum, t) => sum + (t.am_duration_ms ?? DEFAULT_DURATION_MS), 0);
+  }
+
+  const tracks: PlaylistDraftTrack[] = [];
+  selected.forEach((album, rank) => {
+    const rationale =
+      `Album #${rank + 1}: "${album.album}" by ${album.artist} ` +
+      `(score ${album.score.toFixed(2)}, ${album.tracks.length} Atmos DB tracks)`;
+    for (const c of album.tracks) {
+      tracks.push({
+        docId: c.docId,
+        Artist: c.Artist,
+        track_Title: c.track_Title,
+        album: c.album,
+        Apple_Music_ID: c.Apple_Music_ID,
+        Apple_Music_URL: c.Apple_Music_URL,
+        am_duration_ms: c.am_duration_ms,
+        FINAL_SCORE: c.FINAL_SCORE,
+        atmos_mood: c.atmos_mood,
+        atmos_energy: c.atmos_energy,
+        atmos_tempo_estimate: c.atmos_tempo_estimate,
+        atmos_vibe: c.atmos_vibe,
+        atmos_key_estimate: c.atmos_key_estimate,
+        selectionRationale: rationale,
+        position: tracks.length + 1,
+        provenance: c.provenance,
+      });
+    }
+  });
+
+  const draftedIds = new Set(tracks.map(t => t.docId));
+  console.log(
+    `[albumMode] Drafted ${selected.length} albums (${tracks.length} tracks, ` +
+    `~${Math.round(draftedMs / 60_000)} min) for verification`
+  );
+  return { tracks, unusedCandidates: candidates.filter(c => !draftedIds.has(c.docId)) };
+}
+
+// -- Album assembly (replaces Assembler + Sequencer) ----------------------------
+
+/** Album track order: disc, then track number; unknown positions keep draft order at the end. */
+function inAlbumOrder(tracks: VerifiedTrack[]): VerifiedTrack[] {
+  return tracks
+    .map((t, index) => ({ t, index }))
+    .sort((a, b) =>
+      (a.t.discNumber ?? 1) - (b.t.discNumber ?? 1) ||
+      (a.t.trackNumber ?? Number.MAX_SAFE_INTEGER) - (b.t.trackNumber ?? Number.MAX_SAFE_INTEGER) ||
+      a.index - b.index
+    )
+    .map(({ t }) => t);
+}
+
+/**
+ * Build the album-mode playlist from verified tracks: whole albums in ranked
+ * order, each in album track order, until the target duration is covered.
+ * Albums that verification gutted are dropped rather than shown half-empty.
+ */
+export function assembleAlbumPlaylist(
+  intent: PlaylistIntent,
+  draft: PlaylistDraft,
+  verified: VerifiedTrack[],
+  buildMetadata: {
+    artistsDiscovered: number;
+    candidatesFound: number;
+    enrichedTracks: number;
+    verificationDropped: number;
+    buildStartMs: number;
+  }
+): AssemblerResult {
+  const draftedPerAlbum = new Map<string, number>();
+  for (const t of draft.tracks) draftedPerAlbum.set(albumKey(t), (draftedPerAlbum.get(albumKey(t)) ?? 0) + 1);
+  const verifiedPerAlbum = new Map<string, VerifiedTrack[]>();
+  for (const t of verified) verifiedPerAlbum.set(albumKey(t), [...(verifiedPerAlbum.get(albumKey(t)) ?? []), t]);
+
+  const targetMs = intent.targetDurationMinutes * 60_000;
+  const tracks: VerifiedTrack[] = [];
+  const albums: AlbumSummary[] = [];
+  const dropped: DroppedItem[] = [];
+
+  // Draft order is album rank order
+  for (const [key, drafted] of draftedPerAlbum) {
+    const kept = inAlbumOrder(verifiedPerAlbum.get(key) ?? []);
+    if (kept.length === 0) continue;
+    const coverage = kept.length / drafted;
+    const albumDurationMs = kept.reduce((sum, t) => sum + t.durationMs, 0);
+    const totalMs = tracks.reduce((sum, t) => sum + t.durationMs, 0);
+
+    const reason = coverage < MIN_VERIFIED_COVERAGE
+      ? `Album kept only ${kept.length} of ${drafted} tracks after verification`
+      : albums.length > 0 && totalMs >= targetMs ? "Album beyond the target length" : null;
+    if (reason) {
+      dropped.push(...kept.map(t => ({ label: trackLabel(t), reason, docId: t.docId })));
+      continue;
+    }
+
+    albums.push({
+      album: kept[0].album,
+      artist: kept[0].Artist,
+      startIndex: tracks.length,
+      trackCount: kept.length,
+      atmosCoverage: Math.round(coverage * 100) / 100,
+      averageScore: mean(kept.flatMap(t => (t.FINAL_SCORE != null ? [t.FINAL_SCORE] : []))),
+    });
+    tracks.push(...kept);
+    console.log(
+      `[albumMode] "${kept[0].album}" by ${kept[0].Artist}: ${kept.length}/${drafted} tracks, ` +
+      `${Math.round(albumDurationMs / 60_000)} min`
+    );
+  }
+
+  const totalDurationMs = tracks.reduce((sum, t) => sum + t.durationMs, 0);
+  const genreStr = intent.subGenres[0] ?? intent.genres[0] ?? "Atmos";
+  const playlist: AtmosPlaylist = {
+    title: `Essential ${genreStr} Albums \u2014 Dolby Atmos`,
+    description: albumDescription(albums.length, tracks, totalDurationMs),
+    tracks,
+    totalDurationMs,
+    atmosVerifiedCount: tracks.filter(t => t.atmosVerified).length,
+    atmosWarningCount: tracks.filter(t => t.atmosWarning).length,
+    intent,
+    albums,
+    buildMetadata: {
+      artistsDiscovered: buildMetadata.artistsDiscovered,
+      candidatesFound: buildMetadata.candidatesFound,
+      enrichedTracks: buildMetadata.enrichedTracks,
+      verificationDropped: buildMetadata.verificationDropped,
+      expansionLoops: 0,
+      buildDurationMs: Date.now() - buildMetadata.buildStartMs,
+    },
+  };
+
+  console.log(`[albumMode] Final: ${albums.length} albums, ${tracks.length} tracks, ${Math.round(totalDurationMs / 60_000)} min`);
+  return { playlist, expansionLoopsUsed: 0, gapFilled: 0, dropped };
+}
+
+// -- Post-build edits ----------------------------------------------------------
+
+/** For each playlist position, the index in `albums` of the album it belongs to (-1 if none). */
+export function albumIndexByPosition(albums: AlbumSummary[], trackCount: number): number[] {
+  const index = new Array<number>(trackCount).fill(-1);
+  albums.forEach((album, i) => {
+    for (let pos = album.startIndex; pos < album.startIndex + album.trackCount && pos < trackCount; pos++) index[pos] = i;
+  });
+  return index;
+}
+
+/**
+ * Album summaries and description after tracks were removed or replaced in
+ * place. `albumIndex` is albumIndexByPosition() of the original playlist with
+ * removed positions spliced out; albums left empty are dropped.
+ */
+export function resummarizeAlbums(
+  albums: AlbumSummary[],
+  tracks: VerifiedTrack[],
+  albumIndex: number[]
+): { albums: AlbumSummary[]; description: string } {
+  const summaries = albums.flatMap((album, i): AlbumSummary[] => {
+    const positions = albumIndex.flatMap((albumI, pos) => (albumI === i ? [pos] : []));
+    if (positions.length === 0) return [];
+    const kept = positions.map(pos => tracks[pos]);
+    return [{
+      ...album,
+      startIndex: positions[0],
+      trackCount: kept.length,
+      // Same album, fewer of its tracks -- coverage shrinks in proportion
+      atmosCoverage: Math.round(album.atmosCoverage * (kept.length / album.trackCount) * 100) / 100,
+      averageScore: mean(kept.flatMap(t => (t.FINAL_SCORE != null ? [t.FINAL_SCORE] : []))),
+    }];
+  });
+  const totalDurationMs = tracks.reduce((sum, t) => sum + t.durationMs, 0);
+  return { albums: summaries, description: albumDescription(summaries.length, tracks, totalDurationMs) };
+}
@@ -2,18 +2,20 @@
 // Stage 2: Discover artists matching the user's vibe/mood/genre request.
 //
 // Sources (in order):
-//   1. Perplexity Sonar (PRIMARY) -- web-aware, great for music genre knowledge
-import { extractJSON } from "./perplexity.js";
-//   2. Serper (SUPPLEMENTAL) -- web search for niche/specific requests
-//   3. Gemini 3.1 Flash Lite (FALLBACK) -- if Perplexity is unavailable
+//   1. Discovery LLM chain -- Perplexity Sonar (web-aware) by default, with
+//      Gemini 3.1 Flash Lite as fallback if Perplexity is unavailable
+//   2. Serper (SUPPLEMENTAL) -- web search for niche/specific requests,
+//      names pulled out of the snippets by the extraction LLM chain
 //
 // All prompts are grounded in the NotebookLM genre taxonomy.
 
 import { createHash } from "crypto";
-import { GoogleGenerativeAI } from "@google/generative-ai";
 import { getFirestore } from "firebase-admin/firestore";
 import { buildTaxonomyPromptContext } from "../lib/genreTaxonomy.js";
 import { buildReferencePromptFragment } from "../lib/referenceAtmos.js";
+import { completeJSON, type LlmProvider } from "../lib/llm.js";
+import { tapeCall, type PipelineTape } from "../lib/tape.js";
+import { meterCall, type BuildLedger } from "../lib/buildLedger.js";
 import type { PlaylistIntent, DiscoveredArtists, DiscoveredArtist } from "../lib/types.js";
 
 // -- Discovery cache --------------------------------------------------------
@@ -39,6 +41,7 @@ function buildDiscoveryCacheKey(intent: PlaylistIntent): string {
     artistPreferences: [...intent.artistPreferences].sort(),
     excludeArtists: [...intent.excludeArtists].sort(),
     referenceQuality: intent.referenceQuality,
+    radioArtist: intent.radioArtist ?? null,
   };
   return "discovery_" + createHash("sha256")
     .update(JSON.stringify(keyParts))
@@ -81,13 +84,15 @@ async function writeToCache(
   }
 }
 
-const PERPLEXITY_API_URL = "https://api.perplexity.ai/chat/completions";
-const GEMINI_MODEL = "gemini-3.1-flash-lite-preview";
+const DISCOVERY_TIMEOUT_MS = 45_000;
 
 interface ArtistDiscoveryConfig {
-  perplexityApiKey: string;
-  geminiApiKey: string;
+  llm: LlmProvider[];           // discovery chain (primary first)
+  extractionLlm: LlmProvider[]; // pulls artist names out of Serper snippets
   serperApiKey?: string;
+  useCache?: boolean;           // default true; off for record/replay runs
+  tape?: PipelineTape;          // record/replay Serper searches
+  ledger?: BuildLedger;         // meters Serper searches
 }
 
 /**
@@ -111,6 +116,19 @@ function buildArtistDiscoveryPrompt(intent: PlaylistIntent, targetCount = 50): s
     ? `The listener specifically likes: ${intent.artistPreferences.join(", ")} -- include similar artists.`
     : "";
 
+  // Artist radio: similarity to one artist replaces genre breadth as the brief
+  const task = intent.radioArtist
+    ? `List ${targetCount} artists who SOUND most like ${intent.radioArtist} -- an "artist radio" for fans of
+${intent.radioArtist}. Requirements:
+- Rank by sonic similarity: production style, instrumentation, vocal delivery, tempo and texture --
+  not just a shared genre label. The closest matches get the highest relevance scores
+- Include ${intent.radioArtist} themselves with relevance 1.0
+- Mix direct peers and contemporaries with lesser-known artists a fan would discover next`
+    : `List ${targetCount} artists whose music fits within the genre/sub-genre boundaries above
+and matches the mood/vibe profile. Requirements:
+- Use ONLY the genre labels from the canonical taxonomy provided above
+- Include both well-known headliners AND deep-cut/underground artists for variety`;
+
   return `${taxonomyContext}
 
 ${referenceContext}LISTENER REQUEST:
@@ -125,10 +143,7 @@ ${includeText}
 ${excludeText}
 
 TASK:
-List ${targetCount} artists whose music fits within the genre/sub-genre boundaries above
-and matches the mood/vibe profile. Requirements:
-- Use ONLY the genre labels from the canonical taxonomy provided above
-- Include both well-known headliners AND deep-cut/underground artists for variety
+${task}
 - Prioritize artists known for HIGH PRODUCTION QUALITY (mixing, mastering, Dolby Atmos mixes)
 - Weight towards artists with rich discographies (more tracks = more options)
 - For each artist include: name, relevance score (0.0-1.0), genre context (short phrase),
@@ -151,6 +166,7 @@ Return ONLY valid JSON in this exact format (no markdown, no explanation):
  * Build a Serper web search query for supplemental artist discovery.
  */
 function buildSerperQuery(intent: PlaylistIntent): string {
+  if (intent.radioArtist) return `artists similar to ${intent.radioArtist}`;
   const genreStr = intent.subGenres.length > 0 ? intent.subGenres[0] : intent.genres[0] ?? "music";
   const moodStr = intent.moods.slice(0, 2).join(" ");
   const eraStr = intent.eraPreference ? ` ${intent.eraPreference}` : "";
@@ -158,12 +174,12 @@ function buildSerperQuery(intent: PlaylistIntent): string {
 }
 
 /**
- * Extract artist names from Serper search results using Gemini.
+ * Extract artist names from Serper search results using the extraction LLM chain.
  * Replaces fragile regex with AI-based extraction.
  */
 async function extractArtistsFromSerperResults(
   results: SerperResult[],
-  geminiApiKey: string
+  extractionLlm: LlmProvider[]
 ): Promise<string[]> {
   const snippetText = results
     .map(r => `Title: ${r.title}\nSnippet: ${r.snippet}`)
@@ -171,40 +187,36 @@ async function extractArtistsFromSerperResults(
 
   if (!snippetText.trim()) return [];
 
-  try {
-    const genAI = new GoogleGenerativeAI(geminiApiKey);
-    const model = genAI.getGenerativeModel({
-      model: GEMINI_MODEL,
-      generationConfig: { responseMimeType: "application/json", temperature: 0 },
-    });
-
-    const result = await model.generateContent(
-      `Extract all music artist/band names mentioned in these search results. Return ONLY valid JSON:\n{"artists": ["Artist Name 1", "Artist Name 2"]}\n\nSearch results:\n${snippetText}`
-    );
-    const text = result.response.text();
-    const parsed = JSON.parse(text) as { artists: string[] };
-    return (parsed.artists ?? []).slice(0, 20);
-  } catch {
-    console.warn("[artistDiscovery] Gemini extraction from Serper results failed, falling back to regex");
-    // Regex fallback: numbered lists, quoted names, capitalized proper nouns
-    const names = new Set<string>();
-    for (const r of results) {
-      const text = `${r.title} ${r.snippet}`;
-      // Match numbered list items: "1. Artist Name", "2) Artist Name"
-      const numbered = text.match(/\d+[\.)]\s*([A-Z][a-zA-Z\s&'.\-]{2,30})/g) ?? [];
-      for (const m of numbered) {
-        const name = m.replace(/^\d+[\.)]\s*/, "").trim();
-        if (name.length > 2 && name.length < 40) names.add(name);
-      }
-      // Match quoted names
-      const quoted = text.match(/["']([A-Z][a-zA-Z\s&'.\-]{2,30})["']/g) ?? [];
-      for (const m of quoted) {
-        const name = m.replace(/['"]/g, "").trim();
-        if (name.length > 2 && name.length < 40) names.add(name);
-      }
+  const response = await completeJSON<{ artists: string[] }>(
+    extractionLlm,
+    {
+      prompt: `Extract all music artist/band names mentioned in these search results. Return ONLY valid JSON:\n{"artists": ["Artist Name 1", "Artist Name 2"]}\n\nSearch results:\n${snippetText}`,
+      json: true,
+      temperature: 0,
+    },
+    "artistDiscovery"
+  );
+  if (response) return (response.data.artists ?? []).slice(0, 20);
+
+  console.warn("[artistDiscovery] LLM extraction from Serper results failed, falling back to regex");
+  // Regex fallback: numbered lists, quoted names, capitalized proper nouns
+  const names = new Set<string>();
+  for (const r of results) {
+    const text = `${r.title} ${r.snippet}`;
+    // Match numbered list items: "1. Artist Name", "2) Artist Name"
+    const numbered = text.match(/\d+[\.)]\s*([A-Z][a-zA-Z\s&'.\-]{2,30})/g) ?? [];
+    for (const m of numbered) {
+      const name = m.replace(/^\d+[\.)]\s*/, "").trim();
+      if (name.length > 2 && name.length < 40) names.add(name);
+    }
+    // Match quoted names
+    const quoted = text.match(/["']([A-Z][a-zA-Z\s&'.\-]{2,30})["']/g) ?? [];
+    for (const m of quoted) {
+      const name = m.replace(/['"]/g, "").trim();
+      if (name.length > 2 && name.length < 40) names.add(name);
     }
-    return Array.from(names).slice(0, 20);
   }
+  return Array.from(names).slice(0, 20);
 }
 
 interface SerperResult {
@@ -213,59 +225,21 @@ interface SerperResult {
   link: string;
 }
 
-interface PerplexityMessage {
-  role: "user" | "assistant";
-  content: string;
-}
-
 /**
- * Call Perplexity Sonar API for artist discovery.
+ * Ask the discovery LLM chain for artists. Each provider is tried in order
+ * until one returns a non-empty artist list.
  */
-async function queryPerplexityForArtists(
+async function queryLlmForArtists(
   prompt: string,
-  apiKey: string
-): Promise<DiscoveredArtist[] | null> {
-  const messages: PerplexityMessage[] = [
-    { role: "user", content: prompt },
-  ];
-
-  try {
-    const resp = await fetch(PERPLEXITY_API_URL, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${apiKey}`,
-      },
-      body: JSON.stringify({
-        model: "sonar",
-        messages,
-        max_tokens: 3000,
-        temperature: 0.2,
-      }),
-      signal: AbortSignal.timeout(45000),
-    });
-
-    if (!resp.ok) {
-      console.warn(`[artistDiscovery] Perplexity error: HTTP ${resp.status}`);
-      return null;
-    }
-
-    const data = await resp.json() as {
-      choices: Array<{ message: { content: string } }>;
-    };
-    const content = data.choices?.[0]?.message?.content ?? "";
-
-    // Extract JSON from response (handles markdown fences and citation suffixes)
-    const parsed = extractJSON<{ artists: DiscoveredArtist[] }>(content);
-    if (!parsed) {
-      console.warn("[artistDiscovery] Perplexity: no JSON in response");
-      return null;
-    }
-    return parsed.artists ?? null;
-  } catch (err) {
-    console.error("[artistDiscovery] Perplexity query failed:", err);
-    return null;
-  }
+  llm: LlmProvider[]
+): Promise<{ artists: DiscoveredArtist[]; provider: string } | null> {
+  const response = await completeJSON<{ artists: DiscoveredArtist[] }>(
+    llm,
+    { prompt, json: true, temperature: 0.2, maxOutputTokens: 3000, timeoutMs: DISCOVERY_TIMEOUT_MS },
+    "artistDiscovery",
+    data => Array.isArray(data.artists) && data.artists.length > 0
+  );
+  return response ? { artists: response.data.artists, provider: response.provider } : null;
 }
 
 /**
@@ -274,61 +248,44 @@ async function queryPerplexityForArtists(
 async function querySerperForArtists(
   query: string,
   apiKey: string,
-  geminiApiKey: string
+  extractionLlm: LlmProvider[],
+  tape?: PipelineTape,
+  ledger?: BuildLedger
 ): Promise<string[]> {
-  try {
-    const resp = await fetch("https://google.serper.dev/search", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        "X-API-KEY": apiKey,
-      },
-      body: JSON.stringify({ q: query, num: 10 }),
-      signal: AbortSignal.timeout(10000),
-    });
-
-    if (!resp.ok) {
-      const body = await resp.text().catch(() => "(unreadable)");
-      console.warn(`[artistDiscovery] Serper error: HTTP ${resp.status} | query: "${query}" | body: ${body.slice(0, 300)}`);
-      return [];
-    }
+  const organic = await meterCall(ledger, "serper", "search", 1, () =>
+    tapeCall<SerperResult[] | null>(tape, "serper", query, async () => {
+      try {
+        const resp = await fetch("https://google.serper.dev/search", {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            "X-API-KEY": apiKey,
+          },
+          body: JSON.stringify({ q: query, num: 10 }),
+          signal: AbortSignal.timeout(10000),
+        });
+
+        if (!resp.ok) {
+          const body = await resp.text().catch(() => "(unreadable)");
+          console.warn(`[artistDiscovery] Serper error: HTTP ${resp.status} | query: "${query}" | body: ${body.slice(0, 300)}`);
+          return null;
+        }
+
+        const data = await resp.json() as { organic: SerperResult[] };
+        return data.organic ?? [];
+      } catch (err) {
+        console.warn("[artistDiscovery] Serper query failed:", err);
+        return null;
+      }
+    }, null)
+  );
 
-    const data = await resp.json() as { organic: SerperResult[] };
-    return extractArtistsFromSerperResults(data.organic ?? [], geminiApiKey);
-  } catch (err) {
-    console.warn("[artistDiscovery] Serper query failed:", err);
-    return [];
-  }
+  if (!organic) return [];
+  return extractArtistsFromSerperResults(organic, extractionLlm);
 }
 
 /**
- * Call Gemini as fallback for artist discovery.
- */
-async function queryGeminiForArtists(
-  prompt: string,
-  apiKey: string
-): Promise<DiscoveredArtist[] | null> {
-  try {
-    const genAI = new GoogleGenerativeAI(apiKey);
-    const model = genAI.getGenerativeModel({
-      model: GEMINI_MODEL,
-      generationConfig: { responseMimeType: "application/json", temperature: 0.2 },
-    });
-
-    const result = await model.generateContent(prompt);
-    const text = result.response.text();
-
-    const parsed = extractJSON<{ artists: DiscoveredArtist[] }>(text);
-    if (!parsed) return null;
-    return parsed.artists ?? null;
-  } catch (err) {
-    console.error("[artistDiscovery] Gemini query failed:", err);
-    return null;
-  }
-}
-
-/**
- * Merge Serper artist names into the Perplexity/Gemini result set.
+ * Merge Serper artist names into the LLM-discovered result set.
  * Serper artists get a moderate relevance score since they lack context.
  */
 function mergeSerperArtists(
@@ -364,8 +321,9 @@ export async function discoverArtists(
   targetCount = 50
 ): Promise<DiscoveredArtists> {
   // -- Check cache --------------------------------------------
+  const useCache = config.useCache ?? true;
   const cacheKey = buildDiscoveryCacheKey(intent);
-  const cached = await getFromCache(cacheKey);
+  const cached = useCache ? await getFromCache(cacheKey) : null;
   if (cached) {
     console.log(
       `[artistDiscovery] Cache HIT (${cached.artists.length} artists, ` +
@@ -373,35 +331,34 @@ export async function discoverArtists(
     );
     return cached;
   }
-  console.log("[artistDiscovery] Cache MISS -- querying APIs...");
+  console.log(`[artistDiscovery] Cache ${useCache ? "MISS" : "BYPASSED"} -- querying APIs...`);
 
   const prompt = buildArtistDiscoveryPrompt(intent, targetCount);
-  let artists: DiscoveredArtist[] | null = null;
-  let strategy = "";
-
-  // 1. Try Perplexity (PRIMARY)
-  artists = await queryPerplexityForArtists(prompt, config.perplexityApiKey);
-  if (artists && artists.length > 0) {
-    strategy = "perplexity";
-    console.log(`[artistDiscovery] Perplexity returned ${artists.length} artists`);
+  let artists: DiscoveredArtist[];
+  let strategy: string;
+
+  // 1. Discovery chain (Perplexity primary, Gemini fallback by default)
+  const llmResult = await queryLlmForArtists(prompt, config.llm);
+  if (llmResult) {
+    artists = llmResult.artists;
+    strategy = llmResult.provider;
+    console.log(`[artistDiscovery] ${llmResult.provider} returned ${artists.length} artists`);
   } else {
-    // 2. Fallback to Gemini
-    console.log("[artistDiscovery] Falling back to Gemini...");
-    artists = await queryGeminiForArtists(prompt, config.geminiApiKey);
-    if (artists && artists.length > 0) {
-      strategy = "gemini";
-      console.log(`[artistDiscovery] Gemini returned ${artists.length} artists`);
-    } else {
-      console.error("[artistDiscovery] Both Perplexity and Gemini failed");
-      artists = [];
-      strategy = "none";
-    }
+    console.error("[artistDiscovery] All discovery providers failed");
+    artists = [];
+    strategy = "none";
   }
 
-  // 3. Serper supplemental (if API key provided)
+  // 2. Serper supplemental (if API key provided)
   if (config.serperApiKey) {
     const serperQuery = buildSerperQuery(intent);
-    const serperNames = await querySerperForArtists(serperQuery, config.serperApiKey, config.geminiApiKey);
+    const serperNames = await querySerperForArtists(
+      serperQuery,
+      config.serperApiKey,
+      config.extractionLlm,
+      config.tape,
+      config.ledger
+    );
     if (serperNames.length > 0) {
       artists = mergeSerperArtists(artists, serperNames, intent);
       strategy += "+serper";
@@ -415,7 +372,7 @@ export async function discoverArtists(
   const result: DiscoveredArtists = { artists, searchStrategy: strategy };
 
   // Write to cache (fire-and-forget)
-  writeToCache(cacheKey, result, intent.description).catch(() => {});
+  if (useCache) writeToCache(cacheKey, result, intent.description).catch(() => {});
 
   return result;
 }
@@ -466,9 +423,7 @@ Return ONLY valid JSON:
   ]
 }`;
 
-  const newArtists = await queryPerplexityForArtists(expansionPrompt, config.perplexityApiKey)
-    ?? await queryGeminiForArtists(expansionPrompt, config.geminiApiKey)
-    ?? [];
+  const newArtists = (await queryLlmForArtists(expansionPrompt, config.llm))?.artists ?? [];
 
   const existingNames = new Set(existingArtists.map(a => a.name.toLowerCase()));
   const filtered = newArtists.filter(a => !existingNames.has(a.name.toLowerCase()));
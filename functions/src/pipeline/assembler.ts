@@ -6,17 +6,31 @@
 //   2. If pool is exhausted, loop back to ArtistDiscovery (max 2 loops)
 // Formats the final AtmosPlaylist for the client.
 
-import type { Firestore } from "firebase-admin/firestore";
+import type { AtmosStore } from "../lib/atmosDb.js";
 import type {
   AtmosPlaylist,
+  DroppedItem,
   PlaylistDraft,
   PlaylistIntent,
   TrackCandidate,
   VerifiedTrack,
 } from "../lib/types.js";
+import type { PipelineTape } from "../lib/tape.js";
+import type { BuildLedger } from "../lib/buildLedger.js";
+import { creditedArtists } from "../lib/artistCredits.js";
+import { artistKey } from "../lib/artistIndex.js";
+import { rankByEraFit } from "../lib/releaseEra.js";
 import { curatePlaylist } from "./curator.js";
 import { verifyPlaylist } from "./verifier.js";
 import { sequenceTracks } from "./sequencer.js";
+import {
+  artistCap,
+  fillsRequirement,
+  isRequiredTrack,
+  missingRequirements,
+  rankByTempoFit,
+  violatedConstraint,
+} from "./constraints.js";
 
 const GAP_FILL_THRESHOLD = 0.60; // fill if < 60% of target track count (lowered to absorb verification drops)
 const DEFAULT_DURATION_MS = 240_000;
@@ -24,6 +38,8 @@ const DEFAULT_DURATION_MS = 240_000;
 interface AssemblerConfig {
   geminiApiKey: string;
   appleMusicToken: string;
+  tape?: PipelineTape;
+  ledger?: BuildLedger;
 }
 
 interface AssemblerInput {
@@ -34,13 +50,14 @@ interface AssemblerInput {
 }
 
 const GAP_FILL_MIN_SCORE = 4.0; // Minimum quality for gap-fill tracks
+const REQUIRED_FILL_PER_ITEM = 3; // pool candidates verified per missing required track/artist
 
 /**
  * Attempt gap-fill by re-curating from unused candidates.
  * Applies quality controls: filters by FINAL_SCORE and deprioritizes enrichment failures.
  */
 async function gapFillFromPool(
-  db: Firestore,
+  db: AtmosStore,
   input: AssemblerInput,
   config: AssemblerConfig,
   needed: number
@@ -48,13 +65,13 @@ async function gapFillFromPool(
   if (input.unusedCandidates.length === 0) return [];
 
   // Quality gate: filter and sort unused candidates before gap-filling
-  const qualifiedCandidates = input.unusedCandidates
+  const qualifiedCandidates = rankByTempoFit(rankByEraFit(input.unusedCandidates
     .filter(c => {
       // Exclude very low quality tracks
       if (c.FINAL_SCORE != null && c.FINAL_SCORE < GAP_FILL_MIN_SCORE) return false;
       // Exclude tracks with failed enrichment (no mood/energy data)
       if (c.enrichment_failed) return false;
-      return true;
+      return violatedConstraint(c, input.intent) === null;
     })
     .sort((a, b) => {
       // Sort by FINAL_SCORE descending, then relevance
@@ -62,7 +79,8 @@ async function gapFillFromPool(
       const scoreB = b.FINAL_SCORE ?? 0;
       if (scoreB !== scoreA) return scoreB - scoreA;
       return b.artistRelevance - a.artistRelevance;
-    });
+    }), input.intent.eraPreference), // in-era first, off-era last
+    input.intent); // unknown tempo/key after known fits, under the "deprioritize" policy
 
   console.log(
     `[assembler] Gap-filling ${needed} tracks from ${qualifiedCandidates.length} qualified candidates ` +
@@ -89,15 +107,21 @@ async function gapFillFromPool(
       atmos_key_estimate: c.atmos_key_estimate,
       selectionRationale: "Gap fill",
       position: i + 1,
+      provenance: c.provenance,
     })),
     unusedCandidates: [],
   };
 
   const fillResult = await verifyPlaylist(db, fillDraft, {
     appleMusicToken: config.appleMusicToken,
+    tape: config.tape,
+    ledger: config.ledger,
+    yearRange: input.intent.yearRange,
   });
 
-  return fillResult.verifiedTracks.slice(0, needed);
+  return fillResult.verifiedTracks
+    .slice(0, needed)
+    .map(t => ({ ...t, provenance: { ...t.provenance, gapFill: true } }));
 }
 
 /**
@@ -113,7 +137,7 @@ function generateTitle(intent: PlaylistIntent): string {
 /**
  * Generate a playlist description from the intent.
  */
-function generateDescription(intent: PlaylistIntent, trackCount: number): string {
+export function generateDescription(intent: PlaylistIntent, trackCount: number): string {
   const duration = Math.round((trackCount * DEFAULT_DURATION_MS) / 60000);
   const genreStr = intent.genres.join(" / ");
   const moodStr = intent.moods.join(", ");
@@ -135,13 +159,15 @@ function mergeVerifiedTracks(
 export interface AssemblerResult {
   playlist: AtmosPlaylist;
   expansionLoopsUsed: number;
+  gapFilled: number;
+  dropped: DroppedItem[]; // trimmed by the constraint / artist-diversity / target-count passes
 }
 
 /**
  * Main entry point: finalize the playlist with gap-filling if needed.
  */
 export async function assemblePlaylist(
-  db: Firestore,
+  db: AtmosStore,
   input: AssemblerInput,
   config: AssemblerConfig,
   buildMetadata: {
@@ -158,6 +184,7 @@ export async function assemblePlaylist(
   let verifiedTracks = [...input.verified];
   let unusedCandidates = [...input.unusedCandidates];
   let expansionLoops = 0;
+  let gapFilled = 0;
 
   // Gap-fill from unused pool if below threshold
   const minRequired = Math.floor(targetCount * GAP_FILL_THRESHOLD);
@@ -175,18 +202,29 @@ export async function assemblePlaylist(
       needed
     );
 
+    const beforeFill = verifiedTracks.length;
     verifiedTracks = mergeVerifiedTracks(verifiedTracks, fillTracks);
+    gapFilled = verifiedTracks.length - beforeFill;
     unusedCandidates = unusedCandidates.slice(needed * 3);
 
     console.log(`[assembler] After gap-fill: ${verifiedTracks.length} tracks`);
   }
 
+  // Required tracks/artists that didn't survive curation or verification get one more try from the pool
+  const missing = missingRequirements(verifiedTracks, input.intent);
+  if (missing.artists.length + missing.tracks.length > 0) {
+    const requiredFill = await fillRequirements(db, input, config, input.unusedCandidates, missing);
+    verifiedTracks = mergeVerifiedTracks(verifiedTracks, requiredFill);
+    gapFilled += requiredFill.length;
+  }
+
   // Enforce artist diversity in final list
-  const diverseTracks = enforceArtistDiversity(verifiedTracks, input.intent, targetCount);
+  const { tracks: diverseTracks, dropped } = enforceArtistDiversity(verifiedTracks, input.intent, targetCount);
 
   // Sequence tracks for smooth BPM/key/energy/vibe flow
   const sequencerResult = sequenceTracks(diverseTracks, input.intent);
   const finalTracks = sequencerResult.tracks;
+  dropped.push(...sequencerResult.dropped);
 
   if (sequencerResult.sets.length > 1) {
     console.log(
@@ -227,37 +265,111 @@ export async function assemblePlaylist(
     `${atmosVerifiedCount} Atmos verified, ${atmosWarningCount} warnings`
   );
 
-  return { playlist, expansionLoopsUsed: expansionLoops };
+  return { playlist, expansionLoopsUsed: expansionLoops, gapFilled, dropped };
 }
 
 /**
- * Enforce max tracks per artist in the final list.
- * Preferred/excluded artists from intent are respected.
+ * Verify pool candidates that cover still-missing required tracks or artists
+ * (one per requirement). No quality gate -- the listener asked for these.
+ */
+async function fillRequirements(
+  db: AtmosStore,
+  input: AssemblerInput,
+  config: AssemblerConfig,
+  pool: TrackCandidate[],
+  missing: ReturnType<typeof missingRequirements>
+): Promise<VerifiedTrack[]> {
+  const candidates = pool
+    .filter(c => fillsRequirement(c, missing, input.intent) && violatedConstraint(c, input.intent) === null)
+    .slice(0, REQUIRED_FILL_PER_ITEM * (missing.artists.length + missing.tracks.length));
+  if (candidates.length === 0) {
+    console.log(
+      `[assembler] No pool candidates for required ${[...missing.artists, ...missing.tracks.map(t => t.title)].join(", ")}`
+    );
+    return [];
+  }
+
+  const draft: PlaylistDraft = {
+    tracks: candidates.map((c, i) => ({
+      docId: c.docId,
+      Artist: c.Artist,
+      track_Title: c.track_Title,
+      album: c.album,
+      Apple_Music_ID: c.Apple_Music_ID,
+      Apple_Music_URL: c.Apple_Music_URL,
+      am_duration_ms: c.am_duration_ms,
+      FINAL_SCORE: c.FINAL_SCORE,
+      atmos_mood: c.atmos_mood,
+      atmos_energy: c.atmos_energy,
+      atmos_tempo_estimate: c.atmos_tempo_estimate,
+      atmos_vibe: c.atmos_vibe,
+      atmos_key_estimate: c.atmos_key_estimate,
+      selectionRationale: "Requested by the listener",
+      position: i + 1,
+      provenance: c.provenance,
+    })),
+    unusedCandidates: [],
+  };
+  const result = await verifyPlaylist(db, draft, {
+    appleMusicToken: config.appleMusicToken,
+    tape: config.tape,
+    ledger: config.ledger,
+    yearRange: input.intent.yearRange,
+  });
+
+  // Keep one verified track per requirement
+  const filled: VerifiedTrack[] = [];
+  for (const track of result.verifiedTracks) {
+    if (fillsRequirement(track, missingRequirements(filled, input.intent), input.intent)) filled.push(track);
+  }
+  console.log(`[assembler] Filled ${filled.length} required tracks/artists from the pool`);
+  return filled;
+}
+
+/**
+ * Enforce max tracks per artist in the final list, plus the other hard
+ * constraints. Required tracks are placed first so the target count never
+ * squeezes them out.
  */
 function enforceArtistDiversity(
   tracks: VerifiedTrack[],
   intent: PlaylistIntent,
   targetCount: number
-): VerifiedTrack[] {
+): { tracks: VerifiedTrack[]; dropped: DroppedItem[] } {
   const result: VerifiedTrack[] = [];
+  const dropped: DroppedItem[] = [];
   const artistCounts = new Map<string, number>();
-  const lowerPreferred = new Set(intent.artistPreferences.map(a => a.toLowerCase()));
-  const lowerExclude = new Set(intent.excludeArtists.map(a => a.toLowerCase()));
-
-  for (const track of tracks) {
-    if (result.length >= targetCount) break;
-
-    const artistKey = track.Artist.toLowerCase();
-    if (lowerExclude.has(artistKey)) continue;
-
-    const maxPerArtist = lowerPreferred.has(artistKey) ? 5 : 3;
-    const count = artistCounts.get(artistKey) ?? 0;
-
-    if (count >= maxPerArtist) continue;
+  const drop = (track: VerifiedTrack, reason: string) =>
+    dropped.push({ label: `${track.Artist} - ${track.track_Title}`, reason, docId: track.docId });
+  const ordered = [
+    ...tracks.filter(t => isRequiredTrack(t, intent)),
+    ...tracks.filter(t => !isRequiredTrack(t, intent)),
+  ];
+
+  for (const track of ordered) {
+    if (result.length >= targetCount) {
+      drop(track, `Over target of ${targetCount} tracks`);
+      continue;
+    }
+
+    const violation = violatedConstraint(track, intent);
+    if (violation) {
+      drop(track, violation);
+      continue;
+    }
+
+    // A collaboration counts against every credited artist
+    const credited = creditedArtists(track.Artist);
+    const capped = credited.find(a => (artistCounts.get(artistKey(a)) ?? 0) >= artistCap(a, intent));
+
+    if (capped && !isRequiredTrack(track, intent)) {
+      drop(track, `Artist cap (${artistCap(capped, intent)} per artist, ${capped})`);
+      continue;
+    }
 
     result.push(track);
-    artistCounts.set(artistKey, count + 1);
+    for (const a of credited) artistCounts.set(artistKey(a), (artistCounts.get(artistKey(a)) ?? 0) + 1);
   }
 
-  return result;
+  return { tracks: result, dropped };
 }
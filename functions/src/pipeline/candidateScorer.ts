@@ -3,6 +3,10 @@
 // from DB Matcher so we only spend API calls on the top candidates.
 
 import type { TrackCandidate, PlaylistIntent } from "../lib/types.js";
+import { eraFit } from "../lib/releaseEra.js";
+
+const ERA_MATCH_BONUS = 10;      // known original year inside the eraPreference window
+const ERA_MISMATCH_PENALTY = 15; // known original year outside it
 
 /**
  * Score and rank candidates using fields available BEFORE enrichment.
@@ -14,7 +18,7 @@ import type { TrackCandidate, PlaylistIntent } from "../lib/types.js";
  */
 export function scoreAndRank(
   candidates: TrackCandidate[],
-  _intent: PlaylistIntent,
+  intent: PlaylistIntent,
   maxToEnrich: number
 ): { toEnrich: TrackCandidate[]; deferred: TrackCandidate[] } {
   const scored = candidates.map(c => {
@@ -32,7 +36,13 @@ export function scoreAndRank(
     // Bonus for tracks with verified Apple Music duration
     if (c.am_duration_ms) score += 5;
 
-    return { candidate: c, score };
+    // Era preference: only tracks with a known original year move (see lib/releaseEra.ts)
+    const fit = eraFit(c, intent.eraPreference);
+    if (fit > 0) score += ERA_MATCH_BONUS;
+    if (fit < 0) score -= ERA_MISMATCH_PENALTY;
+
+    // Record the pre-score on the candidate's provenance (copy -- don't mutate the pool)
+    return { candidate: { ...c, provenance: { ...c.provenance, preScore: Math.round(score * 10) / 10 } }, score };
   });
 
   // Sort descending by score
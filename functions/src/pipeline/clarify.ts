@@ -1,21 +1,41 @@
 // src/pipeline/clarify.ts
 // Stage 1: Gatekeeper -- parse user intent into structured PlaylistIntent.
 //
-// If the request is too vague, return a clarification question.
+// If the request is too vague, return a clarification question with structured
+// options (genre chips, energy, duration). Answers come back through
+// continueClarification, which keeps the original prompt and partial intent.
 // Maps freeform language to canonical genre/mood terms from the taxonomy.
 // REPLACES existing clarify.ts
 
-import { GoogleGenerativeAI } from "@google/generative-ai";
-import { buildTaxonomyPromptContext } from "../lib/genreTaxonomy.js";
+import { buildTaxonomyPromptContext, GENRE_FAMILIES } from "../lib/genreTaxonomy.js";
 import { detectQualityIntent } from "../lib/referenceAtmos.js";
-import type { PlaylistIntent, ClarifyResult } from "../lib/types.js";
-
-const GEMINI_MODEL = "gemini-3.1-flash-lite-preview";
+import { completeJSON, type LlmProvider } from "../lib/llm.js";
+import { normalizeCamelot } from "../lib/camelot.js";
+import type { ArtistIndex } from "../lib/artistIndex.js";
+import { normalizeIntent } from "./intentNormalizer.js";
+import { constraintFields, describeConstraints, parseConstraints, type PromptConstraints } from "./constraints.js";
+import type {
+  PlaylistIntent,
+  ClarificationAnswer,
+  ClarificationOptions,
+  ClarificationSession,
+  ClarifyResult,
+  IntentDelta,
+  PlaylistRefinement,
+  RequiredTrack,
+  UnknownTempoPolicy,
+} from "../lib/types.js";
 
 interface ClarifyConfig {
-  geminiApiKey: string;
+  llm: LlmProvider[];
+  artistIndex?: ArtistIndex | null; // tells artists from song titles in "include ..." lists
 }
 
+/** Clarification turns before we stop asking and build from what we have. */
+export const MAX_CLARIFY_TURNS = 3;
+
+const DURATION_CHOICES = [30, 60, 90, 120];
+
 const VAGUE_REQUEST_INDICATORS = [
   "music", "songs", "playlist", "something", "anything", "good",
   "nice", "cool", "vibes", "beats",
@@ -31,9 +51,13 @@ function isRequestTooVague(userPrompt: string): boolean {
   return false;
 }
 
-function buildClarifyPrompt(userPrompt: string): string {
+function buildClarifyPrompt(userPrompt: string, constraints: PromptConstraints): string {
   // Include a compact taxonomy sample to help Gemini map genres correctly
   const taxonomyCtx = buildTaxonomyPromptContext([], []);
+  const constraintLines = describeConstraints(constraints);
+  const constraintCtx = constraintLines.length > 0
+    ? `\nHARD CONSTRAINTS (already parsed from the request -- enforced separately, do not ask about them):\n${constraintLines.map(l => `- ${l}`).join("\n")}\n`
+    : "";
 
   return `You are a music curator assistant. A user wants a Dolby Atmos playlist.
 Parse their request into structured metadata. Use the canonical genre taxonomy below.
@@ -42,7 +66,7 @@ ${taxonomyCtx}
 
 USER REQUEST:
 "${userPrompt}"
-
+${constraintCtx}
 TASK:
 1. ALMOST NEVER ask for clarification. Only set needsClarification: true for truly
    meaningless, zero-signal prompts like "music", "songs", "play something" --
@@ -60,6 +84,8 @@ TASK:
 
 3. If ANY genre, mood, vibe, activity, era, or artist is mentioned, EXTRACT IT -- do not clarify.
 4. Otherwise, extract structured intent.
+5. When you DO ask for clarification, still fill "intent" with whatever you could extract
+   (leave unknown fields empty) and suggest 4-8 canonical genres in "genreOptions".
 
 For genres and subGenres, map to canonical taxonomy names where possible, but common genres
 like R&B, Soul, Hip-Hop, Jazz, Classical, Country, Pop, Rock, Metal, Funk, Gospel, Latin,
@@ -77,6 +103,7 @@ Return ONLY valid JSON, no markdown:
 {
   "needsClarification": false,
   "clarificationQuestion": null,
+  "genreOptions": [],
   "intent": {
     "description": "refined description of what the user wants",
     "genres": ["Primary Genre"],
@@ -93,88 +120,455 @@ Return ONLY valid JSON, no markdown:
 }`;
 }
 
+/** Fill every PlaylistIntent field, keeping whatever `partial` already has, and normalize it. */
+function withIntentDefaults(partial: Partial<PlaylistIntent>, userPrompt: string): PlaylistIntent {
+  return normalizeIntent({
+    description: partial.description ?? userPrompt,
+    genres: partial.genres ?? [],
+    subGenres: partial.subGenres ?? [],
+    moods: partial.moods ?? [],
+    vibeKeywords: partial.vibeKeywords ?? [],
+    energyRange: partial.energyRange ?? [4, 7],
+    targetDurationMinutes: partial.targetDurationMinutes ?? 60,
+    targetTrackCount: partial.targetTrackCount ?? null,
+    artistPreferences: partial.artistPreferences ?? [],
+    excludeArtists: partial.excludeArtists ?? [],
+    eraPreference: partial.eraPreference ?? null,
+    referenceQuality: detectQualityIntent(userPrompt),
+    bpmRange: partial.bpmRange ?? null,
+    allowedKeys: partial.allowedKeys ?? null,
+    unknownTempoPolicy: partial.unknownTempoPolicy,
+    yearRange: partial.yearRange ?? null,
+    maxTracksPerArtist: partial.maxTracksPerArtist ?? null,
+    requiredArtists: partial.requiredArtists ?? [],
+    requiredTracks: partial.requiredTracks ?? [],
+    radioArtist: partial.radioArtist ?? null,
+    albumMode: partial.albumMode ?? false,
+  });
+}
+
+function clarificationOptions(
+  partial: Partial<PlaylistIntent> | undefined,
+  genreOptions?: string[] | null
+): ClarificationOptions {
+  const genres = genreOptions?.length ? genreOptions : GENRE_FAMILIES.map(f => f.name);
+  return {
+    genres: genres.slice(0, 8),
+    energyRange: partial?.energyRange ?? [4, 7],
+    durationMinutes: DURATION_CHOICES,
+  };
+}
+
 /**
- * Parse user request into structured PlaylistIntent using Gemini.
+ * Parse user request into structured PlaylistIntent using the clarify LLM chain.
  */
 export async function clarifyIntent(
   userPrompt: string,
   config: ClarifyConfig
 ): Promise<ClarifyResult> {
-  // Quick vague-request check before hitting Gemini
+  // Hard constraints are parsed deterministically, before (and regardless of) the LLM
+  const constraints = parseConstraints(userPrompt, config.artistIndex);
+
+  // Quick vague-request check before hitting the LLM
   if (isRequestTooVague(userPrompt)) {
     return {
       needsClarification: true,
       clarificationQuestion:
         "What kind of music are you in the mood for? Tell me a genre, mood, or vibe -- " +
         'like "late-night R&B", "energetic deep house", or "melancholic indie rock".',
+      clarificationOptions: clarificationOptions(undefined),
     };
   }
 
-  try {
-    const genAI = new GoogleGenerativeAI(config.geminiApiKey);
-    const model = genAI.getGenerativeModel({
-      model: GEMINI_MODEL,
-      generationConfig: {
-        responseMimeType: "application/json",
-        temperature: 0.1,
-      },
-    });
-
-    const result = await model.generateContent(buildClarifyPrompt(userPrompt));
-    const text = result.response.text();
-
-    // responseMimeType:"application/json" means text should be valid JSON directly
-    const parsed = JSON.parse(text) as {
-      needsClarification: boolean;
-      clarificationQuestion: string | null;
-      intent: PlaylistIntent | null;
-    };
-
-    // Word-count safety rail: prompts with 5+ words should NEVER trigger clarification.
-    // Gemini can be over-cautious -- override when the prompt clearly has signal.
-    const words = userPrompt.trim().split(/\s+/);
-    const wordCount = words.length;
-    const hasNonGenericWord = words.some(w => !VAGUE_REQUEST_INDICATORS.includes(w.toLowerCase()));
-    if (parsed.needsClarification && wordCount >= 8 && hasNonGenericWord && parsed.intent) {
-      console.log(`[clarify] Overriding Gemini clarification (prompt has ${wordCount} words)`);
-      parsed.needsClarification = false;
-    }
-
-    if (parsed.needsClarification || !parsed.intent) {
-      return {
-        needsClarification: true,
-        clarificationQuestion:
-          parsed.clarificationQuestion ??
-          'Can you be more specific? For example: "chill late-night neo-soul" or "high-energy trap for working out".',
-      };
-    }
-
-    // Ensure required fields have defaults
-    const intent: PlaylistIntent = {
-      description: parsed.intent.description ?? userPrompt,
-      genres: parsed.intent.genres ?? [],
-      subGenres: parsed.intent.subGenres ?? [],
-      moods: parsed.intent.moods ?? [],
-      vibeKeywords: parsed.intent.vibeKeywords ?? [],
-      energyRange: parsed.intent.energyRange ?? [4, 7],
-      targetDurationMinutes: parsed.intent.targetDurationMinutes ?? 60,
-      targetTrackCount: parsed.intent.targetTrackCount ?? null,
-      artistPreferences: parsed.intent.artistPreferences ?? [],
-      excludeArtists: parsed.intent.excludeArtists ?? [],
-      eraPreference: parsed.intent.eraPreference ?? null,
-      referenceQuality: detectQualityIntent(userPrompt),
-    };
+  const response = await completeJSON<{
+    needsClarification: boolean;
+    clarificationQuestion: string | null;
+    genreOptions?: string[] | null;
+    intent: Partial<PlaylistIntent> | null;
+  }>(config.llm, { prompt: buildClarifyPrompt(userPrompt, constraints), json: true, temperature: 0.1 }, "clarify");
 
-    return { needsClarification: false, intent };
-  } catch (err) {
-    console.error("[clarify] Gemini error:", err);
-    // Gemini is down -- ask user to clarify rather than proceeding with empty intent
+  if (!response) {
+    console.error("[clarify] All LLM providers failed");
+    // LLM is down -- ask user to clarify rather than proceeding with empty intent
     return {
       needsClarification: true,
       clarificationQuestion:
         "I'm having trouble understanding your request right now. " +
         'Could you try again with more detail? For example: "chill late-night neo-soul" ' +
         'or "high-energy trap for working out".',
+      // Structured picks still work without the LLM (see continueClarification)
+      clarificationOptions: clarificationOptions(undefined),
+    };
+  }
+
+  const parsed = response.data;
+
+  // Word-count safety rail: prompts with 5+ words should NEVER trigger clarification.
+  // The LLM can be over-cautious -- override when the prompt clearly has signal.
+  const words = userPrompt.trim().split(/\s+/);
+  const wordCount = words.length;
+  const hasNonGenericWord = words.some(w => !VAGUE_REQUEST_INDICATORS.includes(w.toLowerCase()));
+  // An artist radio names its artist, which is all discovery needs
+  const signal = (wordCount >= 8 && hasNonGenericWord) || !!constraints.radioArtist;
+  if (parsed.needsClarification && signal && parsed.intent) {
+    console.log(`[clarify] Overriding LLM clarification (prompt has ${wordCount} words)`);
+    parsed.needsClarification = false;
+  }
+
+  if (parsed.needsClarification || !parsed.intent) {
+    const extracted = parsed.intent ?? {};
+    const partialIntent = knownFields({ ...extracted, ...constraintFields(constraints, extracted) });
+    return {
+      needsClarification: true,
+      clarificationQuestion:
+        parsed.clarificationQuestion ??
+        'Can you be more specific? For example: "chill late-night neo-soul" or "high-energy trap for working out".',
+      clarificationOptions: clarificationOptions(partialIntent, parsed.genreOptions),
+      partialIntent,
+    };
+  }
+
+  // Ensure required fields have defaults; parsed constraints win over the LLM's reading
+  const intent = { ...parsed.intent, ...constraintFields(constraints, parsed.intent) };
+  return { needsClarification: false, intent: withIntentDefaults(intent, userPrompt) };
+}
+
+// -- User-edited intents -------------------------------------------------------
+
+const MAX_LIST_ITEMS = 20;
+const MAX_ANSWER_CHARS = 500;
+
+function stringList(value: unknown): string[] | null {
+  if (!Array.isArray(value)) return null;
+  return value
+    .filter((v): v is string => typeof v === "string")
+    .map(v => v.trim())
+    .filter(Boolean)
+    .slice(0, MAX_LIST_ITEMS);
+}
+
+function clampNumber(value: unknown, min: number, max: number): number | null {
+  if (typeof value !== "number" || !Number.isFinite(value)) return null;
+  return Math.min(max, Math.max(min, Math.round(value)));
+}
+
+/** A [min, max] pair within bounds, or null if either end is missing. */
+function clampRange(value: unknown, min: number, max: number): [number, number] | null {
+  if (!Array.isArray(value)) return null;
+  const low = clampNumber(value[0], min, max);
+  const high = clampNumber(value[1], min, max);
+  if (low == null || high == null) return null;
+  return [Math.min(low, high), Math.max(low, high)];
+}
+
+/** Canonical Camelot keys, deduped; null when none survive. */
+function camelotList(value: unknown): string[] | null {
+  const keys = (stringList(value) ?? []).map(normalizeCamelot).filter((k): k is string => k !== null);
+  return keys.length > 0 ? [...new Set(keys)] : null;
+}
+
+const UNKNOWN_TEMPO_POLICIES: UnknownTempoPolicy[] = ["keep", "deprioritize", "drop"];
+
+function requiredTrackList(value: unknown): RequiredTrack[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter((v): v is { title: unknown; artist?: unknown } => !!v && typeof v === "object")
+    .filter(v => typeof v.title === "string" && v.title.trim() !== "")
+    .map(v => ({
+      title: (v.title as string).trim(),
+      artist: typeof v.artist === "string" && v.artist.trim() ? v.artist.trim() : null,
+    }))
+    .slice(0, MAX_LIST_ITEMS);
+}
+
+/**
+ * Coerce an intent edited on the client (intent editor) into a PlaylistIntent.
+ * Returns null if it's missing the fields a build can't do without.
+ */
+export function sanitizeIntent(raw: unknown): PlaylistIntent | null {
+  if (!raw || typeof raw !== "object") return null;
+  const intent = coerceIntent(raw as Record<string, unknown>);
+  // Nothing to discover from
+  const sources = intent.genres.length + intent.subGenres.length + intent.moods.length + intent.artistPreferences.length;
+  return sources > 0 ? intent : null;
+}
+
+/**
+ * Every PlaylistIntent field of `input` type-checked and clamped, with
+ * defaults for what's missing or malformed. Used wherever client-supplied
+ * values (edited intents, clarification answers) or refinement deltas merge
+ * into an intent.
+ */
+function coerceIntent(input: Record<string, unknown>): PlaylistIntent {
+  const genres = stringList(input.genres) ?? [];
+  const moods = stringList(input.moods) ?? [];
+
+  const energy = Array.isArray(input.energyRange) ? input.energyRange : [];
+  const energyMin = clampNumber(energy[0], 1, 10) ?? 4;
+  const energyMax = clampNumber(energy[1], 1, 10) ?? 7;
+  const description = typeof input.description === "string" && input.description.trim()
+    ? input.description.trim()
+    : [...moods, ...genres].join(" ");
+
+  return normalizeIntent({
+    description,
+    genres,
+    subGenres: stringList(input.subGenres) ?? [],
+    moods,
+    vibeKeywords: stringList(input.vibeKeywords) ?? [],
+    energyRange: [Math.min(energyMin, energyMax), Math.max(energyMin, energyMax)],
+    targetDurationMinutes: clampNumber(input.targetDurationMinutes, 10, 300) ?? 60,
+    targetTrackCount: clampNumber(input.targetTrackCount, 5, 100),
+    artistPreferences: stringList(input.artistPreferences) ?? [],
+    excludeArtists: stringList(input.excludeArtists) ?? [],
+    eraPreference: typeof input.eraPreference === "string" && input.eraPreference.trim()
+      ? input.eraPreference.trim()
+      : null,
+    referenceQuality: input.referenceQuality === true,
+    bpmRange: clampRange(input.bpmRange, 40, 220),
+    allowedKeys: camelotList(input.allowedKeys),
+    unknownTempoPolicy: UNKNOWN_TEMPO_POLICIES.find(p => p === input.unknownTempoPolicy),
+    yearRange: clampRange(input.yearRange, 1900, new Date().getFullYear()),
+    maxTracksPerArtist: clampNumber(input.maxTracksPerArtist, 1, 10),
+    requiredArtists: stringList(input.requiredArtists) ?? [],
+    requiredTracks: requiredTrackList(input.requiredTracks),
+    radioArtist: typeof input.radioArtist === "string" && input.radioArtist.trim()
+      ? input.radioArtist.trim()
+      : null,
+    albumMode: input.albumMode === true,
+  });
+}
+
+// -- Clarification dialogue ----------------------------------------------------
+
+/** Drop empty / null fields so a partial intent only carries what's actually known. */
+function knownFields(partial: Partial<PlaylistIntent>): Partial<PlaylistIntent> {
+  return Object.fromEntries(
+    Object.entries(partial).filter(([, v]) => v != null && !(Array.isArray(v) && v.length === 0))
+  ) as Partial<PlaylistIntent>;
+}
+
+function describeAnswer(answer: ClarificationAnswer): string {
+  const parts: string[] = [];
+  if (answer.genres?.length) parts.push(`genres: ${answer.genres.join(", ")}`);
+  if (answer.energyRange) parts.push(`energy ${answer.energyRange[0]}-${answer.energyRange[1]}/10`);
+  if (answer.targetDurationMinutes) parts.push(`${answer.targetDurationMinutes} minutes`);
+  if (answer.text?.trim()) parts.push(answer.text.trim());
+  return parts.join("; ");
+}
+
+/** The whole dialogue as one prompt, so the LLM sees every answer in context. */
+function conversationPrompt(session: ClarificationSession): string {
+  const turns = session.turns
+    .filter(turn => turn.answer)
+    .map(turn => `Asked: ${turn.question} Answered: ${describeAnswer(turn.answer!)}`);
+  return [session.originalPrompt, ...turns].join("\n");
+}
+
+/** A client-sent answer with only well-formed, in-range picks left in it. */
+function sanitizeAnswer(answer: ClarificationAnswer): ClarificationAnswer {
+  const raw = answer as Record<string, unknown>;
+  const genres = stringList(raw.genres);
+  const energyRange = clampRange(raw.energyRange, 1, 10);
+  const targetDurationMinutes = clampNumber(raw.targetDurationMinutes, 10, 300);
+  return {
+    ...(typeof raw.text === "string" ? { text: raw.text.slice(0, MAX_ANSWER_CHARS) } : {}),
+    ...(genres?.length ? { genres } : {}),
+    ...(energyRange ? { energyRange } : {}),
+    ...(targetDurationMinutes != null ? { targetDurationMinutes } : {}),
+  };
+}
+
+/** The fields `partial` actually carries, coerced like a full intent. */
+function sanitizePartialIntent(partial: Partial<PlaylistIntent> | undefined): Partial<PlaylistIntent> {
+  if (!partial || typeof partial !== "object") return {};
+  const coerced = coerceIntent(partial as Record<string, unknown>);
+  return knownFields(Object.fromEntries(
+    Object.keys(partial).filter(key => key in coerced).map(key => [key, coerced[key as keyof PlaylistIntent]])
+  ) as Partial<PlaylistIntent>);
+}
+
+/** Structured picks are explicit user choices -- they override what the LLM inferred. */
+function applyClarificationAnswer(intent: PlaylistIntent, answer: ClarificationAnswer): PlaylistIntent {
+  return coerceIntent({
+    ...intent,
+    genres: answer.genres?.length ? answer.genres : intent.genres,
+    energyRange: answer.energyRange ?? intent.energyRange,
+    targetDurationMinutes: answer.targetDurationMinutes ?? intent.targetDurationMinutes,
+  });
+}
+
+/**
+ * Answer the open question of a clarification session and try again.
+ * Proceeds without asking again once the user has made a structured pick or
+ * MAX_CLARIFY_TURNS is reached; otherwise returns the next question and the
+ * updated session for the client to send back.
+ */
+export async function continueClarification(
+  clientSession: ClarificationSession,
+  clientAnswer: ClarificationAnswer,
+  config: ClarifyConfig
+): Promise<{ result: ClarifyResult; session: ClarificationSession }> {
+  // Both come back from the client -- nothing in them is trusted as-is
+  const answer = sanitizeAnswer(clientAnswer);
+  const session = { ...clientSession, partialIntent: sanitizePartialIntent(clientSession.partialIntent) };
+  const turns = session.turns.map((turn, i) =>
+    i === session.turns.length - 1 ? { ...turn, answer } : turn
+  );
+  const answered: ClarificationSession = { ...session, turns };
+  const prompt = conversationPrompt(answered);
+
+  const result = await clarifyIntent(prompt, config);
+  const partialIntent = { ...session.partialIntent, ...(result.partialIntent ?? {}) };
+
+  if (result.intent) {
+    return {
+      result: { needsClarification: false, intent: applyClarificationAnswer(result.intent, answer) },
+      session: answered,
     };
   }
+
+  const structuredPick = Boolean(answer.genres?.length || answer.energyRange || answer.targetDurationMinutes);
+  if (structuredPick || turns.length >= MAX_CLARIFY_TURNS) {
+    console.log(`[clarify] Building from the clarification dialogue after ${turns.length} turns`);
+    const intent = applyClarificationAnswer(withIntentDefaults(partialIntent, prompt), answer);
+    return { result: { needsClarification: false, intent }, session: answered };
+  }
+
+  return {
+    result: { ...result, partialIntent },
+    session: {
+      ...answered,
+      partialIntent,
+      turns: [...turns, { question: result.clarificationQuestion ?? "" }],
+    },
+  };
+}
+
+// -- Refinement ----------------------------------------------------------------
+
+// Intent fields a refinement may change -- referenceQuality and the
+// normalization report are derived, never taken from the LLM.
+const REFINABLE_FIELDS = new Set<string>([
+  "description", "genres", "subGenres", "moods", "vibeKeywords", "energyRange", "targetDurationMinutes",
+  "targetTrackCount", "artistPreferences", "excludeArtists", "eraPreference", "bpmRange", "allowedKeys",
+  "unknownTempoPolicy", "yearRange", "maxTracksPerArtist", "requiredArtists", "requiredTracks", "radioArtist",
+  "albumMode",
+]);
+
+// Intent fields that decide which artists get discovered. Changing any of them
+// means the previous build's candidate pool no longer fits.
+const DISCOVERY_FIELDS = [
+  "genres", "subGenres", "artistPreferences", "eraPreference", "requiredArtists", "requiredTracks", "radioArtist",
+] as const;
+
+function buildRefinePrompt(refinement: PlaylistRefinement): string {
+  const trackList = refinement.previousTracks
+    .map(t =>
+      `${t.docId} | ${t.Artist} - ${t.track_Title} | mood: ${t.atmos_mood ?? "?"} | ` +
+      `energy: ${t.atmos_energy ?? "?"} | vibe: ${(t.atmos_vibe ?? []).join(", ") || "?"}`
+    )
+    .join("\n");
+  // referenceQuality is derived from the original prompt, not something to refine
+  const intent = { ...refinement.previousIntent, referenceQuality: undefined };
+
+  return `You are a music curator assistant refining an existing Dolby Atmos playlist.
+
+CURRENT INTENT:
+${JSON.stringify(intent, null, 2)}
+
+CURRENT TRACKS (docId | track | features):
+${trackList}
+
+USER FOLLOW-UP:
+"${refinement.request}"
+
+TASK:
+Work out what the follow-up changes. Do NOT rewrite the intent from scratch.
+1. "changes": ONLY the intent fields that must change, with their complete new values
+   (e.g. "more energy" -> {"energyRange": [6, 9]}; "no 80s" -> {"eraPreference": "modern"};
+   "add some Sade" -> {"artistPreferences": [...existing, "Sade"]}). Use the same field
+   names and value formats as the current intent. Omit unchanged fields.
+2. "dropTrackIds": docIds of current tracks that no longer fit the follow-up
+   (e.g. "no vocals" drops vocal-led tracks; "swap out the 80s stuff" drops 80s tracks).
+   If the user wants a completely different playlist, list every docId.
+3. "rediscover": true if new artists must be found (new genre, new artists, new era),
+   false if re-selecting from similar artists is enough (energy, mood, vibe, length).
+4. "summary": one short line describing the change for the user.
+
+Return ONLY valid JSON, no markdown:
+{
+  "summary": "Raised the energy",
+  "changes": { "energyRange": [6, 9] },
+  "dropTrackIds": ["docId1"],
+  "rediscover": false
+}`;
+}
+
+/** The LLM's "changes", limited to intent fields it may refine (values are coerced on apply). */
+function intentChanges(raw: unknown): IntentDelta["changes"] {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return {};
+  return Object.fromEntries(
+    Object.entries(raw).filter(([field, value]) => REFINABLE_FIELDS.has(field) && value !== undefined)
+  );
+}
+
+/**
+ * Apply a delta to an intent. Array and scalar fields are replaced, not merged;
+ * the LLM's values are coerced like an edited intent's.
+ */
+export function applyIntentDelta(intent: PlaylistIntent, delta: IntentDelta): PlaylistIntent {
+  // coerceIntent drops the old normalization -- the report covers this refinement only
+  return coerceIntent({
+    ...intent,
+    ...delta.changes,
+    referenceQuality: intent.referenceQuality,
+  });
+}
+
+/**
+ * Turn a follow-up request into an IntentDelta against the previous intent.
+ * Returns null when every LLM provider fails -- callers keep the old playlist.
+ */
+export async function refineIntent(
+  refinement: PlaylistRefinement,
+  config: ClarifyConfig
+): Promise<IntentDelta | null> {
+  const response = await completeJSON<Partial<IntentDelta>>(
+    config.llm,
+    { prompt: buildRefinePrompt(refinement), json: true, temperature: 0.1 },
+    "refine"
+  );
+  if (!response) {
+    console.error("[clarify] All LLM providers failed to refine intent");
+    return null;
+  }
+
+  const parsed = response.data;
+  const previous = refinement.previousIntent;
+  // Explicit numbers and exclusions in the follow-up ("no Drake", "under 100 bpm") win
+  const hard = parseConstraints(refinement.request, config.artistIndex);
+  const llmChanges = intentChanges(parsed.changes);
+  const changes = { ...llmChanges, ...constraintFields(hard, { ...previous, ...llmChanges }) };
+  const knownIds = new Set(refinement.previousTracks.map(t => t.docId));
+  const dropTrackIds = (Array.isArray(parsed.dropTrackIds) ? parsed.dropTrackIds : []).filter(id => knownIds.has(id));
+
+  // Don't trust the LLM's rediscover flag alone -- a changed discovery field forces it
+  const discoveryChanged = DISCOVERY_FIELDS.some(
+    field => field in changes && JSON.stringify(changes[field]) !== JSON.stringify(previous[field])
+  );
+
+  const delta: IntentDelta = {
+    summary: typeof parsed.summary === "string" && parsed.summary.trim() ? parsed.summary.trim() : refinement.request,
+    changes,
+    dropTrackIds,
+    rediscover: Boolean(parsed.rediscover) || discoveryChanged,
+  };
+
+  console.log(
+    `[clarify] Refinement: ${delta.summary} -- changed ${Object.keys(changes).join(", ") || "nothing"}, ` +
+    `dropping ${dropTrackIds.length}/${refinement.previousTracks.length} tracks` +
+    (delta.rediscover ? ", rediscovering artists" : "")
+  );
+  return delta;
 }
@@ -0,0 +1,568 @@
+// src/pipeline/constraints.ts
+// Deterministic constraint language for prompts, and the hard filters that
+// enforce it.
+//
+// "45 minutes, 100-120 bpm in 8A-10A, no Drake, only post-2015" is parsed with regexes
+// before Clarify's LLM call, so explicit numbers and exclusions never depend on
+// the model. The parsed fields live on PlaylistIntent; DBMatcher, Curator,
+// Verifier, Assembler and Sequencer all check tracks against them.
+
+import { creditedArtists } from "../lib/artistCredits.js";
+import { resolveArtist, type ArtistIndex } from "../lib/artistIndex.js";
+import { matchKey } from "../lib/textMatch.js";
+import { resolveGenre } from "../lib/genreTaxonomy.js";
+import { camelotRange, normalizeCamelot } from "../lib/camelot.js";
+import { eraYearOf } from "../lib/releaseEra.js";
+import type { DroppedItem, PlaylistIntent, RequiredTrack, UnknownTempoPolicy, VerifiedTrack } from "../lib/types.js";
+
+/** What parseConstraints can extract from a prompt. */
+export type PromptConstraints = Partial<Pick<
+  PlaylistIntent,
+  | "targetDurationMinutes"
+  | "targetTrackCount"
+  | "bpmRange"
+  | "allowedKeys"
+  | "unknownTempoPolicy"
+  | "yearRange"
+  | "maxTracksPerArtist"
+  | "requiredArtists"
+  | "excludeArtists"
+  | "requiredTracks"
+  | "radioArtist"
+  | "albumMode"
+>>;
+
+const MIN_BPM = 40;
+const MAX_BPM = 220;
+const MIN_YEAR = 1900;
+const BPM_TOLERANCE = 5; // "around 120 bpm" -> 115-125
+
+const DEFAULT_UNKNOWN_TEMPO_POLICY: UnknownTempoPolicy = "keep";
+
+const DEFAULT_ARTIST_CAP = 3;
+const PREFERRED_ARTIST_CAP = 5;
+const RADIO_SEED_SHARE = 0.3; // an artist radio's seed artist fills ~30% of the playlist
+const AVG_TRACK_MS = 240_000; // for the planned track count when only a duration is set
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5,
+  six: 6, seven: 7, eight: 8, nine: 9, ten: 10, twenty: 20, thirty: 30,
+};
+
+// Capitalized words after "no" / "include" that are not artist names
+const NOT_ARTISTS = new Set([
+  "i", "explicit", "vocals", "vocal", "ballads", "remixes", "remix", "live",
+  "covers", "christmas", "holiday", "instrumentals", "features", "atmos",
+]);
+
+// "chill radio", "workout radio" are stations, not artists
+const NOT_RADIO_SEEDS = /\b(?:chill|mood|vibes?|workout|gym|party|study|sleep|focus|morning|night|summer|hits|top|music|talk|news)\b/i;
+
+const NUMBER = "(\\d+(?:\\.\\d+)?|a|an|one|two|three|four|five|six|seven|eight|nine|ten|twenty|thirty)";
+const YEAR = "((?:19|20)\\d{2})";
+const CAMELOT = "((?:1[0-2]|[1-9])[AB])";
+
+function toNumber(token: string): number | null {
+  const lower = token.toLowerCase();
+  if (lower in NUMBER_WORDS) return NUMBER_WORDS[lower];
+  const n = Number(lower);
+  return Number.isFinite(n) ? n : null;
+}
+
+function clamp(n: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, n));
+}
+
+function currentYear(): number {
+  return new Date().getFullYear();
+}
+
+// -- Parsing -------------------------------------------------------------------
+
+function parseDuration(prompt: string): number | null {
+  if (/\bhalf an hour\b/i.test(prompt)) return 30;
+
+  let minutes = 0;
+  const hours = prompt.match(
+    new RegExp(`\\b${NUMBER}(\\s+and\\s+a\\s+half)?[\\s-]*(?:hours?|hrs?)(\\s+and\\s+a\\s+half)?\\b`, "i")
+  );
+  if (hours) minutes += ((toNumber(hours[1]) ?? 0) + (hours[2] || hours[3] ? 0.5 : 0)) * 60;
+  const mins = prompt.match(new RegExp(`\\b${NUMBER}[\\s-]*(?:minutes?|mins?)\\b`, "i"));
+  if (mins) minutes += toNumber(mins[1]) ?? 0;
+
+  return minutes > 0 ? clamp(Math.round(minutes), 10, 300) : null;
+}
+
+function parseTrackCount(prompt: string): number | null {
+  const match = prompt.match(
+    new RegExp(`\\b${NUMBER}[\\s-]*(?:tracks?|songs?|tunes?)\\b(?!\\s*(?:per|from each|by each|from any)\\s+artist)`, "i")
+  );
+  const n = match ? toNumber(match[1]) : null;
+  // "a song by ..." is not a count
+  return n != null && n > 1 ? clamp(Math.round(n), 5, 100) : null;
+}
+
+function parseArtistCap(prompt: string): number | null {
+  const match = prompt.match(
+    new RegExp(`\\b${NUMBER}\\s*(?:tracks?|songs?)?\\s*(?:per|from each|by each|from any)\\s+artist\\b`, "i")
+  );
+  const n = match ? toNumber(match[1]) : null;
+  return n != null ? clamp(Math.round(n), 1, 10) : null;
+}
+
+function parseBpmRange(prompt: string): [number, number] | null {
+  const range =
+    prompt.match(/\b(\d{2,3})\s*(?:-|\u2013|to)\s*(\d{2,3})\s*bpm\b/i) ??
+    prompt.match(/\bbpm\s*(?:of\s*)?(\d{2,3})\s*(?:-|\u2013|to)\s*(\d{2,3})\b/i);
+  if (range) {
+    const a = clamp(Number(range[1]), MIN_BPM, MAX_BPM);
+    const b = clamp(Number(range[2]), MIN_BPM, MAX_BPM);
+    return [Math.min(a, b), Math.max(a, b)];
+  }
+
+  const bounded = prompt.match(
+    /\b(under|below|less than|slower than|max(?:imum)?|up to|over|above|more than|faster than|at least|min(?:imum)?)\s*(\d{2,3})\s*bpm\b/i
+  );
+  if (bounded) {
+    const n = clamp(Number(bounded[2]), MIN_BPM, MAX_BPM);
+    return /under|below|less|slower|max|up to/i.test(bounded[1]) ? [MIN_BPM, n] : [n, MAX_BPM];
+  }
+
+  const single = prompt.match(/\b(?:around|about|roughly|~)?\s*(\d{2,3})\s*bpm\b/i);
+  if (single) {
+    const n = clamp(Number(single[1]), MIN_BPM, MAX_BPM);
+    return [Math.max(MIN_BPM, n - BPM_TOLERANCE), Math.min(MAX_BPM, n + BPM_TOLERANCE)];
+  }
+  return null;
+}
+
+/** Camelot keys: "within 8A-10A", "keys 8A, 9A or 4B", "in 8A". */
+function parseAllowedKeys(prompt: string): string[] | null {
+  const keys = new Set<string>();
+  const rangePattern = new RegExp(`\\b${CAMELOT}\\s*(?:-|\\u2013|to|through)\\s*${CAMELOT}\\b`, "gi");
+  for (const range of prompt.matchAll(rangePattern)) {
+    for (const key of camelotRange(range[1], range[2])) keys.add(key);
+  }
+  const listPattern = new RegExp(
+    `\\b(?:keys?|camelot|in)\\s+(${CAMELOT.slice(1, -1)}(?:\\s*(?:,|\\/|or|and)\\s*${CAMELOT.slice(1, -1)})*)\\b(?!\\s*(?:-|\\u2013|to|through)\\s*\\d)`,
+    "gi"
+  );
+  for (const list of prompt.matchAll(listPattern)) {
+    for (const token of list[1].match(new RegExp(CAMELOT, "gi")) ?? []) {
+      const key = normalizeCamelot(token);
+      if (key) keys.add(key);
+    }
+  }
+  return keys.size > 0 ? [...keys] : null;
+}
+
+/** "strict bpm", "strictly 8A-10A", "only tracks with a known tempo" -> drop unknowns. */
+function parseUnknownTempoPolicy(prompt: string): UnknownTempoPolicy | null {
+  if (/\bstrict(?:ly)?\b/i.test(prompt)) return "drop";
+  if (/\bonly\b[^.;!?]*\bknown\s+(?:bpm|tempo|key)/i.test(prompt)) return "drop";
+  return null;
+}
+
+/** "Bonobo radio", "make me a Bonobo radio station", "radio based on Bonobo". */
+function parseRadioArtist(prompt: string): string | null {
+  // A bare "<artist> radio" prompt may be typed in lowercase
+  const bare = prompt.trim().match(/^(.{2,60}?)\s+radio(?:\s+station)?[.!]?$/i);
+  if (bare && !/\b(?:a|an|my)\s/i.test(bare[1]) && bare[1].split(/\s+/).length <= 5) {
+    const name = bare[1].trim();
+    if (resolveGenre(name) || NOT_RADIO_SEEDS.test(name)) return null;
+    // The DB's Artist field is capitalized; "radiohead" would miss an exact match
+    return name === name.toLowerCase() ? name.replace(/\b\w/g, c => c.toUpperCase()) : name;
+  }
+  const after = prompt.match(/\bradio\s+(?:for|from|of|based on|like|around|built around)\s+(.+)/i);
+  if (after) return leadingName(after[1]);
+  const before = prompt.match(/\b(?:a|an|my)\s+(.+?)\s+radio\b/i);
+  return before ? leadingName(before[1]) : null;
+}
+
+/** "full albums", "whole albums", "the best Atmos albums for prog rock", "album mode". */
+function parseAlbumMode(prompt: string): boolean {
+  return /\b(?:full|whole|complete|entire)\s+(?:\w+\s+)?albums?\b/i.test(prompt) ||
+    /\b(?:best|top|greatest|essential)\s+(?:\w+\s+){0,2}albums\b/i.test(prompt) ||
+    /\balbum[\s-]+mode\b/i.test(prompt);
+}
+
+function parseYearRange(prompt: string): [number, number] | null {
+  const now = currentYear();
+  const range =
+    prompt.match(new RegExp(`\\b${YEAR}\\s*(?:-|\\u2013|to|through|until)\\s*${YEAR}\\b`, "i")) ??
+    prompt.match(new RegExp(`\\bbetween\\s+${YEAR}\\s+and\\s+${YEAR}\\b`, "i"));
+  if (range) {
+    const a = Number(range[1]);
+    const b = Number(range[2]);
+    return [Math.min(a, b), Math.max(a, b)];
+  }
+
+  const after = prompt.match(new RegExp(`\\b(post|after|newer than)[\\s-]*${YEAR}\\b`, "i"));
+  if (after) return [Number(after[2]) + 1, now];
+  const since =
+    prompt.match(new RegExp(`\\b(?:since|from)\\s+${YEAR}(?:\\s+on(?:wards?)?)?\\b`, "i")) ??
+    prompt.match(new RegExp(`\\b${YEAR}\\s*(?:\\+|on(?:wards?)?\\b|and (?:later|newer|up)\\b)`, "i"));
+  if (since) return [Number(since[1]), now];
+  const before = prompt.match(new RegExp(`\\b(?:pre|before|older than)[\\s-]*${YEAR}\\b`, "i"));
+  if (before) return [MIN_YEAR, Number(before[1]) - 1];
+  return null;
+}
+
+/**
+ * Leading run of capitalized words in `text`, or null if it doesn't start with
+ * an artist-like name ("The Weeknd" and "Florence and the Machine" survive).
+ */
+function leadingName(text: string): string | null {
+  const match = text.trim().match(
+    /^([A-Z0-9$][^\s,;!?]*(?:\s+(?:(?:&|and|of|the|de|la|y)\s+)*[A-Z0-9$][^\s,;!?]*)*)/
+  );
+  if (!match) return null;
+  // Keep inner dots ("B.I.G.") but not a sentence-ending one
+  const name = match[1].replace(/\s+(?:&|and|of|the)$/i, "").replace(/(\w{2,})\.$/, "$1");
+  if (NOT_ARTISTS.has(name.toLowerCase()) || resolveGenre(name)) return null;
+  return name;
+}
+
+/** The list after each keyword match, one entry per item, up to a sentence break. */
+function listsAfter(prompt: string, keywords: RegExp): string[][] {
+  return [...prompt.matchAll(keywords)].map(match => {
+    const clause = prompt.slice((match.index ?? 0) + match[0].length).split(/[.;!?](?=\s|$)|\bbut\b/)[0];
+    // "and" only separates items when a capitalized word follows ("Nas and A Tribe
+    // Called Quest", but not "Florence and the Machine")
+    return clause.split(/,|\s+(?:or|nor)\s+|\s+and\s+(?=[A-Z])/);
+  });
+}
+
+/** Artist names listed after a keyword: "no Drake or Future", "without Coldplay, U2". */
+function namesAfter(prompt: string, keywords: RegExp): string[] {
+  let names: string[] = [];
+  for (const pieces of listsAfter(prompt, keywords)) {
+    for (const piece of pieces) {
+      if (/^\s*["\u201C]/.test(piece)) break; // a quoted title, not an artist
+      const name = leadingName(piece);
+      if (!name) break;
+      names = unionBy(names, [name], matchKey);
+    }
+  }
+  return names;
+}
+
+/**
+ * What an include list asks for: "<Song> by <Artist>" items are required
+ * tracks; a bare name is a required artist only if it resolves in the artist
+ * index -- "must include Hotel California" names a song, not an artist.
+ */
+function includesAfter(
+  prompt: string,
+  keywords: RegExp,
+  index: ArtistIndex | null | undefined
+): { artists: string[]; tracks: RequiredTrack[] } {
+  let artists: string[] = [];
+  const tracks: RequiredTrack[] = [];
+  for (const pieces of listsAfter(prompt, keywords)) {
+    for (const piece of pieces) {
+      if (/^\s*["\u201C]/.test(piece)) break; // quoted titles are parseRequiredTracks'
+      const byArtist = piece.match(/^\s*([A-Z0-9][^"\u201C]{0,99}?)\s+by\s+(.+)$/);
+      const artist = byArtist ? leadingName(byArtist[2]) : null;
+      if (byArtist && artist) {
+        tracks.push({ title: byArtist[1].trim(), artist });
+        continue;
+      }
+      const name = leadingName(piece);
+      if (!name) break;
+      if (index && resolveArtist(index, name).names.length > 0) artists = unionBy(artists, [name], matchKey);
+    }
+  }
+  return { artists, tracks };
+}
+
+function parseRequiredTracks(prompt: string): RequiredTrack[] {
+  const tracks: RequiredTrack[] = [];
+  const quoted = /["\u201C]([^"\u201C\u201D]{1,100})["\u201D](?:\s+by\s+([^,;.!?]+))?/g;
+  for (const match of prompt.matchAll(quoted)) {
+    const artist = match[2] ? leadingName(match[2]) : null;
+    const before = prompt.slice(Math.max(0, (match.index ?? 0) - 30), match.index);
+    // Quoted text is only a song request with "by Artist" or an include keyword in front
+    if (!artist && !/\b(include|including|add|must have|need|with|play)\b[^"\u201C]*$/i.test(before)) continue;
+    tracks.push({ title: match[1].trim(), artist });
+  }
+  return tracks;
+}
+
+/**
+ * Extract hard constraints from a free-text prompt. Deterministic -- runs
+ * before the Clarify LLM, and its values win over the LLM's reading. Without
+ * an artist index, bare names after "include" are not taken as artists.
+ */
+export function parseConstraints(prompt: string, artistIndex?: ArtistIndex | null): PromptConstraints {
+  const constraints: PromptConstraints = {};
+
+  const duration = parseDuration(prompt);
+  if (duration != null) constraints.targetDurationMinutes = duration;
+  const count = parseTrackCount(prompt);
+  if (count != null) constraints.targetTrackCount = count;
+  const cap = parseArtistCap(prompt);
+  if (cap != null) constraints.maxTracksPerArtist = cap;
+  const bpmRange = parseBpmRange(prompt);
+  if (bpmRange) constraints.bpmRange = bpmRange;
+  const allowedKeys = parseAllowedKeys(prompt);
+  if (allowedKeys) constraints.allowedKeys = allowedKeys;
+  // A strictness word only means something next to a tempo or key limit
+  const policy = bpmRange || allowedKeys ? parseUnknownTempoPolicy(prompt) : null;
+  if (policy) constraints.unknownTempoPolicy = policy;
+  const yearRange = parseYearRange(prompt);
+  if (yearRange) constraints.yearRange = yearRange;
+
+  // Lowercase keywords only: a capitalized "No" / "Not" opens a name ("No Doubt",
+  // "No Woman No Cry", "Not Fade Away"), never an exclusion
+  const excludeArtists = namesAfter(prompt, /\b(?:no|not|without|except|excluding|exclude|minus|skip|avoid)\s+/g);
+  if (excludeArtists.length > 0) constraints.excludeArtists = excludeArtists;
+  const includes = includesAfter(
+    prompt,
+    /\b(?:must include|must have|include|including|with some|plus some|add some)\s+/gi,
+    artistIndex
+  );
+  const requiredArtists = includes.artists.filter(a => !excludeArtists.includes(a));
+  if (requiredArtists.length > 0) constraints.requiredArtists = requiredArtists;
+  const requiredTracks = unionBy(parseRequiredTracks(prompt), includes.tracks, t => matchKey(t.title));
+  if (requiredTracks.length > 0) constraints.requiredTracks = requiredTracks;
+  if (parseAlbumMode(prompt)) constraints.albumMode = true;
+  const radioArtist = parseRadioArtist(prompt);
+  if (radioArtist && !excludeArtists.some(a => sameArtist(a, radioArtist))) {
+    constraints.radioArtist = radioArtist;
+    // The seed artist is a must, and the one discovery looks for similar artists to
+    constraints.requiredArtists = unionBy(constraints.requiredArtists, [radioArtist], matchKey);
+  }
+
+  const found = describeConstraints(constraints);
+  if (found.length > 0) console.log(`[constraints] Parsed: ${found.join("; ")}`);
+  return constraints;
+}
+
+function unionBy<T>(a: T[] | undefined, b: T[] | undefined, key: (item: T) => string): T[] {
+  const seen = new Set<string>();
+  return [...(a ?? []), ...(b ?? [])].filter(item => {
+    const k = key(item);
+    if (seen.has(k)) return false;
+    seen.add(k);
+    return true;
+  });
+}
+
+/**
+ * The intent fields `constraints` sets, merged over `base`: numbers and ranges
+ * replace, artist and track lists accumulate.
+ */
+export function constraintFields(
+  constraints: PromptConstraints,
+  base: Partial<PlaylistIntent>
+): Partial<PlaylistIntent> {
+  const fields: Partial<PlaylistIntent> = {};
+  if (constraints.targetDurationMinutes != null) fields.targetDurationMinutes = constraints.targetDurationMinutes;
+  if (constraints.targetTrackCount != null) fields.targetTrackCount = constraints.targetTrackCount;
+  if (constraints.maxTracksPerArtist != null) fields.maxTracksPerArtist = constraints.maxTracksPerArtist;
+  if (constraints.bpmRange) fields.bpmRange = constraints.bpmRange;
+  if (constraints.allowedKeys) fields.allowedKeys = constraints.allowedKeys;
+  if (constraints.unknownTempoPolicy) fields.unknownTempoPolicy = constraints.unknownTempoPolicy;
+  if (constraints.yearRange) fields.yearRange = constraints.yearRange;
+  if (constraints.excludeArtists) {
+    fields.excludeArtists = unionBy(base.excludeArtists, constraints.excludeArtists, matchKey);
+  }
+  if (constraints.requiredArtists) {
+    fields.requiredArtists = unionBy(base.requiredArtists, constraints.requiredArtists, matchKey);
+  }
+  if (constraints.requiredTracks) {
+    fields.requiredTracks = unionBy(base.requiredTracks, constraints.requiredTracks, t => matchKey(t.title));
+  }
+  if (constraints.albumMode) fields.albumMode = true;
+  if (constraints.radioArtist) {
+    fields.radioArtist = constraints.radioArtist;
+    fields.artistPreferences = unionBy([constraints.radioArtist], base.artistPreferences, matchKey);
+  }
+  return fields;
+}
+
+/** One human-readable line per hard constraint (prompts, trace notes, logs). */
+export function describeConstraints(c: PromptConstraints): string[] {
+  const lines: string[] = [];
+  if (c.radioArtist) lines.push(`artist radio around ${c.radioArtist}`);
+  if (c.albumMode) lines.push("full albums, in album order");
+  if (c.targetDurationMinutes != null) lines.push(`${c.targetDurationMinutes} minutes`);
+  if (c.targetTrackCount != null) lines.push(`${c.targetTrackCount} tracks`);
+  if (c.bpmRange) lines.push(`${c.bpmRange[0]}-${c.bpmRange[1]} BPM`);
+  if (c.allowedKeys?.length) lines.push(`keys ${c.allowedKeys.join(", ")}`);
+  if (c.unknownTempoPolicy && c.unknownTempoPolicy !== DEFAULT_UNKNOWN_TEMPO_POLICY) {
+    lines.push(c.unknownTempoPolicy === "drop" ? "no tracks without a BPM/key estimate" : "unknown BPM/key last");
+  }
+  if (c.yearRange) lines.push(`released ${c.yearRange[0]}-${c.yearRange[1]}`);
+  if (c.maxTracksPerArtist != null) lines.push(`max ${c.maxTracksPerArtist} per artist`);
+  if (c.requiredArtists?.length) lines.push(`must include ${c.requiredArtists.join(", ")}`);
+  if (c.excludeArtists?.length) lines.push(`never ${c.excludeArtists.join(", ")}`);
+  if (c.requiredTracks?.length) {
+    lines.push(`required: ${c.requiredTracks.map(t => t.artist ? `"${t.title}" by ${t.artist}` : `"${t.title}"`).join(", ")}`);
+  }
+  return lines;
+}
+
+/** describeConstraints for just the filter fields of an intent (not duration/count). */
+export function describeHardConstraints(intent: PlaylistIntent): string[] {
+  return describeConstraints({
+    bpmRange: intent.bpmRange,
+    allowedKeys: intent.allowedKeys,
+    unknownTempoPolicy: intent.bpmRange || intent.allowedKeys?.length ? intent.unknownTempoPolicy : undefined,
+    yearRange: intent.yearRange,
+    maxTracksPerArtist: intent.maxTracksPerArtist,
+    requiredArtists: intent.requiredArtists,
+    requiredTracks: intent.requiredTracks,
+    radioArtist: intent.radioArtist,
+    albumMode: intent.albumMode,
+  });
+}
+
+// -- Enforcement ---------------------------------------------------------------
+
+/** Track fields the hard filters look at (candidates, draft and verified tracks). */
+export type ConstrainedTrack = Pick<
+  VerifiedTrack,
+  "Artist" | "track_Title" | "atmos_tempo_estimate" | "atmos_key_estimate" | "releaseYear" | "originalYear" | "remixYear"
+>;
+
+function sameArtist(a: string, b: string): boolean {
+  return matchKey(a) === matchKey(b);
+}
+
+/** True if this track is one the user named ("must include ..."). */
+export function isRequiredTrack(track: ConstrainedTrack, intent: PlaylistIntent): boolean {
+  return (intent.requiredTracks ?? []).some(req =>
+    matchKey(req.title) === matchKey(track.track_Title) &&
+    (!req.artist || sameArtist(req.artist, track.Artist))
+  );
+}
+
+/**
+ * The tempo/key estimates `track` is missing that the intent's BPM window or
+ * key set needs ("BPM", "key"), empty if it has them or no such limit is set.
+ */
+function missingEstimates(track: ConstrainedTrack, intent: PlaylistIntent): string[] {
+  const missing: string[] = [];
+  if (intent.bpmRange && track.atmos_tempo_estimate == null) missing.push("BPM");
+  if (intent.allowedKeys?.length && !normalizeCamelot(track.atmos_key_estimate)) missing.push("key");
+  return missing;
+}
+
+function unknownTempoPolicy(intent: PlaylistIntent): UnknownTempoPolicy {
+  return intent.unknownTempoPolicy ?? DEFAULT_UNKNOWN_TEMPO_POLICY;
+}
+
+/**
+ * Why `track` breaks a hard constraint, or null if it passes. The year checked
+ * is the original release year (a 2021 Atmos remix of a 1975 song is 1975); a
+ * missing or unknown year passes. A missing BPM or key estimate fails only under the "drop"
+ * unknown-tempo policy, and never while `pendingEnrichment` (DBMatcher runs
+ * before the enricher has estimated anything). A required track only fails on
+ * an excluded artist.
+ */
+export function violatedConstraint(
+  track: ConstrainedTrack,
+  intent: PlaylistIntent,
+  options: { pendingEnrichment?: boolean } = {}
+): string | null {
+  const credited = creditedArtists(track.Artist);
+  if (intent.excludeArtists.some(a => sameArtist(a, track.Artist) || credited.some(c => sameArtist(a, c)))) {
+    return "Excluded artist";
+  }
+  if (isRequiredTrack(track, intent)) return null;
+
+  const bpm = track.atmos_tempo_estimate;
+  if (intent.bpmRange && bpm != null && (bpm < intent.bpmRange[0] || bpm > intent.bpmRange[1])) {
+    return `${Math.round(bpm)} BPM is outside ${intent.bpmRange[0]}-${intent.bpmRange[1]}`;
+  }
+  const key = normalizeCamelot(track.atmos_key_estimate);
+  if (intent.allowedKeys?.length && key && !intent.allowedKeys.includes(key)) {
+    return `Key ${key} is outside ${intent.allowedKeys.join(", ")}`;
+  }
+  if (!options.pendingEnrichment && unknownTempoPolicy(intent) === "drop") {
+    const missing = missingEstimates(track, intent);
+    if (missing.length > 0) return `No ${missing.join("/")} estimate (strict tempo/key limit)`;
+  }
+  const year = eraYearOf(track);
+  if (intent.yearRange && year != null && (year < intent.yearRange[0] || year > intent.yearRange[1])) {
+    return `Released ${year}, outside ${intent.yearRange[0]}-${intent.yearRange[1]}`;
+  }
+  return null;
+}
+
+/**
+ * Split `tracks` into those that pass the hard constraints and the drops, with
+ * reasons -- the post-enrichment filter, once tempo and key estimates exist.
+ */
+export function applyHardConstraints<T extends ConstrainedTrack & { docId: string }>(
+  tracks: T[],
+  intent: PlaylistIntent
+): { kept: T[]; dropped: DroppedItem[] } {
+  const kept: T[] = [];
+  const dropped: DroppedItem[] = [];
+  for (const track of tracks) {
+    const reason = violatedConstraint(track, intent);
+    if (reason) dropped.push({ label: `${track.Artist} - ${track.track_Title}`, reason, docId: track.docId });
+    else kept.push(track);
+  }
+  return { kept, dropped };
+}
+
+/**
+ * Under the "deprioritize" unknown-tempo policy, move tracks missing a BPM/key
+ * estimate the intent needs behind every track known to fit (stable otherwise).
+ * Any other policy returns `tracks` unchanged.
+ */
+export function rankByTempoFit<T extends ConstrainedTrack>(tracks: T[], intent: PlaylistIntent): T[] {
+  if (unknownTempoPolicy(intent) !== "deprioritize") return tracks;
+  const known = tracks.filter(t => missingEstimates(t, intent).length === 0);
+  if (known.length === tracks.length) return tracks;
+  return [...known, ...tracks.filter(t => missingEstimates(t, intent).length > 0)];
+}
+
+/** True if `artist` is the seed of an artist radio intent. */
+export function isRadioArtist(artist: string, intent: PlaylistIntent): boolean {
+  return !!intent.radioArtist && sameArtist(intent.radioArtist, artist);
+}
+
+/** How many tracks an artist radio's seed artist gets: a share of the planned playlist. */
+export function radioQuota(intent: PlaylistIntent): number {
+  const planned = intent.targetTrackCount
+    ?? Math.max(10, Math.round(intent.targetDurationMinutes * 60_000 / AVG_TRACK_MS));
+  return Math.max(PREFERRED_ARTIST_CAP, Math.round(planned * RADIO_SEED_SHARE));
+}
+
+/**
+ * Max tracks per artist: the user's explicit cap, else the radio seed's quota,
+ * else more room for preferred artists.
+ */
+export function artistCap(artist: string, intent: PlaylistIntent): number {
+  if (intent.maxTracksPerArtist != null) return intent.maxTracksPerArtist;
+  if (isRadioArtist(artist, intent)) return radioQuota(intent);
+  return intent.artistPreferences.some(a => sameArtist(a, artist)) ? PREFERRED_ARTIST_CAP : DEFAULT_ARTIST_CAP;
+}
+
+/** Required artists and tracks that `tracks` doesn't cover yet. */
+export function missingRequirements(
+  tracks: ConstrainedTrack[],
+  intent: PlaylistIntent
+): { artists: string[]; tracks: RequiredTrack[] } {
+  return {
+    artists: (intent.requiredArtists ?? []).filter(a => !tracks.some(t => sameArtist(a, t.Artist))),
+    tracks: (intent.requiredTracks ?? []).filter(req =>
+      !tracks.some(t => isRequiredTrack(t, { ...intent, requiredTracks: [req] }))
+    ),
+  };
+}
+
+/** True if `track` would fill one of the `missing` requirements. */
+export function fillsRequirement(
+  track: ConstrainedTrack,
+  missing: { artists: string[]; tracks: RequiredTrack[] },
+  intent: PlaylistIntent
+): boolean {
+  return missing.artists.some(a => sameArtist(a, track.Artist)) ||
+    isRequiredTrack(track, { ...intent, requiredTracks: missing.tracks });
+}
@@ -1,25 +1,35 @@
 // src/pipeline/curator.ts
 // Stage 5: AI-powered playlist selection and sequencing.
 //
-// Gemini 3.1 Flash Lite takes the enriched candidate pool and selects
-// the best tracks, ordering them for mood arc and energy flow coherence.
+// The curation LLM chain (Gemini 3.1 Flash Lite by default) takes the enriched
+// candidate pool and selects the best tracks, ordering them for mood arc and
+// energy flow coherence.
 
-import { GoogleGenerativeAI } from "@google/generative-ai";
 import type { TrackCandidate, PlaylistIntent, PlaylistDraft, PlaylistDraftTrack } from "../lib/types.js";
 import { getBpmRange, buildCrossPollinationContext, buildTaxonomyPromptContext } from "../lib/genreTaxonomy.js";
-import { extractJSON } from "./perplexity.js";
-
-const GEMINI_MODEL = "gemini-3.1-flash-lite-preview";
-// Max candidates to send to Gemini in a single prompt (token budget)
+import { completeJSON, type LlmProvider } from "../lib/llm.js";
+import { creditedArtists } from "../lib/artistCredits.js";
+import { artistKey } from "../lib/artistIndex.js";
+import {
+  artistCap,
+  describeHardConstraints,
+  fillsRequirement,
+  isRequiredTrack,
+  missingRequirements,
+  rankByTempoFit,
+  violatedConstraint,
+} from "./constraints.js";
+
+// Max candidates to send to the LLM in a single prompt (token budget)
 const MAX_CANDIDATES_IN_PROMPT = 200;
 // Default duration estimate for tracks without am_duration_ms (4 minutes)
 const DEFAULT_DURATION_MS = 240_000;
 
 interface CuratorConfig {
-  geminiApiKey: string;
+  llm: LlmProvider[];
 }
 
-interface GeminiTrackSelection {
+interface LlmTrackSelection {
   docId: string;
   selectionRationale: string;
   position: number;
@@ -48,9 +58,9 @@ function buildCuratorPrompt(
   targetTrackCount: number,
   targetDurationMs: number
 ): string {
-  const bpmRange = intent.genres.length > 0
+  const bpmRange = intent.bpmRange ?? (intent.genres.length > 0
     ? getBpmRange(intent.subGenres[0] ?? intent.genres[0])
-    : [80, 140];
+    : [80, 140]);
 
   const trackList = candidates
     .slice(0, MAX_CANDIDATES_IN_PROMPT)
@@ -59,6 +69,7 @@ function buildCuratorPrompt(
 
   const crossPollinationCtx = buildCrossPollinationContext(intent.genres, intent.subGenres);
   const taxonomyCtx = buildTaxonomyPromptContext(intent.genres, intent.moods);
+  const hardConstraints = describeHardConstraints(intent);
 
   return `You are a world-class music curator and playlist editor specializing in Dolby Atmos spatial audio.
 Your job is to select and sequence the best ${targetTrackCount} tracks from the candidate pool below
@@ -75,6 +86,7 @@ Target duration: ${Math.round(targetDurationMs / 60000)} minutes
 ${intent.eraPreference ? `Era preference: ${intent.eraPreference}` : ""}
 ${intent.artistPreferences.length > 0 ? `Listener likes these artists specifically: ${intent.artistPreferences.join(", ")}` : ""}
 ${intent.excludeArtists.length > 0 ? `Exclude these artists: ${intent.excludeArtists.join(", ")}` : ""}
+${hardConstraints.length > 0 ? `HARD CONSTRAINTS (the pool is already filtered to them; required tracks/artists MUST be selected): ${hardConstraints.join("; ")}` : ""}
 
 ${taxonomyCtx}
 ${crossPollinationCtx}
@@ -93,7 +105,12 @@ SELECTION CRITERIA (in order of priority):
 5. CREATIVE GENRE PAIRING -- You may include 1-2 tracks from closely adjacent genres for variety,
    but ONLY if the artist has clear stylistic overlap with the requested genre.
    For example: a Yacht Rock playlist could include 1 soft AOR or West Coast jazz-fusion track, but NOT EDM or K-pop.
-6. ARTIST DIVERSITY -- Max 2-3 tracks per artist (unless listener specifically requested an artist)
+6. ARTIST DIVERSITY -- ${intent.radioArtist
+    ? `This is an artist radio for ${intent.radioArtist}: include up to ${artistCap(intent.radioArtist, intent)} ${intent.radioArtist} tracks; ` +
+      "fill the rest with the artists that sound most like them, 2-3 tracks each"
+    : intent.maxTracksPerArtist != null
+      ? `Max ${intent.maxTracksPerArtist} tracks per artist (hard limit set by the listener)`
+      : "Max 2-3 tracks per artist (unless listener specifically requested an artist)"}
 7. DURATION -- Target ${Math.round(targetDurationMs / 60000)} minutes total (use ~4:00 estimate for tracks without duration)
 8. RELEVANCE -- Prefer tracks from higher-relevance artists (relevance field closer to 1.0)
 9. BPM COHERENCE -- Expected BPM range for this genre: ${bpmRange[0]}-${bpmRange[1]} BPM.
@@ -132,46 +149,27 @@ Return ONLY valid JSON, no markdown:
 }
 
 /**
- * Select and sequence tracks using Gemini.
+ * Select and sequence tracks using the curation LLM chain.
  */
-async function curatWithGemini(
+async function curateWithLlm(
   prompt: string,
-  apiKey: string
-): Promise<GeminiTrackSelection[] | null> {
-  try {
-    const genAI = new GoogleGenerativeAI(apiKey);
-    const model = genAI.getGenerativeModel({
-      model: GEMINI_MODEL,
-      generationConfig: {
-        responseMimeType: "application/json",
-        temperature: 0.3,
-        maxOutputTokens: 32768,
-      },
-    });
-
-    const result = await model.generateContent(prompt);
-    const text = result.response.text();
-
-    // responseMimeType:"application/json" means text should be valid JSON directly
-    let parsed: { playlist: GeminiTrackSelection[] } | null = null;
-    try {
-      parsed = JSON.parse(text) as { playlist: GeminiTrackSelection[] };
-    } catch (parseErr) {
-      console.warn("[curator] JSON.parse failed, trying extractJSON. text length:", text.length, "text[:500]:", text.slice(0, 500));
-      parsed = extractJSON<{ playlist: GeminiTrackSelection[] }>(text);
-    }
-    if (!parsed?.playlist) {
-      console.warn("[curator] No playlist in parsed response. Keys:", parsed ? Object.keys(parsed) : "null");
-    }
-    return parsed?.playlist ?? null;
-  } catch (err) {
-    console.error("[curator] Gemini curation failed:", err);
+  llm: LlmProvider[]
+): Promise<LlmTrackSelection[] | null> {
+  const response = await completeJSON<{ playlist: LlmTrackSelection[] }>(
+    llm,
+    { prompt, json: true, temperature: 0.3, maxOutputTokens: 32768 },
+    "curator",
+    data => Array.isArray(data.playlist)
+  );
+  if (!response) {
+    console.error("[curator] LLM curation failed");
     return null;
   }
+  return response.data.playlist;
 }
 
 /**
- * Fallback: rule-based selection when Gemini fails.
+ * Fallback: rule-based selection when LLM curation fails.
  * Sorts by relevance + quality score and enforces artist diversity.
  */
 function ruleBasedSelection(
@@ -182,49 +180,96 @@ function ruleBasedSelection(
 ): PlaylistDraftTrack[] {
   const selected: PlaylistDraftTrack[] = [];
   const artistCounts = new Map<string, number>();
-  const lowerExclude = new Set(intent.excludeArtists.map(a => a.toLowerCase()));
   let accumulatedDuration = 0;
 
-  for (const track of candidates) {
+  // Required tracks first, so the count and duration limits never squeeze them out;
+  // the rest must pass the hard filters, unknown tempo/key last when deprioritized
+  const ordered = [
+    ...candidates.filter(c => isRequiredTrack(c, intent)),
+    ...rankByTempoFit(
+      candidates.filter(c => !isRequiredTrack(c, intent) && violatedConstraint(c, intent) === null),
+      intent
+    ),
+  ];
+
+  for (const track of ordered) {
     if (selected.length >= targetCount) break;
     if (accumulatedDuration >= targetDurationMs * 1.1) break;
 
-    const artistKey = track.Artist.toLowerCase();
-    if (lowerExclude.has(artistKey)) continue;
-
-    const artistCount = artistCounts.get(artistKey) ?? 0;
-    const maxPerArtist = intent.artistPreferences.map(a => a.toLowerCase()).includes(artistKey)
-      ? 5 // more tracks for specifically requested artists
-      : 3;
-
-    if (artistCount >= maxPerArtist) continue;
+    // A collaboration counts against every credited artist, as in the Assembler
+    const credited = creditedArtists(track.Artist);
+    if (credited.some(a => (artistCounts.get(artistKey(a)) ?? 0) >= artistCap(a, intent))) continue;
 
     const durationMs = track.am_duration_ms ?? DEFAULT_DURATION_MS;
-    selected.push({
-      docId: track.docId,
-      Artist: track.Artist,
-      track_Title: track.track_Title,
-      album: track.album,
-      Apple_Music_ID: track.Apple_Music_ID,
-      Apple_Music_URL: track.Apple_Music_URL,
-      am_duration_ms: track.am_duration_ms,
-      FINAL_SCORE: track.FINAL_SCORE,
-      atmos_mood: track.atmos_mood,
-      atmos_energy: track.atmos_energy,
-      atmos_tempo_estimate: track.atmos_tempo_estimate,
-      atmos_vibe: track.atmos_vibe,
-      atmos_key_estimate: track.atmos_key_estimate,
-      selectionRationale: "Rule-based selection (AI curation unavailable)",
-      position: selected.length + 1,
-    });
-
-    artistCounts.set(artistKey, artistCount + 1);
+    selected.push(toDraftTrack(track, "Rule-based selection (AI curation unavailable)", selected.length + 1));
+
+    for (const a of credited) artistCounts.set(artistKey(a), (artistCounts.get(artistKey(a)) ?? 0) + 1);
     accumulatedDuration += durationMs;
   }
 
   return selected;
 }
 
+function toDraftTrack(track: TrackCandidate, selectionRationale: string, position: number): PlaylistDraftTrack {
+  return {
+    docId: track.docId,
+    Artist: track.Artist,
+    track_Title: track.track_Title,
+    album: track.album,
+    Apple_Music_ID: track.Apple_Music_ID,
+    Apple_Music_URL: track.Apple_Music_URL,
+    am_duration_ms: track.am_duration_ms,
+    FINAL_SCORE: track.FINAL_SCORE,
+    atmos_mood: track.atmos_mood,
+    atmos_energy: track.atmos_energy,
+    atmos_tempo_estimate: track.atmos_tempo_estimate,
+    atmos_vibe: track.atmos_vibe,
+    atmos_key_estimate: track.atmos_key_estimate,
+    selectionRationale,
+    position,
+    provenance: track.provenance,
+  };
+}
+
+/**
+ * Hold an LLM selection to the hard constraints: apply the per-artist cap and
+ * add any required track or artist the model left out (best candidate first).
+ */
+function enforceSelectionConstraints(
+  selected: PlaylistDraftTrack[],
+  candidates: TrackCandidate[],
+  intent: PlaylistIntent
+): PlaylistDraftTrack[] {
+  const artistCounts = new Map<string, number>();
+  const capped = selected.filter(track => {
+    // A collaboration counts against every credited artist; required tracks
+    // are kept over the cap but still count, as in the Assembler
+    const credited = creditedArtists(track.Artist);
+    const overCap = credited.some(a => (artistCounts.get(artistKey(a)) ?? 0) >= artistCap(a, intent));
+    if (overCap && !isRequiredTrack(track, intent)) return false;
+    for (const a of credited) artistCounts.set(artistKey(a), (artistCounts.get(artistKey(a)) ?? 0) + 1);
+    return true;
+  });
+
+  const missing = missingRequirements(capped, intent);
+  const usedIds = new Set(capped.map(t => t.docId));
+  const additions: PlaylistDraftTrack[] = [];
+  for (const candidate of candidates) {
+    if (usedIds.has(candidate.docId) || !fillsRequirement(candidate, missing, intent)) continue;
+    additions.push(toDraftTrack(candidate, "Requested by the listener", capped.length + additions.length + 1));
+    usedIds.add(candidate.docId);
+    Object.assign(missing, missingRequirements([...capped, ...additions], intent));
+  }
+
+  if (capped.length < selected.length || additions.length > 0) {
+    console.log(
+      `[curator] Hard constraints: removed ${selected.length - capped.length} over the artist cap, ` +
+      `added ${additions.length} required tracks`
+    );
+  }
+  return [...capped, ...additions];
+}
+
 export interface CuratorResult {
   draft: PlaylistDraft;
   curatedByAI: boolean;
@@ -246,12 +291,15 @@ export async function curatePlaylist(
   // Request 1.4x tracks from curator to absorb verification drops (Fix 2)
   const curatorTargetCount = Math.ceil(targetTrackCount * 1.4);
 
+  // Hard constraints are filters, not hints -- the LLM never sees a violating track
+  const allowed = candidates.filter(c => violatedConstraint(c, intent) === null);
+
   // Filter/sort unknown-mood candidates (Fix 3): prefer enriched tracks
-  const enriched = candidates.filter(c => c.atmos_mood && c.atmos_mood !== "unknown");
-  const underEnriched = candidates.filter(c => !c.atmos_mood || c.atmos_mood === "unknown");
-  const filteredCandidates = enriched.length >= targetTrackCount * 2
-    ? enriched
-    : [...enriched, ...underEnriched]; // keep under-enriched if pool too thin
+  const enriched = allowed.filter(c => c.atmos_mood && c.atmos_mood !== "unknown");
+  const underEnriched = allowed.filter(c => !c.atmos_mood || c.atmos_mood === "unknown");
+  const filteredCandidates = rankByTempoFit(enriched.length >= targetTrackCount * 2
+    ? [...enriched, ...underEnriched.filter(c => isRequiredTrack(c, intent))] // never lose a required track
+    : [...enriched, ...underEnriched], intent); // keep under-enriched if pool too thin
 
   console.log(
     `[curator] Curating ${curatorTargetCount} tracks (1.4x overshoot of ${targetTrackCount}) from ${filteredCandidates.length} candidates ` +
@@ -260,11 +308,15 @@ export async function curatePlaylist(
   );
 
   const prompt = buildCuratorPrompt(intent, filteredCandidates, curatorTargetCount, targetDurationMs);
-  const selections = await curatWithGemini(prompt, config.geminiApiKey);
+  const selections = await curateWithLlm(prompt, config.llm);
 
   if (!selections || selections.length === 0) {
-    console.warn("[curator] Gemini curation failed, using rule-based fallback");
-    const tracks = ruleBasedSelection(filteredCandidates, curatorTargetCount, targetDurationMs, intent);
+    console.warn("[curator] LLM curation failed, using rule-based fallback");
+    const tracks = enforceSelectionConstraints(
+      ruleBasedSelection(filteredCandidates, curatorTargetCount, targetDurationMs, intent),
+      filteredCandidates,
+      intent
+    );
     const selectedDocIds = new Set(tracks.map(t => t.docId));
     return {
       draft: {
@@ -284,35 +336,21 @@ export async function curatePlaylist(
     const candidate = candidateMap.get(sel.docId);
     if (!candidate || usedDocIds.has(sel.docId)) continue;
 
-    draftTracks.push({
-      docId: candidate.docId,
-      Artist: candidate.Artist,
-      track_Title: candidate.track_Title,
-      album: candidate.album,
-      Apple_Music_ID: candidate.Apple_Music_ID,
-      Apple_Music_URL: candidate.Apple_Music_URL,
-      am_duration_ms: candidate.am_duration_ms,
-      FINAL_SCORE: candidate.FINAL_SCORE,
-      atmos_mood: candidate.atmos_mood,
-      atmos_energy: candidate.atmos_energy,
-      atmos_tempo_estimate: candidate.atmos_tempo_estimate,
-      atmos_vibe: candidate.atmos_vibe,
-      atmos_key_estimate: candidate.atmos_key_estimate,
-      selectionRationale: sel.selectionRationale,
-      position: sel.position,
-    });
+    draftTracks.push(toDraftTrack(candidate, sel.selectionRationale, sel.position));
     usedDocIds.add(sel.docId);
   }
 
   // Sort by assigned position
   draftTracks.sort((a, b) => a.position - b.position);
+  const constrained = enforceSelectionConstraints(draftTracks, filteredCandidates, intent);
+  const selectedIds = new Set(constrained.map(t => t.docId));
 
-  const unusedCandidates = filteredCandidates.filter(c => !usedDocIds.has(c.docId));
+  const unusedCandidates = filteredCandidates.filter(c => !selectedIds.has(c.docId));
 
-  console.log(`[curator] Gemini selected ${draftTracks.length} tracks, ${unusedCandidates.length} unused`);
+  console.log(`[curator] LLM selected ${draftTracks.length} tracks, ${unusedCandidates.length} unused`);
 
   return {
-    draft: { tracks: draftTracks, unusedCandidates },
+    draft: { tracks: constrained, unusedCandidates },
     curatedByAI: true,
   };
 }
@@ -1,57 +1,155 @@
 // src/pipeline/dbMatcher.ts
 // Stage 3: Query the Atmos Master DB (103k tracks) by artist names.
 //
-// Uses exact match + prefix search fallback to handle artist name variants.
-// Runs queries in parallel batches to maximize throughput.
-
-import type { Firestore, Timestamp } from "firebase-admin/firestore";
-import type { DiscoveredArtists, DiscoveredArtist, TrackCandidate, PlaylistIntent } from "../lib/types.js";
+// Resolves discovered names to the DB's Artist spellings through the artist
+// index (see lib/artistIndex.ts), then fetches every resolved spelling with
+// batched `Artist in [...]` queries. Names the index can't place fall back to
+// exact match + prefix search. All queries share one bounded worker pool.
+//
+// Attribute discovery queries the taxonomy `genre_tags` array (lib/genreTags.ts)
+// with `array-contains-any`, most specific intent genres first. Similarity
+// discovery runs a nearest-neighbour query on track embeddings
+// (lib/trackEmbedding.ts) for the intent's own embedding.
+//
+// Reads go through a TrackStore: Firestore, or the in-memory catalog snapshot
+// (lib/catalogSnapshot.ts) answering the same queries without a network call.
+
+import type { AtmosQuery, AtmosStore } from "../lib/atmosDb.js";
+import type {
+  DiscoveredArtists,
+  DiscoveredArtist,
+  TrackCandidate,
+  TrackProvenance,
+  PlaylistIntent,
+} from "../lib/types.js";
 import { getReferenceArtistsForGenre } from "../lib/referenceAtmos.js";
-
-const PARALLEL_BATCH_SIZE = 10;  // Firestore parallel query limit
+import { findGenreFamily, genreTagsFor, resolveGenre } from "../lib/genreTaxonomy.js";
+import { eraFit } from "../lib/releaseEra.js";
+import { embedIntent } from "../lib/trackEmbedding.js";
+import {
+  loadArtistIndex,
+  resolveArtist,
+  type ArtistIndex,
+  type ArtistNearMiss,
+} from "../lib/artistIndex.js";
+import {
+  catalogArtistPrefix,
+  catalogNearest,
+  catalogWhereArtistIn,
+  catalogWhereEquals,
+  catalogWhereGenreTagsAny,
+  toCatalogTrack,
+  type CatalogSnapshot,
+  type CatalogTrack,
+  type NearestTrack,
+} from "../lib/catalogSnapshot.js";
+import { violatedConstraint } from "./constraints.js";
+
+const QUERY_CONCURRENCY = 10;    // simultaneous Firestore queries
+const IN_QUERY_LIMIT = 30;       // Firestore "in" filter cap
 const MAX_TRACKS_PER_ARTIST = 50; // cap per artist to avoid one artist dominating
+const ARRAY_CONTAINS_ANY_LIMIT = 30; // Firestore "array-contains-any" cap
+
+// Relevance of a genre-tag match: a named subGenre outranks a named genre,
+// which outranks a family the intent only implies
+const GENRE_TAG_RELEVANCE = { subGenre: 0.55, genre: 0.5, family: 0.4 } as const;
+type GenreTagLevel = keyof typeof GENRE_TAG_RELEVANCE;
+
+const FIND_NEAREST_LIMIT = 1000; // Firestore findNearest cap
+const MIN_SIMILARITY = 0.2;      // below this a "neighbour" shares little more than noise
+// Similarity candidates score 0.25-0.5 relevance: never above a named genre match
+const SIMILARITY_RELEVANCE_BASE = 0.25;
+const SIMILARITY_RELEVANCE_SCALE = 0.25;
 
 const MIN_QUALITY_SCORE = 5.0; // Minimum FINAL_SCORE to enter the pipeline
 const EXCLUDED_QUALITY_CLASSES = new Set(["Poor", "Harmful"]);
 
-interface FirestoreTrackDoc {
-  Artist?: string;
-  track_Title?: string;
-  album?: string;
-  am_duration_ms?: number;
-  Apple_Music_ID?: string;
-  Apple_Music_URL?: string;
-  FINAL_SCORE?: number;
-  overall_class?: string;
-  am_has_atmos?: boolean;
-  atmos_mood?: string;
-  atmos_energy?: number;
-  atmos_vibe?: string[];
-  atmos_tempo_estimate?: number;
-  atmos_key_estimate?: string;
-  am_verification_failed_at?: Timestamp;
-  [key: string]: unknown;
+const VERIFICATION_COOLDOWN_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+// -- Track store ---------------------------------------------------------------
+
+/** The queries DBMatcher runs against the tracks collection. */
+interface TrackStore {
+  whereEquals(field: "Artist" | "genre" | "atmos_mood", value: string, limit: number): Promise<CatalogTrack[]>;
+  whereArtistIn(artists: string[], limit: number): Promise<CatalogTrack[]>;
+  whereGenreTagsAny(tags: string[], limit: number): Promise<CatalogTrack[]>;
+  artistPrefix(prefix: string, limit: number): Promise<CatalogTrack[]>;
+  nearest(vector: number[], limit: number): Promise<NearestTrack[]>;
 }
 
-const VERIFICATION_COOLDOWN_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+function firestoreStore(db: AtmosStore, stats: { queries: number }): TrackStore {
+  const tracksCol = db.collection("tracks");
+  const run = async (query: AtmosQuery): Promise<CatalogTrack[]> => {
+    stats.queries++;
+    const snap = await query.get();
+    return snap.docs.map(doc => toCatalogTrack(doc.id, doc.data()));
+  };
+  return {
+    whereEquals: (field, value, limit) => run(tracksCol.where(field, "==", value).limit(limit)),
+    whereArtistIn: (artists, limit) => run(tracksCol.where("Artist", "in", artists).limit(limit)),
+    whereGenreTagsAny: (tags, limit) => run(tracksCol.where("genre_tags", "array-contains-any", tags).limit(limit)),
+    artistPrefix: (prefix, limit) =>
+      run(tracksCol.where("Artist", ">=", prefix).where("Artist", "<=", prefix + "\uf8ff").limit(limit)),
+    nearest: async (vector, limit) => {
+      stats.queries++;
+      const snap = await tracksCol.findNearest({
+        vectorField: "embedding",
+        queryVector: vector,
+        limit,
+        distanceMeasure: "COSINE",
+        distanceResultField: "embedding_distance",
+      }).get();
+      // COSINE distance is 1 - similarity
+      return snap.docs.map(doc => ({
+        track: toCatalogTrack(doc.id, doc.data()),
+        similarity: 1 - Number(doc.data().embedding_distance ?? 1),
+      }));
+    },
+  };
+}
+
+function snapshotStore(catalog: CatalogSnapshot): TrackStore {
+  return {
+    whereEquals: async (field, value, limit) => catalogWhereEquals(catalog, field, value, limit),
+    whereArtistIn: async (artists, limit) => catalogWhereArtistIn(catalog, artists, limit),
+    whereGenreTagsAny: async (tags, limit) => catalogWhereGenreTagsAny(catalog, tags, limit),
+    artistPrefix: async (prefix, limit) => catalogArtistPrefix(catalog, prefix, limit),
+    nearest: async (vector, limit) => catalogNearest(catalog, vector, limit),
+  };
+}
+
+/** The catalog snapshot's store when there is one, else Firestore's. */
+function trackStore(
+  db: AtmosStore | null,
+  catalog: CatalogSnapshot | null | undefined,
+  stats: { queries: number }
+): TrackStore {
+  if (catalog) return snapshotStore(catalog);
+  if (!db) throw new Error("[dbMatcher] Needs the Atmos DB or a catalog snapshot");
+  return firestoreStore(db, stats);
+}
 
 /**
  * Quality gate: exclude tracks with low scores or poor classification.
  * Tracks without a score are allowed through (score will be null for new/unscored tracks).
  */
-function passesQualityGate(data: FirestoreTrackDoc): boolean {
+function passesQualityGate(track: CatalogTrack): boolean {
   // Exclude tracks explicitly classified as Poor or Harmful
-  if (data.overall_class && EXCLUDED_QUALITY_CLASSES.has(data.overall_class)) return false;
+  if (track.overall_class && EXCLUDED_QUALITY_CLASSES.has(track.overall_class)) return false;
   // Exclude tracks with a FINAL_SCORE below the minimum (null = unscored, allow through)
-  if (data.FINAL_SCORE != null && data.FINAL_SCORE < MIN_QUALITY_SCORE) return false;
+  if (track.FINAL_SCORE != null && track.FINAL_SCORE < MIN_QUALITY_SCORE) return false;
   return true;
 }
 
 /** Skip tracks that recently failed Apple Music verification */
-function isRecentlyFailed(failedAt: Timestamp | undefined): boolean {
-  if (!failedAt) return false;
-  const failedMs = failedAt.toMillis();
-  return Date.now() - failedMs < VERIFICATION_COOLDOWN_MS;
+function isRecentlyFailed(failedAtMs: number | undefined): boolean {
+  if (!failedAtMs) return false;
+  return Date.now() - failedAtMs < VERIFICATION_COOLDOWN_MS;
+}
+
+/** Playable on Apple Music, not recently failed, and past the quality gate. */
+function isUsable(track: CatalogTrack): boolean {
+  return !!track.Apple_Music_ID && !isRecentlyFailed(track.verificationFailedAtMs) && passesQualityGate(track);
 }
 
 /**
@@ -65,58 +163,90 @@ function normalizeArtistName(name: string): string {
     .toLowerCase();
 }
 
+function artistProvenance(artist: DiscoveredArtist): TrackProvenance {
+  return {
+    source: "artist",
+    discoveredArtist: artist.name,
+    genreContext: artist.genreContext,
+    knownFor: artist.knownFor,
+  };
+}
+
+/**
+ * Fetch the tracks of up to IN_QUERY_LIMIT resolved DB spellings in one query
+ * and hand each track to the discovered artists that resolved to its spelling,
+ * at most MAX_TRACKS_PER_ARTIST each. If the query hits its limit, spellings
+ * that got nothing (crowded out by prolific ones) are re-queried on their own.
+ *
+ * Read cost: the query is billed for every doc it returns -- up to
+ * MAX_TRACKS_PER_ARTIST per spelling -- but Firestore can't cap per value of
+ * an `in` filter, so a prolific spelling's tracks past the per-artist cap are
+ * read and then discarded.
+ */
+async function queryResolvedBatch(
+  store: TrackStore,
+  spellings: string[],
+  owners: Map<string, DiscoveredArtist[]>,
+  tracksByArtist: Map<string, TrackCandidate[]>
+): Promise<void> {
+  const limit = spellings.length * MAX_TRACKS_PER_ARTIST;
+  const found = new Set<string>();
+  const collect = (docs: CatalogTrack[]) => {
+    for (const track of docs) {
+      found.add(track.Artist);
+      if (!isUsable(track)) continue;
+      for (const artist of owners.get(track.Artist) ?? []) {
+        const tracks = tracksByArtist.get(artist.name) ?? [];
+        if (tracks.length >= MAX_TRACKS_PER_ARTIST) continue;
+        tracks.push(docToCandidate(track, artist.relevanceScore, artist.genreContext, artistProvenance(artist)));
+        tracksByArtist.set(artist.name, tracks);
+      }
+    }
+  };
+
+  try {
+    const docs = await store.whereArtistIn(spellings, limit);
+    collect(docs);
+    if (docs.length < limit) return;
+
+    const crowdedOut = spellings.filter(s => !found.has(s));
+    console.warn(`[dbMatcher] Batch query hit its ${limit}-doc limit -- re-querying ${crowdedOut.length} spellings`);
+    for (const spelling of crowdedOut) {
+      collect(await store.whereEquals("Artist", spelling, MAX_TRACKS_PER_ARTIST));
+    }
+  } catch (err) {
+    console.warn(`[dbMatcher] Batch query failed for ${spellings.length} artist spellings:`, err);
+  }
+}
+
 /**
- * Query Firestore for tracks by a single artist name.
+ * Query tracks by a single artist name the index couldn't resolve.
  * Tries exact match first, then prefix search as fallback.
  */
 async function queryArtistTracks(
-  db: Firestore,
+  store: TrackStore,
   artistName: string,
   artistRelevance: number,
-  artistGenreContext: string
+  artistGenreContext: string,
+  provenance: TrackProvenance
 ): Promise<{ tracks: TrackCandidate[]; matched: boolean }> {
-  const tracksCol = db.collection("tracks");
-  const results: TrackCandidate[] = [];
+  const toCandidates = (docs: CatalogTrack[]) =>
+    docs.filter(isUsable).map(t => docToCandidate(t, artistRelevance, artistGenreContext, provenance));
 
   // 1. Exact match query
   try {
-    const exactSnap = await tracksCol
-      .where("Artist", "==", artistName)
-      .limit(MAX_TRACKS_PER_ARTIST)
-      .get();
-
-    if (!exactSnap.empty) {
-      for (const doc of exactSnap.docs) {
-        const data = doc.data() as FirestoreTrackDoc;
-        if (!data.Apple_Music_ID) continue;
-        if (isRecentlyFailed(data.am_verification_failed_at)) continue;
-        if (!passesQualityGate(data)) continue;
-        results.push(docToCandidate(doc.id, data, artistRelevance, artistGenreContext));
-      }
-      return { tracks: results, matched: true };
-    }
+    const exact = await store.whereEquals("Artist", artistName, MAX_TRACKS_PER_ARTIST);
+    if (exact.length > 0) return { tracks: toCandidates(exact), matched: true };
   } catch (err) {
     console.warn(`[dbMatcher] Exact query failed for "${artistName}":`, err);
   }
 
   // 2. Prefix search fallback (catches "The Rolling Stones" -> "Rolling Stones" etc.)
   try {
-    const prefix = artistName;
-    const prefixSnap = await tracksCol
-      .where("Artist", ">=", prefix)
-      .where("Artist", "<=", prefix + "\uf8ff")
-      .limit(MAX_TRACKS_PER_ARTIST)
-      .get();
-
-    if (!prefixSnap.empty) {
-      for (const doc of prefixSnap.docs) {
-        const data = doc.data() as FirestoreTrackDoc;
-        if (!data.Apple_Music_ID) continue;
-        if (isRecentlyFailed(data.am_verification_failed_at)) continue;
-        if (!passesQualityGate(data)) continue;
-        results.push(docToCandidate(doc.id, data, artistRelevance, artistGenreContext));
-      }
-      return { tracks: results, matched: results.length > 0 };
+    const prefixed = await store.artistPrefix(artistName, MAX_TRACKS_PER_ARTIST);
+    if (prefixed.length > 0) {
+      const tracks = toCandidates(prefixed);
+      return { tracks, matched: tracks.length > 0 };
     }
   } catch (err) {
     console.warn(`[dbMatcher] Prefix query failed for "${artistName}":`, err);
@@ -127,20 +257,10 @@ async function queryArtistTracks(
   if (normalized !== artistName.toLowerCase()) {
     try {
       const capitalizedNorm = normalized.charAt(0).toUpperCase() + normalized.slice(1);
-      const normSnap = await tracksCol
-        .where("Artist", "==", capitalizedNorm)
-        .limit(MAX_TRACKS_PER_ARTIST)
-        .get();
-
-      if (!normSnap.empty) {
-        for (const doc of normSnap.docs) {
-          const data = doc.data() as FirestoreTrackDoc;
-          if (!data.Apple_Music_ID) continue;
-          if (isRecentlyFailed(data.am_verification_failed_at)) continue;
-          if (!passesQualityGate(data)) continue;
-          results.push(docToCandidate(doc.id, data, artistRelevance, artistGenreContext));
-        }
-        return { tracks: results, matched: results.length > 0 };
+      const norm = await store.whereEquals("Artist", capitalizedNorm, MAX_TRACKS_PER_ARTIST);
+      if (norm.length > 0) {
+        const tracks = toCandidates(norm);
+        return { tracks, matched: tracks.length > 0 };
       }
     } catch (err) {
       console.warn(`[dbMatcher] Normalized query failed for "${artistName}":`, err);
@@ -151,29 +271,33 @@ async function queryArtistTracks(
 }
 
 function docToCandidate(
-  docId: string,
-  data: FirestoreTrackDoc,
+  track: CatalogTrack,
   artistRelevance: number,
-  artistGenreContext: string
+  artistGenreContext: string,
+  provenance: TrackProvenance
 ): TrackCandidate {
   return {
-    docId,
-    Artist: (data.Artist as string) ?? "",
-    track_Title: (data.Title as string) ?? (data.track_Title as string) ?? "",
-    album: (data.Album as string) ?? (data.album as string) ?? "",
-    am_duration_ms: (data.am_duration_ms as number | null) ?? null,
-    Apple_Music_ID: (data.Apple_Music_ID as string) ?? docId,
-    Apple_Music_URL: (data.Apple_Music_URL as string | null) ?? null,
-    FINAL_SCORE: (data.FINAL_SCORE as number | null) ?? null,
-    overall_class: (data.overall_class as string | undefined) ?? undefined,
-    am_has_atmos: (data.am_has_atmos as boolean | undefined) ?? undefined,
+    docId: track.docId,
+    Artist: track.Artist,
+    track_Title: track.track_Title,
+    album: track.album,
+    am_duration_ms: track.am_duration_ms ?? null,
+    Apple_Music_ID: track.Apple_Music_ID ?? track.docId,
+    Apple_Music_URL: track.Apple_Music_URL ?? null,
+    FINAL_SCORE: track.FINAL_SCORE ?? null,
+    overall_class: track.overall_class,
+    am_has_atmos: track.am_has_atmos,
     artistRelevance,
     artistGenreContext,
-    atmos_mood: data.atmos_mood as string | undefined,
-    atmos_energy: data.atmos_energy as number | undefined,
-    atmos_vibe: data.atmos_vibe as string[] | undefined,
-    atmos_tempo_estimate: data.atmos_tempo_estimate as number | undefined,
-    atmos_key_estimate: data.atmos_key_estimate as string | undefined,
+    atmos_mood: track.atmos_mood,
+    atmos_energy: track.atmos_energy,
+    atmos_vibe: track.atmos_vibe,
+    atmos_tempo_estimate: track.atmos_tempo_estimate,
+    atmos_key_estimate: track.atmos_key_estimate,
+    releaseYear: track.release_year,
+    originalYear: track.original_year,
+    remixYear: track.remix_year,
+    provenance: { ...provenance },
   };
 }
 
@@ -181,22 +305,59 @@ export interface DBMatchResult {
   candidates: TrackCandidate[];
   matchedArtists: string[];
   unmatchedArtists: string[];
+  nearMisses: Record<string, ArtistNearMiss[]>; // unmatched artist -> close DB spellings
   totalFound: number;
+  queries: number;                              // Firestore queries issued
+  durationMs: number;
+}
+
+/**
+ * Resolve every artist against the index up front, logging anything that
+ * wasn't an exact hit. Returns artist name -> DB spellings.
+ */
+function resolveArtists(
+  index: ArtistIndex | null,
+  artists: DiscoveredArtist[],
+  nearMisses: Record<string, ArtistNearMiss[]>
+): Map<string, string[]> {
+  const resolved = new Map<string, string[]>();
+  if (!index) return resolved;
+
+  let fuzzy = 0;
+  for (const artist of artists) {
+    const resolution = resolveArtist(index, artist.name);
+    if (resolution.names.length > 0) resolved.set(artist.name, resolution.names);
+    if (resolution.nearMisses.length > 0 && resolution.names.length === 0) {
+      nearMisses[artist.name] = resolution.nearMisses;
+    }
+    if (resolution.method && resolution.method !== "exact") {
+      fuzzy++;
+      console.log(
+        `[dbMatcher] Resolved "${artist.name}" -> ${resolution.names.map(n => `"${n}"`).join(", ")} ` +
+        `(${resolution.method}, ${resolution.confidence})`
+      );
+    }
+  }
+  console.log(`[dbMatcher] Artist index resolved ${resolved.size}/${artists.length} artists (${fuzzy} non-exact)`);
+  return resolved;
 }
 
 /**
  * Main entry point: match discovered artists to DB tracks.
- * Returns a deduplicated pool of track candidates.
+ * Returns a deduplicated pool of track candidates. With a catalog snapshot,
+ * Firestore is not queried at all and `db` may be null.
  */
 export async function matchArtistsToTracks(
-  db: Firestore,
+  db: AtmosStore | null,
   discovered: DiscoveredArtists,
-  intent?: PlaylistIntent
+  intent?: PlaylistIntent,
+  catalog?: CatalogSnapshot | null
 ): Promise<DBMatchResult> {
   const allCandidates = new Map<string, TrackCandidate>(); // docId -> candidate
   const seenAppleIds = new Map<string, string>(); // Apple_Music_ID -> docId (for cross-doc dedup)
   const matchedArtists: string[] = [];
   const unmatchedArtists: string[] = [];
+  const nearMisses: Record<string, ArtistNearMiss[]> = {};
 
   let artists = discovered.artists;
 
@@ -216,127 +377,268 @@ export async function matchArtistsToTracks(
     console.log(`[dbMatcher] Reference quality: prepended ${refAsDiscovered.length} reference artists`);
   }
 
-  console.log(`[dbMatcher] Querying ${artists.length} artists in Firestore...`);
+  // Artists the user named as required are always queried, whatever discovery found
+  if (intent) {
+    const existingNames = new Set(artists.map(a => a.name.toLowerCase()));
+    const required = [
+      ...(intent.requiredArtists ?? []),
+      ...(intent.requiredTracks ?? []).flatMap(t => (t.artist ? [t.artist] : [])),
+    ].filter((name, i, all) => !existingNames.has(name.toLowerCase()) && all.indexOf(name) === i);
+    if (required.length > 0) {
+      artists = [
+        ...required.map(name => ({ name, relevanceScore: 1.0, genreContext: "requested by listener", knownFor: "" })),
+        ...artists,
+      ];
+      console.log(`[dbMatcher] Prepended ${required.length} required artists`);
+    }
+  }
 
-  // Process in parallel batches
-  for (let i = 0; i < artists.length; i += PARALLEL_BATCH_SIZE) {
-    const batch = artists.slice(i, i + PARALLEL_BATCH_SIZE);
+  const startMs = Date.now();
+  const stats = { queries: 0 };
+  const store = trackStore(db, catalog, stats);
+  const index = catalog ? catalog.artistIndex : db && await loadArtistIndex(db);
+  const resolvedNames = resolveArtists(index, artists, nearMisses);
+
+  // -- Query plan: resolved spellings in "in" batches, the rest one by one ---
+  const owners = new Map<string, DiscoveredArtist[]>(); // DB spelling -> artists resolved to it
+  const unresolved: DiscoveredArtist[] = [];
+  for (const artist of artists) {
+    const names = resolvedNames.get(artist.name);
+    if (!names) {
+      unresolved.push(artist);
+      continue;
+    }
+    for (const name of names.slice(0, IN_QUERY_LIMIT)) owners.set(name, [...(owners.get(name) ?? []), artist]);
+  }
+  const spellings = [...owners.keys()];
+  const tracksByArtist = new Map<string, TrackCandidate[]>();
+  const jobs: (() => Promise<void>)[] = [];
+  for (let i = 0; i < spellings.length; i += IN_QUERY_LIMIT) {
+    const chunk = spellings.slice(i, i + IN_QUERY_LIMIT);
+    jobs.push(() => queryResolvedBatch(store, chunk, owners, tracksByArtist));
+  }
+  for (const artist of unresolved) {
+    jobs.push(async () => {
+      const { tracks, matched } = await queryArtistTracks(
+        store, artist.name, artist.relevanceScore, artist.genreContext, artistProvenance(artist)
+      );
+      if (matched) tracksByArtist.set(artist.name, tracks);
+    });
+  }
 
-    const batchResults = await Promise.all(
-      batch.map(artist =>
-        queryArtistTracks(db, artist.name, artist.relevanceScore, artist.genreContext)
-      )
-    );
+  console.log(
+    `[dbMatcher] Querying ${artists.length} artists: ${spellings.length} resolved spellings in ` +
+    `${jobs.length - unresolved.length} batches, ${unresolved.length} unresolved ` +
+    (catalog ? "(catalog snapshot)" : `(${QUERY_CONCURRENCY} concurrent)`)
+  );
 
-    for (let j = 0; j < batch.length; j++) {
-      const artist = batch[j];
-      const { tracks, matched } = batchResults[j];
-
-      if (matched && tracks.length > 0) {
-        matchedArtists.push(artist.name);
-        for (const track of tracks) {
-          // Deduplicate by docId and Apple Music ID
-          const existingByDocId = allCandidates.get(track.docId);
-          const existingDocIdForAppleId = seenAppleIds.get(track.Apple_Music_ID);
-
-          if (existingByDocId) {
-            // Same docId seen before -- keep higher relevance version
-            if (track.artistRelevance > existingByDocId.artistRelevance) {
-              allCandidates.set(track.docId, track);
-            }
-          } else if (existingDocIdForAppleId) {
-            // Different docId but same Apple Music ID -- keep higher relevance version
-            const existingByAppleId = allCandidates.get(existingDocIdForAppleId);
-            if (existingByAppleId && track.artistRelevance > existingByAppleId.artistRelevance) {
-              allCandidates.delete(existingDocIdForAppleId);
-              seenAppleIds.set(track.Apple_Music_ID, track.docId);
-              allCandidates.set(track.docId, track);
-            }
-          } else {
-            // New track -- add it
-            allCandidates.set(track.docId, track);
-            seenAppleIds.set(track.Apple_Music_ID, track.docId);
-          }
+  let jobIndex = 0;
+  async function runNextJob(): Promise<void> {
+    while (jobIndex < jobs.length) {
+      await jobs[jobIndex++]();
+    }
+  }
+  await Promise.all(Array.from({ length: Math.min(QUERY_CONCURRENCY, jobs.length) }, () => runNextJob()));
+
+  // Artist order decides ties, as before: earlier (required, reference) artists win
+  for (const artist of artists) {
+    const tracks = tracksByArtist.get(artist.name) ?? [];
+    if (tracks.length === 0) {
+      unmatchedArtists.push(artist.name);
+      continue;
+    }
+    matchedArtists.push(artist.name);
+    for (const track of tracks) {
+      // Deduplicate by docId and Apple Music ID
+      const existingByDocId = allCandidates.get(track.docId);
+      const existingDocIdForAppleId = seenAppleIds.get(track.Apple_Music_ID);
+
+      if (existingByDocId) {
+        // Same docId seen before -- keep higher relevance version
+        if (track.artistRelevance > existingByDocId.artistRelevance) {
+          allCandidates.set(track.docId, track);
+        }
+      } else if (existingDocIdForAppleId) {
+        // Different docId but same Apple Music ID -- keep higher relevance version
+        const existingByAppleId = allCandidates.get(existingDocIdForAppleId);
+        if (existingByAppleId && track.artistRelevance > existingByAppleId.artistRelevance) {
+          allCandidates.delete(existingDocIdForAppleId);
+          seenAppleIds.set(track.Apple_Music_ID, track.docId);
+          allCandidates.set(track.docId, track);
         }
       } else {
-        unmatchedArtists.push(artist.name);
+        // New track -- add it
+        allCandidates.set(track.docId, track);
+        seenAppleIds.set(track.Apple_Music_ID, track.docId);
       }
     }
-
-    // Brief pause between batches to avoid Firestore connection exhaustion
-    if (i + PARALLEL_BATCH_SIZE < artists.length) {
-      await new Promise(r => setTimeout(r, 100));
-    }
   }
 
-  const candidates = Array.from(allCandidates.values());
+  let candidates = Array.from(allCandidates.values());
+  if (intent) candidates = withoutViolations(candidates, intent);
 
-  // Sort: high-relevance artists first, then by FINAL_SCORE within same relevance tier
+  // Sort: high-relevance artists first, then in-era tracks, then by FINAL_SCORE within same relevance tier
+  const era = intent?.eraPreference;
   candidates.sort((a, b) => {
     if (b.artistRelevance !== a.artistRelevance) return b.artistRelevance - a.artistRelevance;
+    const eraDelta = eraFit(b, era) - eraFit(a, era);
+    if (eraDelta !== 0) return eraDelta;
     return (b.FINAL_SCORE ?? 0) - (a.FINAL_SCORE ?? 0);
   });
 
+  const durationMs = Date.now() - startMs;
   console.log(
     `[dbMatcher] Result: ${candidates.length} tracks from ${matchedArtists.length} matched artists. ` +
-    `${unmatchedArtists.length} unmatched artists.`
+    `${unmatchedArtists.length} unmatched artists. ${stats.queries} queries in ${durationMs}ms.`
   );
   if (unmatchedArtists.length > 0) {
     console.log(`[dbMatcher] Unmatched: ${unmatchedArtists.join(", ")}`);
   }
+  for (const [artist, misses] of Object.entries(nearMisses)) {
+    if (matchedArtists.includes(artist)) delete nearMisses[artist];
+    else console.log(`[dbMatcher] Near-misses for "${artist}": ${misses.map(m => `${m.name} (${m.confidence})`).join(", ")}`);
+  }
 
   return {
     candidates,
     matchedArtists,
     unmatchedArtists,
+    nearMisses,
     totalFound: candidates.length,
+    queries: stats.queries,
+    durationMs,
   };
 }
 
+/** Drop candidates that break a hard constraint (excluded artist, BPM window, known year outside yearRange). */
+function withoutViolations(candidates: TrackCandidate[], intent: PlaylistIntent): TrackCandidate[] {
+  // Nothing has a fresh tempo/key estimate yet -- the unknown-tempo policy waits for the enricher
+  const kept = candidates.filter(c => violatedConstraint(c, intent, { pendingEnrichment: true }) === null);
+  if (kept.length < candidates.length) {
+    console.log(`[dbMatcher] Hard constraints removed ${candidates.length - kept.length} candidates`);
+  }
+  return kept;
+}
+
 /**
- * Check if a track's genre aligns with the intent genres/subGenres.
- * Uses case-insensitive substring matching to catch "Yacht Rock" in "Rock / Yacht Rock".
+ * The intent's genres and subGenres as taxonomy tags, each with the level a
+ * match on it counts as. Families of named genres are added at "family" level.
  */
-function genreAligns(trackGenre: string | undefined, intent: PlaylistIntent): boolean {
-  if (!trackGenre) return false;
-  const lower = trackGenre.toLowerCase();
+function intentGenreTags(intent: PlaylistIntent): Map<string, GenreTagLevel> {
+  const tags = new Map<string, GenreTagLevel>();
+  const canonical = (names: string[] | undefined) =>
+    (names ?? []).flatMap(name => {
+      const resolved = resolveGenre(name);
+      return resolved ? [resolved.canonical] : [];
+    });
+  const subGenres = canonical(intent.subGenres);
+  const genres = canonical(intent.genres);
+
+  for (const tag of subGenres) if (!tags.has(tag)) tags.set(tag, "subGenre");
+  for (const tag of genres) if (!tags.has(tag)) tags.set(tag, "genre");
+  for (const tag of [...subGenres, ...genres]) {
+    const family = findGenreFamily(tag);
+    if (family && !tags.has(family.name)) tags.set(family.name, "family");
+  }
+  return tags;
+}
+
+/** Taxonomy tags of a track -- stored, or derived from `genre` for untagged docs. */
+function trackGenreTags(track: CatalogTrack): string[] {
+  return track.genre_tags ?? genreTagsFor(track.genre);
+}
+
+/** The most specific intent tag a track carries, if any. */
+function bestGenreTag(
+  track: CatalogTrack,
+  intentTags: Map<string, GenreTagLevel>
+): { tag: string; level: GenreTagLevel } | null {
+  let best: { tag: string; level: GenreTagLevel } | null = null;
+  for (const tag of trackGenreTags(track)) {
+    const level = intentTags.get(tag);
+    if (level && (!best || GENRE_TAG_RELEVANCE[level] > GENRE_TAG_RELEVANCE[best.level])) best = { tag, level };
+  }
+  return best;
+}
+
+/**
+ * Check if a track's genre aligns with the intent genres/subGenres: a shared
+ * taxonomy tag, else case-insensitive substring matching on the raw value
+ * (catches genres the taxonomy doesn't know).
+ */
+function genreAligns(track: CatalogTrack, intent: PlaylistIntent, intentTags: Map<string, GenreTagLevel>): boolean {
+  if (bestGenreTag(track, intentTags)) return true;
+  if (!track.genre) return false;
+  const lower = track.genre.toLowerCase();
   const allIntentGenres = [...(intent.genres ?? []), ...(intent.subGenres ?? [])];
   return allIntentGenres.some(g => lower.includes(g.toLowerCase()) || g.toLowerCase().includes(lower));
 }
 
 /**
  * Discover tracks by genre and mood attributes (supplements artist-based matching).
- * GENRE-FIRST: queries by genre first to stay on-genre, then optionally by mood
- * within genre-matched results. Tracks that don't match intent genres are excluded.
+ * GENRE-FIRST: queries by genre tags first to stay on-genre -- subGenres, then
+ * genres, then implied families, so broad families can't crowd out specific
+ * matches -- then optionally by mood within genre-matched results. Tracks that
+ * don't match intent genres are excluded.
  */
 export async function discoverTracksByAttributes(
-  db: Firestore,
+  db: AtmosStore | null,
   intent: PlaylistIntent,
-  limit: number
+  limit: number,
+  catalog?: CatalogSnapshot | null
 ): Promise<TrackCandidate[]> {
-  const tracksCol = db.collection("tracks");
+  const store = trackStore(db, catalog, { queries: 0 });
   const results = new Map<string, TrackCandidate>();
+  const intentTags = intentGenreTags(intent);
+
+  // 1. Query by genre tag FIRST (primary -- keeps results on-genre)
+  let tagged = 0;
+  for (const level of ["subGenre", "genre", "family"] as const) {
+    const tags = [...intentTags].filter(([, l]) => l === level).map(([tag]) => tag);
+    for (let i = 0; i < tags.length && results.size < limit; i += ARRAY_CONTAINS_ANY_LIMIT) {
+      const chunk = tags.slice(i, i + ARRAY_CONTAINS_ANY_LIMIT);
+      try {
+        const docs = await store.whereGenreTagsAny(
+          chunk, Math.min(limit - results.size, MAX_TRACKS_PER_ARTIST * 10)
+        );
+        tagged += docs.length;
+
+        for (const track of docs) {
+          if (results.has(track.docId)) continue;
+          if (!isUsable(track)) continue;
+          const match = bestGenreTag(track, intentTags) ?? { tag: chunk[0], level };
+          results.set(track.docId, docToCandidate(track, GENRE_TAG_RELEVANCE[match.level], `genre-match:${match.tag}`, {
+            source: "genre",
+            matchedAttribute: match.tag,
+          }));
+        }
+      } catch (err) {
+        console.warn(`[dbMatcher] Genre tag query failed for ${chunk.join(", ")}:`, err);
+      }
+    }
+  }
 
-  // 1. Query by genre FIRST (primary -- keeps results on-genre)
-  const allGenres = [...(intent.genres ?? []), ...(intent.subGenres ?? [])];
-  for (const genre of allGenres.slice(0, 4)) {
-    if (results.size >= limit) break;
-    try {
-      const snap = await tracksCol
-        .where("genre", "==", genre)
-        .limit(Math.min(limit - results.size, MAX_TRACKS_PER_ARTIST * 10))
-        .get();
-
-      for (const doc of snap.docs) {
-        if (results.has(doc.id)) continue;
-        const data = doc.data() as FirestoreTrackDoc;
-        if (!data.Apple_Music_ID) continue;
-        if (isRecentlyFailed(data.am_verification_failed_at)) continue;
-        if (!passesQualityGate(data)) continue;
-        results.set(doc.id, docToCandidate(doc.id, data, 0.5, `genre-match:${genre}`));
+  // Nothing tagged yet (refreshGenreTags hasn't run) or no taxonomy genre -- exact `genre` values
+  if (tagged === 0) {
+    const allGenres = [...(intent.genres ?? []), ...(intent.subGenres ?? [])];
+    for (const genre of allGenres.slice(0, 4)) {
+      if (results.size >= limit) break;
+      try {
+        const docs = await store.whereEquals(
+          "genre", genre, Math.min(limit - results.size, MAX_TRACKS_PER_ARTIST * 10)
+        );
+
+        for (const track of docs) {
+          if (results.has(track.docId)) continue;
+          if (!isUsable(track)) continue;
+          results.set(track.docId, docToCandidate(track, GENRE_TAG_RELEVANCE.genre, `genre-match:${genre}`, {
+            source: "genre",
+            matchedAttribute: genre,
+          }));
+        }
+      } catch (err) {
+        console.warn(`[dbMatcher] Genre query failed for "${genre}":`, err);
       }
-    } catch (err) {
-      console.warn(`[dbMatcher] Genre query failed for "${genre}":`, err);
     }
   }
 
@@ -347,20 +649,17 @@ export async function discoverTracksByAttributes(
     for (const mood of moods.slice(0, 2)) {
       if (results.size >= limit) break;
       try {
-        const snap = await tracksCol
-          .where("atmos_mood", "==", mood)
-          .limit(MAX_TRACKS_PER_ARTIST * 5)
-          .get();
-
-        for (const doc of snap.docs) {
-          if (results.has(doc.id)) continue;
-          const data = doc.data() as FirestoreTrackDoc;
-          if (!data.Apple_Music_ID) continue;
-          if (isRecentlyFailed(data.am_verification_failed_at)) continue;
-          if (!passesQualityGate(data)) continue;
+        const docs = await store.whereEquals("atmos_mood", mood, MAX_TRACKS_PER_ARTIST * 5);
+
+        for (const track of docs) {
+          if (results.has(track.docId)) continue;
+          if (!isUsable(track)) continue;
           // Genre filter: only accept mood-matched tracks if their genre aligns
-          if (!genreAligns(data.genre as string | undefined, intent)) continue;
-          results.set(doc.id, docToCandidate(doc.id, data, 0.3, `mood-match:${mood}`));
+          if (!genreAligns(track, intent, intentTags)) continue;
+          results.set(track.docId, docToCandidate(track, 0.3, `mood-match:${mood}`, {
+            source: "mood",
+            matchedAttribute: mood,
+          }));
           moodAdded++;
         }
       } catch (err) {
@@ -371,5 +670,48 @@ export async function discoverTracksByAttributes(
   }
 
   console.log(`[dbMatcher] Attribute discovery: ${results.size} tracks from genre/mood queries`);
-  return Array.from(results.values());
+  return withoutViolations(Array.from(results.values()), intent);
+}
+
+/**
+ * Discover tracks whose embedding is nearest the intent's -- the fourth
+ * candidate source after artist, genre and mood matching. Catches tracks whose
+ * mood/vibe words match the request without an exact atmos_mood or genre hit.
+ * Relevance scales with similarity. Fails soft (no results) when the query
+ * can't run, e.g. before the tracks.embedding vector index exists.
+ */
+export async function discoverTracksBySimilarity(
+  db: AtmosStore | null,
+  intent: PlaylistIntent,
+  limit: number,
+  catalog?: CatalogSnapshot | null
+): Promise<TrackCandidate[]> {
+  const store = trackStore(db, catalog, { queries: 0 });
+  const vector = embedIntent(intent);
+  if (vector.every(v => v === 0)) return [];
+
+  try {
+    // Over-fetch: unusable tracks are only dropped after the query
+    const nearest = await store.nearest(vector, Math.min(limit * 2, FIND_NEAREST_LIMIT));
+    const candidates = nearest
+      .filter(n => n.similarity >= MIN_SIMILARITY && isUsable(n.track))
+      .slice(0, limit)
+      .map(({ track, similarity }) => {
+        const rounded = Math.round(similarity * 100) / 100;
+        return docToCandidate(
+          track,
+          SIMILARITY_RELEVANCE_BASE + SIMILARITY_RELEVANCE_SCALE * rounded,
+          `similar:${rounded}`,
+          { source: "similar", similarity: rounded }
+        );
+      });
+    console.log(
+      `[dbMatcher] Similarity discovery: ${candidates.length} tracks ` +
+      `(${nearest.length} neighbours, best ${nearest[0]?.similarity.toFixed(2) ?? "n/a"})`
+    );
+    return withoutViolations(candidates, intent);
+  } catch (err) {
+    console.warn("[dbMatcher] Similarity query failed:", err);
+    return [];
+  }
 }
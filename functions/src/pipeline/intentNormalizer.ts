@@ -0,0 +1,135 @@
+// src/pipeline/intentNormalizer.ts
+// Taxonomy validation for Clarify's output (and user-edited intents).
+//
+// Every genre/subGenre is resolved to a canonical taxonomy entry (exact, alias
+// or fuzzy match -- see resolveGenre); unknown genres are kept but flagged.
+// energyRange is clamped to 1-10 with min <= max, and eraPreference must be one
+// of ALLOWED_ERAS. Everything that changed is recorded on intent.normalization.
+
+import { resolveGenre } from "../lib/genreTaxonomy.js";
+import type { IntentCorrection, IntentNormalizationReport, PlaylistIntent } from "../lib/types.js";
+
+export const ALLOWED_ERAS = [
+  "1960s", "1970s", "1980s", "1990s", "2000s", "2010s", "2020s", "classic", "modern",
+] as const;
+
+const ERA_WORDS: Record<string, string> = {
+  sixties: "1960s",
+  seventies: "1970s",
+  eighties: "1980s",
+  nineties: "1990s",
+  noughties: "2000s",
+  aughts: "2000s",
+  retro: "classic",
+  vintage: "classic",
+  oldschool: "classic",
+  oldies: "classic",
+  contemporary: "modern",
+  current: "modern",
+  recent: "modern",
+  new: "modern",
+  today: "modern",
+};
+
+function normalizeGenreList(
+  field: "genres" | "subGenres",
+  values: string[],
+  corrections: IntentCorrection[],
+  unknown: string[]
+): string[] {
+  const result: string[] = [];
+  for (const value of values) {
+    const resolved = resolveGenre(value);
+    if (!resolved) {
+      unknown.push(value);
+      if (!result.includes(value)) result.push(value);
+      continue;
+    }
+    if (resolved.canonical !== value) {
+      corrections.push({ field, from: value, to: resolved.canonical, reason: `${resolved.match} taxonomy match` });
+    }
+    if (!result.includes(resolved.canonical)) result.push(resolved.canonical);
+  }
+  return result;
+}
+
+function normalizeEnergyRange(
+  range: [number, number],
+  corrections: IntentCorrection[]
+): [number, number] {
+  const clamp = (n: number, fallback: number) =>
+    Number.isFinite(n) ? Math.min(10, Math.max(1, Math.round(n))) : fallback;
+  const low = clamp(range?.[0], 4);
+  const high = clamp(range?.[1], 7);
+  const fixed: [number, number] = [Math.min(low, high), Math.max(low, high)];
+
+  if (fixed[0] !== range?.[0] || fixed[1] !== range?.[1]) {
+    corrections.push({
+      field: "energyRange",
+      from: JSON.stringify(range ?? null),
+      to: JSON.stringify(fixed),
+      reason: "clamped to 1-10 with min <= max",
+    });
+  }
+  return fixed;
+}
+
+/** Map "90s", "late 1980's", "nineties", "retro" to an ALLOWED_ERAS value. */
+export function resolveEra(era: string): string | null {
+  const lower = era.toLowerCase().trim();
+  if ((ALLOWED_ERAS as readonly string[]).includes(lower)) return lower;
+
+  const decade = lower.match(/(?:^|\D)(19|20)?(\d)0\s*'?s\b/);
+  if (decade) {
+    const century = decade[1] ?? (Number(decade[2]) >= 6 ? "19" : "20");
+    const candidate = `${century}${decade[2]}0s`;
+    if ((ALLOWED_ERAS as readonly string[]).includes(candidate)) return candidate;
+  }
+
+  const word = lower.replace(/[^a-z]/g, "");
+  return ERA_WORDS[word] ?? null;
+}
+
+function normalizeEra(era: string | null, corrections: IntentCorrection[]): string | null {
+  if (era == null || era.trim() === "") return null;
+  const resolved = resolveEra(era);
+  if (resolved !== era) {
+    corrections.push({
+      field: "eraPreference",
+      from: era,
+      to: resolved,
+      reason: resolved ? "mapped to an allowed era" : "not an allowed era -- dropped",
+    });
+  }
+  return resolved;
+}
+
+/**
+ * Validate an intent against the taxonomy, returning the corrected intent with
+ * its report. Corrections from an earlier pass are kept; unknowns are recomputed.
+ */
+export function normalizeIntent(intent: PlaylistIntent): PlaylistIntent {
+  const previous = intent.normalization?.corrections ?? [];
+  const corrections: IntentCorrection[] = [];
+  const unknownGenres: string[] = [];
+
+  const genres = normalizeGenreList("genres", intent.genres, corrections, unknownGenres);
+  const subGenres = normalizeGenreList("subGenres", intent.subGenres, corrections, unknownGenres)
+    .filter(s => !genres.includes(s));
+  const energyRange = normalizeEnergyRange(intent.energyRange, corrections);
+  const eraPreference = normalizeEra(intent.eraPreference, corrections);
+
+  const normalization: IntentNormalizationReport = {
+    corrections: [...previous, ...corrections],
+    unknownGenres,
+  };
+  if (corrections.length > 0 || unknownGenres.length > 0) {
+    console.log(
+      `[intentNormalizer] ${corrections.length} corrections` +
+      (corrections.length > 0 ? ` (${corrections.map(c => `${c.from} -> ${c.to ?? "dropped"}`).join(", ")})` : "") +
+      (unknownGenres.length > 0 ? `; unknown genres: ${unknownGenres.join(", ")}` : "")
+    );
+  }
+
+  return { ...intent, genres, subGenres, energyRange, eraPreference, normalization };
+}
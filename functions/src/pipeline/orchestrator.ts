@@ -11,20 +11,54 @@
 //   [7] Assemble  -> gap-fill + final formatting
 //
 // Expansion loops (max 2) trigger when candidates pool is too thin.
+//
+// Refinements ("more energy", "no vocals") replace [1] with an intent delta
+// against the previous build, keep the previous tracks that still fit, and --
+// unless the delta moves genres/artists/era -- reuse the previous build's
+// candidate pool instead of re-running [2]-[4].
 
 import { getFirestore } from "firebase-admin/firestore";
 import { getAtmosDb } from "../lib/atmosDb.js";
+import { loadCatalogSnapshot, type CatalogSnapshot } from "../lib/catalogSnapshot.js";
+import { loadArtistIndex } from "../lib/artistIndex.js";
 import { generateAppleMusicToken } from "../lib/appleMusic.js";
-import { clarifyIntent } from "./clarify.js";
+import { resolveStageProviders, type LlmStageConfig } from "../lib/llm.js";
+import { createTapedFirestore, tapeStageProviders, type PipelineTape } from "../lib/tape.js";
+import { loadStageCheckpoint, saveStageCheckpoint } from "../lib/checkpointStore.js";
+import { createBuildLedger, meterStageProviders, summarizeLedger, writeBuildLedger } from "../lib/buildLedger.js";
+import { beginStage, createBuildTrace, endStage, traceCached, traceDrops, traceNote } from "../lib/buildTrace.js";
+import { applyIntentDelta, clarifyIntent, continueClarification, refineIntent } from "./clarify.js";
 import { discoverArtists, expandArtistDiscovery } from "./artistDiscovery.js";
-import { matchArtistsToTracks, discoverTracksByAttributes } from "./dbMatcher.js";
+import {
+  matchArtistsToTracks,
+  discoverTracksByAttributes,
+  discoverTracksBySimilarity,
+  type DBMatchResult,
+} from "./dbMatcher.js";
 import { expandGenreList } from "./genreMap.js";
 import { enrichTracks } from "./trackEnricher.js";
 import { scoreAndRank } from "./candidateScorer.js";
 import { curatePlaylist } from "./curator.js";
-import { verifyPlaylist } from "./verifier.js";
+import { verifyPlaylist, type VerifierResult } from "./verifier.js";
 import { assemblePlaylist } from "./assembler.js";
-import type { AtmosPlaylist, DiscoveredArtist, PlaylistIntent } from "../lib/types.js";
+import { assembleAlbumPlaylist, selectAlbumDraft } from "./albumMode.js";
+import { applyHardConstraints, describeHardConstraints, violatedConstraint } from "./constraints.js";
+import type {
+  AtmosPlaylist,
+  BuildCost,
+  BuildTrace,
+  ClarificationOptions,
+  ClarificationReply,
+  ClarificationSession,
+  DiscoveredArtist,
+  DroppedItem,
+  IntentDelta,
+  PlaylistDraft,
+  PlaylistIntent,
+  PlaylistRefinement,
+  TrackCandidate,
+  VerifiedTrack,
+} from "../lib/types.js";
 
 const MAX_EXPANSION_LOOPS = 2;
 // Minimum candidates needed before running curation (20x target for broad pool)
@@ -38,6 +72,22 @@ interface OrchestratorConfig {
   appleKeyId: string;
   applePrivateKey: string;
   jobId?: string;
+  llmStages?: LlmStageConfig; // per-stage provider overrides (defaults in lib/llm.ts)
+  tape?: PipelineTape;        // record/replay every external call (see lib/tape.ts)
+  refinement?: PlaylistRefinement; // revise a previous build instead of starting fresh
+  clarification?: ClarificationReply; // answer to an earlier clarification question
+  confirmedIntent?: PlaylistIntent;    // edited in the intent editor -- Clarify is skipped
+  useCatalogSnapshot?: boolean;        // match against the in-memory catalog (see lib/catalogSnapshot.ts)
+  catalogSnapshot?: CatalogSnapshot;   // a preloaded snapshot, e.g. an offline fixture
+}
+
+// Stage order; completedStages is always a prefix of this list
+const PIPELINE_STAGES = ["clarify", "discover", "match", "enrich", "curate", "verify", "assemble"] as const;
+type PipelineStage = typeof PIPELINE_STAGES[number];
+
+/** completedStages value once `stage` has finished. */
+function stagesThrough(stage: PipelineStage): PipelineStage[] {
+  return PIPELINE_STAGES.slice(0, PIPELINE_STAGES.indexOf(stage) + 1);
 }
 
 interface PipelineCheckpoint {
@@ -46,10 +96,52 @@ interface PipelineCheckpoint {
   updatedAt: number;
   // Saved after clarify
   intent?: PlaylistIntent;
+  refinementDelta?: IntentDelta;
   // Saved after discover
   discoveredArtists?: DiscoveredArtist[];
   searchStrategy?: string;
   completedStages?: string[];
+  // Streamed during verify so the frontend can render tracks before assembly
+  partialTracks?: VerifiedTrack[];
+  // Spend and stage trace so far, as of the last completed stage
+  cost?: BuildCost;
+  trace?: BuildTrace;
+}
+
+// Stage outputs persisted to the checkpoint subcollection (too large for the job doc)
+interface MatchCheckpoint {
+  candidates: TrackCandidate[];
+  discoveredArtists: DiscoveredArtist[]; // grows during expansion loops
+  subGenres: string[];                   // broadened during expansion loops
+}
+
+interface EnrichCheckpoint {
+  enrichedCandidates: TrackCandidate[]; // enriched top candidates + deferred tail
+  enrichedCount: number;                // sent to the enricher (capped by enrichBudget)
+  deferredCount: number;
+  freshlyEnriched: number;
+  cacheHits: number;
+}
+
+/** A previous build's match + enrich outputs, reused by refinements that keep its artists. */
+async function loadPreviousPool(
+  buildId: string
+): Promise<{ match: MatchCheckpoint; enrich: EnrichCheckpoint } | null> {
+  const [match, enrich] = await Promise.all([
+    loadStageCheckpoint<MatchCheckpoint>(buildId, "match"),
+    loadStageCheckpoint<EnrichCheckpoint>(buildId, "enrich"),
+  ]);
+  return match && enrich ? { match, enrich } : null;
+}
+
+/** Previous tracks a refinement keeps: not dropped by the delta, not breaking a hard constraint. */
+function keptAfterRefinement(
+  previousTracks: VerifiedTrack[],
+  delta: IntentDelta,
+  intent: PlaylistIntent
+): VerifiedTrack[] {
+  const dropIds = new Set(delta.dropTrackIds);
+  return previousTracks.filter(t => !dropIds.has(t.docId) && violatedConstraint(t, intent) === null);
 }
 
 /** Write pipeline stage progress to nextn Firestore for real-time frontend updates. */
@@ -89,6 +181,8 @@ export interface OrchestratorResult {
   playlist: AtmosPlaylist | null;
   needsClarification: boolean;
   clarificationQuestion?: string;
+  clarificationOptions?: ClarificationOptions;
+  clarificationSession?: ClarificationSession; // for the client to send back with its answer
   error?: string;
 }
 
@@ -109,7 +203,11 @@ export async function runPipeline(
   config: OrchestratorConfig
 ): Promise<OrchestratorResult> {
   const buildStartMs = Date.now();
-  const db = getAtmosDb();
+  const { tape } = config;
+  // Replay runs never touch the real Atmos DB (no credentials needed)
+  const db = tape
+    ? createTapedFirestore(tape.mode === "record" ? getAtmosDb() : null, tape)
+    : getAtmosDb();
 
   // Check for existing checkpoint (pipeline resume)
   let checkpoint: PipelineCheckpoint | null = null;
@@ -121,173 +219,441 @@ export async function runPipeline(
   }
   const completed = new Set(checkpoint?.completedStages ?? []);
 
+  // Spend accounting and stage trace -- both continue an earlier attempt's on resume
+  const ledger = createBuildLedger(checkpoint?.cost);
+  const trace = createBuildTrace(checkpoint?.trace);
+  const llm = meterStageProviders(
+    tapeStageProviders(
+      resolveStageProviders(
+        { geminiApiKey: config.geminiApiKey, perplexityApiKey: config.perplexityApiKey },
+        config.llmStages
+      ),
+      tape
+    ),
+    ledger
+  );
+
   // -- Stage 1: Clarify ------------------------------------------------------
+  ledger.stage = "clarify";
   let intent: PlaylistIntent;
+  let delta: IntentDelta | null = null;
   if (completed.has("clarify") && checkpoint?.intent) {
     console.log("[orchestrator] Stage 1: Clarify (cached)");
     intent = checkpoint.intent;
+    delta = checkpoint.refinementDelta ?? null;
+    traceCached(trace, "clarify");
+  } else if (config.confirmedIntent) {
+    console.log("[orchestrator] Stage 1: Clarify (confirmed intent)");
+    intent = config.confirmedIntent;
+    beginStage(trace, "clarify");
+    traceNote(trace, "clarify", `Intent confirmed in the editor: ${intent.description}`);
+    endStage(trace, "clarify");
+    await reportProgress(config.jobId, "clarify", "Using your intent...", {
+      intent,
+      completedStages: stagesThrough("clarify"),
+      trace,
+    });
+  } else if (config.refinement) {
+    console.log("[orchestrator] Stage 1: Clarify (refinement)");
+    beginStage(trace, "clarify");
+    await reportProgress(config.jobId, "clarify", "Working out what to change...");
+    delta = await refineIntent(config.refinement, { llm: llm.clarify, artistIndex: await loadArtistIndex(db) });
+    if (!delta) {
+      return {
+        playlist: null,
+        needsClarification: false,
+        error: "Couldn't work out that change right now. Try rephrasing it.",
+      };
+    }
+    intent = applyIntentDelta(config.refinement.previousIntent, delta);
+    traceNote(trace, "clarify", `Refinement: ${delta.summary}`);
+    endStage(trace, "clarify");
+    await reportProgress(config.jobId, "clarify", "Working out what to change...", {
+      intent,
+      refinementDelta: delta,
+      completedStages: stagesThrough("clarify"),
+      cost: summarizeLedger(ledger),
+      trace,
+    });
   } else {
     console.log("[orchestrator] Stage 1: Clarify");
+    beginStage(trace, "clarify");
     await reportProgress(config.jobId, "clarify", "Analyzing your request...");
-    const clarifyResult = await clarifyIntent(userPrompt, { geminiApiKey: config.geminiApiKey });
+    const clarifyConfig = { llm: llm.clarify, artistIndex: await loadArtistIndex(db) };
+    let clarifyResult;
+    let session: ClarificationSession;
+    if (config.clarification) {
+      ({ result: clarifyResult, session } = await continueClarification(
+        config.clarification.session,
+        config.clarification.answer,
+        clarifyConfig
+      ));
+    } else {
+      clarifyResult = await clarifyIntent(userPrompt, clarifyConfig);
+      session = {
+        originalPrompt: userPrompt,
+        partialIntent: clarifyResult.partialIntent ?? {},
+        turns: [{ question: clarifyResult.clarificationQuestion ?? "" }],
+      };
+    }
 
     if (clarifyResult.needsClarification || !clarifyResult.intent) {
       return {
         playlist: null,
         needsClarification: true,
         clarificationQuestion: clarifyResult.clarificationQuestion,
+        clarificationOptions: clarifyResult.clarificationOptions,
+        clarificationSession: session,
       };
     }
     intent = clarifyResult.intent;
+    if (config.clarification) {
+      traceNote(trace, "clarify", `Clarified over ${session.turns.length} turns`);
+    }
+    traceNote(trace, "clarify", `Intent: ${intent.description}`);
+    endStage(trace, "clarify");
     await reportProgress(config.jobId, "clarify", "Analyzing your request...", {
       intent,
-      completedStages: ["clarify"],
+      completedStages: stagesThrough("clarify"),
+      cost: summarizeLedger(ledger),
+      trace,
     });
   }
 
+  const hardConstraints = describeHardConstraints(intent);
+  if (hardConstraints.length > 0 && !completed.has("clarify")) {
+    traceNote(trace, "clarify", `Hard constraints: ${hardConstraints.join("; ")}`);
+  }
+
   const minCandidates = getMinCandidates(intent);
 
+  // Refinement: previous tracks that still fit, and the previous pool when the delta allows
+  const previousTracks = config.refinement?.previousTracks ?? [];
+  const keptTracks = delta ? keptAfterRefinement(previousTracks, delta, intent) : [];
+  const previousPool = delta && !delta.rediscover && config.refinement?.previousBuildId
+    ? await loadPreviousPool(config.refinement.previousBuildId)
+    : null;
+  if (delta) {
+    console.log(
+      `[orchestrator] Refinement keeps ${keptTracks.length}/${previousTracks.length} tracks, ` +
+      (previousPool ? "reusing the previous candidate pool" : "rebuilding the candidate pool")
+    );
+  }
+
   if (intent.referenceQuality) {
     console.log("[orchestrator] Reference quality mode ACTIVE");
   }
 
   const discoveryConfig = {
-    perplexityApiKey: config.perplexityApiKey,
-    geminiApiKey: config.geminiApiKey,
+    llm: llm.discovery,
+    extractionLlm: llm.extraction,
     serperApiKey: config.serperApiKey,
+    // The shared discovery cache would make recorded runs non-reproducible
+    useCache: !tape,
+    tape,
+    ledger,
   };
 
   // -- Stage 2: ArtistDiscovery ----------------------------------------------
+  ledger.stage = "discover";
   let allDiscoveredArtists: DiscoveredArtist[];
   let searchStrategy: string;
   if (completed.has("discover") && checkpoint?.discoveredArtists) {
     console.log("[orchestrator] Stage 2: ArtistDiscovery (cached)");
     allDiscoveredArtists = checkpoint.discoveredArtists;
     searchStrategy = checkpoint.searchStrategy ?? "cached";
+    traceCached(trace, "discover");
+  } else if (previousPool) {
+    console.log("[orchestrator] Stage 2: ArtistDiscovery (previous build)");
+    allDiscoveredArtists = previousPool.match.discoveredArtists;
+    searchStrategy = "refinement";
+    beginStage(trace, "discover");
+    traceNote(trace, "discover", "Reused the previous build's artists");
+    endStage(trace, "discover", { outputCount: allDiscoveredArtists.length });
   } else {
     console.log("[orchestrator] Stage 2: ArtistDiscovery");
+    beginStage(trace, "discover");
     await reportProgress(config.jobId, "discover", "Discovering artists via Perplexity...");
     const discovered = await discoverArtists(intent, discoveryConfig);
     allDiscoveredArtists = [...discovered.artists];
     searchStrategy = discovered.searchStrategy;
+    traceNote(trace, "discover", `Strategy: ${searchStrategy}`);
+    endStage(trace, "discover", { outputCount: allDiscoveredArtists.length });
     await reportProgress(config.jobId, "discover", "Discovering artists via Perplexity...", {
       discoveredArtists: allDiscoveredArtists,
       searchStrategy,
-      completedStages: ["clarify", "discover"],
+      completedStages: stagesThrough("discover"),
+      cost: summarizeLedger(ledger),
+      trace,
     });
   }
 
   // Compute target track count early (needed for attribute discovery limits)
   const targetCount = intent.targetTrackCount
     ?? Math.max(10, Math.round((intent.targetDurationMinutes * 60_000) / 240_000));
+  const enrichBudget = targetCount * 3;
 
-  // -- Stage 3: DBMatcher ----------------------------------------------------
-  console.log("[orchestrator] Stage 3: DBMatcher");
-  await reportProgress(config.jobId, "match", "Searching 100k+ Atmos tracks...");
-  let matchResult = await matchArtistsToTracks(db, { artists: allDiscoveredArtists, searchStrategy }, intent);
-  let candidates = matchResult.candidates;
-
-  // Supplement with genre/mood attribute discovery (capped to avoid off-genre flood)
-  const attrLimit = Math.max(50, targetCount * 5);
-  const dbCandidates = await discoverTracksByAttributes(db, intent, attrLimit);
-  if (dbCandidates.length > 0) {
-    console.log(`[orchestrator] Attribute discovery found ${dbCandidates.length} additional candidates (limit ${attrLimit})`);
-    candidates = mergeUnique(candidates, dbCandidates);
+  // Stage outputs from 3 on live in the checkpoint subcollection (lib/checkpointStore.ts).
+  // A stage's saved output is only reused while every earlier stage was reused too.
+  let reusingCheckpoints = completed.has("discover");
+  async function resumeStage<T>(stage: PipelineStage): Promise<T | null> {
+    if (!reusingCheckpoints || !config.jobId || !completed.has(stage)) {
+      reusingCheckpoints = false;
+      return null;
+    }
+    const saved = await loadStageCheckpoint<T>(config.jobId, stage);
+    if (!saved) reusingCheckpoints = false;
+    return saved;
+  }
+  async function completeStage(stage: PipelineStage, output: unknown, message: string): Promise<void> {
+    if (!config.jobId) return;
+    await saveStageCheckpoint(config.jobId, stage, output);
+    await reportProgress(config.jobId, stage, message, {
+      completedStages: stagesThrough(stage),
+      cost: summarizeLedger(ledger),
+      trace,
+    });
   }
 
-  // Expansion loops if candidate pool is too thin
-  let expansionLoop = 0;
-  while (candidates.length < minCandidates && expansionLoop < MAX_EXPANSION_LOOPS) {
-    expansionLoop++;
-    console.log(
-      `[orchestrator] Expansion loop ${expansionLoop}: only ${candidates.length} candidates, need ${minCandidates}. Expanding...`
-    );
+  // -- Stage 3: DBMatcher ----------------------------------------------------
+  ledger.stage = "match";
+  let candidates: TrackCandidate[];
+  // A refinement's reused pool stands in for this job's own match/enrich checkpoints
+  const savedMatch = (await resumeStage<MatchCheckpoint>("match")) ?? previousPool?.match;
+  if (savedMatch) {
+    console.log("[orchestrator] Stage 3: DBMatcher (cached)");
+    candidates = savedMatch.candidates;
+    allDiscoveredArtists = savedMatch.discoveredArtists;
+    intent.subGenres = savedMatch.subGenres;
+    traceCached(trace, "match");
+  } else {
+    console.log("[orchestrator] Stage 3: DBMatcher");
+    beginStage(trace, "match", allDiscoveredArtists.length);
+    await reportProgress(config.jobId, "match", "Searching 100k+ Atmos tracks...");
+    // Taped runs record real queries, so they never use the snapshot unless one is handed in
+    const catalog = config.catalogSnapshot
+      ?? (config.useCatalogSnapshot && !tape ? await loadCatalogSnapshot(db) : null);
+    if (catalog) {
+      traceNote(trace, "match", `Catalog snapshot: ${catalog.tracks.length} tracks, built ${new Date(catalog.builtAt).toISOString()}`);
+    }
+    const matchResult = await matchArtistsToTracks(db, { artists: allDiscoveredArtists, searchStrategy }, intent, catalog);
+    candidates = matchResult.candidates;
+    traceDrops(trace, "match", unmatchedDrops(matchResult.unmatchedArtists, matchResult.nearMisses));
+    traceNote(trace, "match", `Artist queries: ${matchResult.queries} Firestore queries in ${matchResult.durationMs}ms`);
+
+    // Supplement with genre/mood attribute discovery (capped to avoid off-genre flood)
+    const attrLimit = Math.max(50, targetCount * 5);
+    const dbCandidates = await discoverTracksByAttributes(db, intent, attrLimit, catalog);
+    if (dbCandidates.length > 0) {
+      console.log(`[orchestrator] Attribute discovery found ${dbCandidates.length} additional candidates (limit ${attrLimit})`);
+      traceNote(trace, "match", `Attribute discovery added ${dbCandidates.length} candidates (limit ${attrLimit})`);
+      candidates = mergeUnique(candidates, dbCandidates);
+    }
 
-    // Broaden genre search on each expansion
-    intent.subGenres = expandGenreList(intent.genres, intent.subGenres);
+    // Nearest neighbours of the intent's embedding -- tracks no artist, genre or mood query reaches
+    const similarLimit = Math.max(25, targetCount * 2);
+    const similarCandidates = await discoverTracksBySimilarity(db, intent, similarLimit, catalog);
+    if (similarCandidates.length > 0) {
+      const before = candidates.length;
+      candidates = mergeUnique(candidates, similarCandidates);
+      traceNote(trace, "match", `Similarity search added ${candidates.length - before} candidates (limit ${similarLimit})`);
+    }
 
-    const expanded = await expandArtistDiscovery(intent, allDiscoveredArtists, discoveryConfig, 100);
+    // Expansion loops if candidate pool is too thin
+    let expansionLoop = 0;
+    while (candidates.length < minCandidates && expansionLoop < MAX_EXPANSION_LOOPS) {
+      expansionLoop++;
+      console.log(
+        `[orchestrator] Expansion loop ${expansionLoop}: only ${candidates.length} candidates, need ${minCandidates}. Expanding...`
+      );
+
+      // Broaden genre search on each expansion
+      intent.subGenres = expandGenreList(intent.genres, intent.subGenres);
+
+      const expanded = await expandArtistDiscovery(intent, allDiscoveredArtists, discoveryConfig, 100);
+
+      if (expanded.artists.length === 0) {
+        console.log("[orchestrator] No new artists from expansion -- stopping");
+        break;
+      }
+
+      allDiscoveredArtists = [...allDiscoveredArtists, ...expanded.artists];
+      const expandMatch = await matchArtistsToTracks(
+        db, { artists: expanded.artists, searchStrategy: "expansion" }, intent, catalog
+      );
+      candidates = mergeUnique(candidates, expandMatch.candidates);
+      traceDrops(trace, "match", unmatchedDrops(expandMatch.unmatchedArtists, expandMatch.nearMisses));
+      traceNote(trace, "match", `Expansion loop ${expansionLoop}: +${expanded.artists.length} artists, pool now ${candidates.length}`);
+    }
 
-    if (expanded.artists.length === 0) {
-      console.log("[orchestrator] No new artists from expansion -- stopping");
-      break;
+    if (candidates.length === 0) {
+      return {
+        playlist: null,
+        needsClarification: false,
+        error: `No tracks found in the Atmos DB matching your request for "${intent.description}". Try a different genre or mood.`,
+      };
     }
 
-    allDiscoveredArtists = [...allDiscoveredArtists, ...expanded.artists];
-    const expandMatch = await matchArtistsToTracks(db, { artists: expanded.artists, searchStrategy: "expansion" }, intent);
-    candidates = mergeUnique(candidates, expandMatch.candidates);
+    endStage(trace, "match", { outputCount: candidates.length });
+    await completeStage(
+      "match",
+      { candidates, discoveredArtists: allDiscoveredArtists, subGenres: intent.subGenres } satisfies MatchCheckpoint,
+      `Found ${candidates.length} candidate tracks`
+    );
   }
 
-  if (candidates.length === 0) {
-    return {
-      playlist: null,
-      needsClarification: false,
-      error: `No tracks found in the Atmos DB matching your request for "${intent.description}". Try a different genre or mood.`,
+  // -- Stage 4: TrackEnricher (only top candidates) ----------------------
+  ledger.stage = "enrich";
+  let enrichCheckpoint = (await resumeStage<EnrichCheckpoint>("enrich")) ?? previousPool?.enrich;
+  if (enrichCheckpoint) {
+    console.log("[orchestrator] Stage 4: TrackEnricher (cached)");
+    traceCached(trace, "enrich");
+  } else {
+    // Pre-enrichment scoring
+    const { toEnrich, deferred } = scoreAndRank(candidates, intent, enrichBudget);
+    console.log(
+      `[orchestrator] Pre-scoring: ${candidates.length} candidates, ` +
+      `enriching top ${toEnrich.length}, deferring ${deferred.length}`
+    );
+
+    console.log(`[orchestrator] Stage 4: TrackEnricher (${toEnrich.length} of ${candidates.length})`);
+    beginStage(trace, "enrich", toEnrich.length);
+    traceNote(
+      trace,
+      "enrich",
+      `Pre-scoring: enriching top ${toEnrich.length} of ${candidates.length} (budget ${enrichBudget}), deferring ${deferred.length}`
+    );
+    await reportProgress(config.jobId, "enrich", `Enriching ${toEnrich.length} tracks with mood & energy...`);
+    const enricherResult = await enrichTracks(db, toEnrich, intent, { llm: llm.enrichment });
+    enrichCheckpoint = {
+      // Include deferred candidates at end for gap-fill pool in assembler
+      enrichedCandidates: [...enricherResult.enrichedCandidates, ...deferred],
+      enrichedCount: toEnrich.length,
+      deferredCount: deferred.length,
+      freshlyEnriched: enricherResult.freshlyEnriched,
+      cacheHits: enricherResult.cacheHits,
     };
+    if (enricherResult.failed > 0) {
+      traceNote(trace, "enrich", `${enricherResult.failed} tracks failed enrichment`);
+    }
+    endStage(trace, "enrich", {
+      outputCount: enricherResult.enrichedCandidates.length,
+      cacheHits: enricherResult.cacheHits,
+    });
+    await completeStage("enrich", enrichCheckpoint, `Enriched ${enricherResult.enrichedCandidates.length} tracks`);
+  }
+  // Enrichment is where most tracks get a tempo/key estimate, so the BPM window,
+  // key set and unknown-tempo policy are enforced here rather than in DBMatcher
+  const { kept: enrichedCandidates, dropped: constraintDrops } =
+    applyHardConstraints(enrichCheckpoint.enrichedCandidates, intent);
+  if (constraintDrops.length > 0) {
+    console.log(`[orchestrator] Hard constraints removed ${constraintDrops.length} enriched candidates`);
+    traceDrops(trace, "enrich", constraintDrops);
   }
-
-  // -- Pre-enrichment scoring ----------------------------------------------
-  const enrichBudget = targetCount * 3;
-
-  const { toEnrich, deferred } = scoreAndRank(candidates, intent, enrichBudget);
-  console.log(
-    `[orchestrator] Pre-scoring: ${candidates.length} candidates, ` +
-    `enriching top ${toEnrich.length}, deferring ${deferred.length}`
-  );
-
-  // -- Stage 4: TrackEnricher (only top candidates) ----------------------
-  console.log(`[orchestrator] Stage 4: TrackEnricher (${toEnrich.length} of ${candidates.length})`);
-  await reportProgress(config.jobId, "enrich", `Enriching ${toEnrich.length} tracks with mood & energy...`);
-  const enricherResult = await enrichTracks(db, toEnrich, intent, {
-    perplexityApiKey: config.perplexityApiKey,
-    geminiApiKey: config.geminiApiKey,
-  });
-  // Include deferred candidates at end for gap-fill pool in assembler
-  const enrichedCandidates = [...enricherResult.enrichedCandidates, ...deferred];
 
   // -- Stage 5: Curator ------------------------------------------------------
-  console.log("[orchestrator] Stage 5: Curator");
-  await reportProgress(config.jobId, "curate", "Curating your playlist with Gemini...");
-  const curatorResult = await curatePlaylist(enrichedCandidates, intent, {
-    geminiApiKey: config.geminiApiKey,
-  });
-  const draft = curatorResult.draft;
+  ledger.stage = "curate";
+  let draft = await resumeStage<PlaylistDraft>("curate");
+  if (draft) {
+    console.log("[orchestrator] Stage 5: Curator (cached)");
+    traceCached(trace, "curate");
+  } else {
+    console.log("[orchestrator] Stage 5: Curator");
+    // Refinements only curate the slots the kept tracks don't fill, and never re-pick a previous track
+    const previousIds = new Set(previousTracks.map(t => t.docId));
+    const curationPool = enrichedCandidates.filter(c => !previousIds.has(c.docId));
+    const openSlots = targetCount - keptTracks.length;
+    beginStage(trace, "curate", curationPool.length);
+    await reportProgress(config.jobId, "curate", "Curating your playlist...");
+    if (keptTracks.length > 0) {
+      traceNote(trace, "curate", `Kept ${keptTracks.length} tracks from the previous playlist, ${Math.max(0, openSlots)} open slots`);
+    }
+    if (intent.albumMode) {
+      // Album mode picks whole albums from the full pool -- nothing to keep from a previous playlist
+      draft = selectAlbumDraft(enrichedCandidates, intent);
+      traceNote(trace, "curate", "Album mode -- every Atmos DB track of the top albums drafted");
+    } else if (openSlots <= 0) {
+      draft = { tracks: [], unusedCandidates: curationPool };
+    } else {
+      const curationIntent = keptTracks.length > 0 ? { ...intent, targetTrackCount: openSlots } : intent;
+      const curatorResult = await curatePlaylist(curationPool, curationIntent, { llm: llm.curation });
+      draft = curatorResult.draft;
+      traceNote(trace, "curate", curatorResult.curatedByAI ? "Selected by LLM" : "LLM curation failed -- rule-based fallback");
+    }
+    traceNote(trace, "curate", `${draft.unusedCandidates.length} candidates left for gap-fill`);
+    endStage(trace, "curate", { outputCount: draft.tracks.length });
+    await completeStage("curate", draft, `Selected ${draft.tracks.length} tracks`);
+  }
 
   // -- Stage 6: Verifier -----------------------------------------------------
-  console.log("[orchestrator] Stage 6: Verifier");
-  await reportProgress(config.jobId, "verify", "Verifying Dolby Atmos on Apple Music...");
-  const appleMusicToken = generateAppleMusicToken(
-    config.appleTeamId,
-    config.appleKeyId,
-    config.applePrivateKey
-  );
-  const verifierResult = await verifyPlaylist(db, draft, { appleMusicToken });
+  ledger.stage = "verify";
+  const appleMusicToken = tape?.mode === "replay"
+    ? "" // lookups are served from the tape
+    : generateAppleMusicToken(config.appleTeamId, config.appleKeyId, config.applePrivateKey);
+  let verifierResult = await resumeStage<VerifierResult>("verify");
+  if (verifierResult) {
+    console.log("[orchestrator] Stage 6: Verifier (cached)");
+    traceCached(trace, "verify");
+  } else {
+    console.log("[orchestrator] Stage 6: Verifier");
+    beginStage(trace, "verify", draft.tracks.length);
+    await reportProgress(config.jobId, "verify", "Verifying Dolby Atmos on Apple Music...");
+    verifierResult = await verifyPlaylist(db, draft, {
+      appleMusicToken,
+      tape,
+      ledger,
+      yearRange: intent.yearRange,
+      onVerified: verifiedSoFar => reportProgress(
+        config.jobId,
+        "verify",
+        `Verified ${verifiedSoFar.length} Dolby Atmos tracks...`,
+        { partialTracks: verifiedSoFar }
+      ),
+    });
+    traceDrops(trace, "verify", verifierResult.dropped);
+    endStage(trace, "verify", { outputCount: verifierResult.verifiedTracks.length });
+    await completeStage("verify", verifierResult, `Verified ${verifierResult.verifiedTracks.length} tracks`);
+  }
 
   // -- Stage 7: Assembler ----------------------------------------------------
+  ledger.stage = "assemble";
+  beginStage(trace, "assemble", verifierResult.verifiedTracks.length);
   console.log("[orchestrator] Stage 7: Assembler");
   await reportProgress(config.jobId, "assemble", "Assembling your playlist...");
-  const assemblerResult = await assemblePlaylist(
-    db,
-    {
-      intent,
-      verified: verifierResult.verifiedTracks,
-      unusedCandidates: draft.unusedCandidates,
-      draft,
-    },
-    {
-      geminiApiKey: config.geminiApiKey,
-      appleMusicToken,
-    },
-    {
-      artistsDiscovered: allDiscoveredArtists.length,
-      candidatesFound: candidates.length,
-      enrichedTracks: enricherResult.freshlyEnriched + enricherResult.cacheHits,
-      verificationDropped: verifierResult.removedDocIds.length,
-      buildStartMs,
-    }
-  );
+  const buildStats = {
+    artistsDiscovered: allDiscoveredArtists.length,
+    candidatesFound: candidates.length,
+    enrichedTracks: enrichCheckpoint.freshlyEnriched + enrichCheckpoint.cacheHits,
+    verificationDropped: verifierResult.removedDocIds.length,
+    buildStartMs,
+  };
+  // Album mode keeps whole albums in album order: no gap-fill, diversity cap or sequencing
+  const assemblerResult = intent.albumMode
+    ? assembleAlbumPlaylist(intent, draft, verifierResult.verifiedTracks, buildStats)
+    : await assemblePlaylist(
+      db,
+      {
+        intent,
+        // Kept tracks go first so the artist-diversity pass favours them
+        verified: [...keptTracks, ...verifierResult.verifiedTracks],
+        unusedCandidates: draft.unusedCandidates,
+        draft,
+      },
+      {
+        geminiApiKey: config.geminiApiKey,
+        appleMusicToken,
+        tape,
+        ledger,
+      },
+      buildStats
+    );
 
   const { playlist } = assemblerResult;
+  if (assemblerResult.gapFilled > 0) {
+    traceNote(trace, "assemble", `Gap-filled ${assemblerResult.gapFilled} tracks from the unused pool`);
+  }
+  traceDrops(trace, "assemble", assemblerResult.dropped);
+  endStage(trace, "assemble", { outputCount: playlist.tracks.length });
 
   if (playlist.tracks.length === 0) {
     return {
@@ -297,22 +663,60 @@ export async function runPipeline(
     };
   }
 
+  const cost = summarizeLedger(ledger);
+  playlist.buildMetadata.cost = cost;
+  playlist.buildMetadata.trace = trace;
+  playlist.buildMetadata.buildId = config.jobId;
+  if (delta) playlist.buildMetadata.refinementSummary = delta.summary;
+
   console.log(
     `[orchestrator] Pipeline complete in ${Date.now() - buildStartMs}ms. ` +
-    `${playlist.tracks.length} tracks, ${playlist.atmosVerifiedCount} Atmos confirmed.`
+    `${playlist.tracks.length} tracks, ${playlist.atmosVerifiedCount} Atmos confirmed, ` +
+    `~$${cost.estimatedCostUsd.toFixed(4)} across ${cost.requests} external calls.`
   );
 
-  await reportProgress(config.jobId, "complete", "Done!");
-
-  // Clean up job doc after a delay (don't block the response)
   if (config.jobId) {
-    const nextnDb = getFirestore();
-    nextnDb.doc(`pipelineJobs/${config.jobId}`).delete().catch(() => {});
+    const enrichCost = cost.byStage.enrich?.estimatedCostUsd ?? 0;
+    writeBuildLedger(config.jobId, {
+      prompt: userPrompt,
+      intentDescription: intent.description,
+      trackCount: playlist.tracks.length,
+      buildDurationMs: playlist.buildMetadata.buildDurationMs,
+      cost,
+      enrichment: {
+        targetCount,
+        enrichBudget,
+        candidates: candidates.length,
+        enriched: enrichCheckpoint.enrichedCount,
+        deferred: enrichCheckpoint.deferredCount,
+        freshlyEnriched: enrichCheckpoint.freshlyEnriched,
+        cacheHits: enrichCheckpoint.cacheHits,
+        projectedUnbudgetedCostUsd: enrichCheckpoint.enrichedCount > 0
+          ? enrichCost * candidates.length / enrichCheckpoint.enrichedCount
+          : 0,
+      },
+      createdAt: Date.now(),
+    });
   }
 
+  // The job doc is kept -- the worker writes the outcome onto it (lib/pipelineJobs.ts)
+  await reportProgress(config.jobId, "complete", "Done!", {
+    completedStages: stagesThrough("assemble"),
+  });
+
   return { playlist, needsClarification: false };
 }
 
+function unmatchedDrops(artists: string[], nearMisses: DBMatchResult["nearMisses"]): DroppedItem[] {
+  return artists.map(name => {
+    const closest = nearMisses[name]?.map(m => m.name);
+    return {
+      label: name,
+      reason: closest?.length ? `No tracks in the Atmos DB (closest: ${closest.join(", ")})` : "No tracks in the Atmos DB",
+    };
+  });
+}
+
 /**
  * Merge two candidate arrays, deduplicating by docId.
  */
@@ -0,0 +1,188 @@
+// src/pipeline/playlistEditor.ts
+// Post-build edits to a finished playlist: remove a track, pin it in place, or
+// replace it with something similar from the build's saved candidate pool.
+//
+// Replacements come from the curate-stage checkpoint (the same unused pool the
+// Assembler gap-fills from), are verified on Apple Music like any other track,
+// and the result is re-sequenced with pinned tracks held at their positions.
+// Album-mode playlists are never re-sequenced: edits happen in place so each
+// album keeps its track order, and the album summaries are recounted.
+
+import type { Firestore } from "firebase-admin/firestore";
+import type {
+  AtmosPlaylist,
+  PlaylistDraft,
+  PlaylistEditOp,
+  PlaylistEditResponse,
+  PlaylistIntent,
+  TrackCandidate,
+  VerifiedTrack,
+} from "../lib/types.js";
+import { creditedArtists } from "../lib/artistCredits.js";
+import { artistKey } from "../lib/artistIndex.js";
+import { verifyPlaylist } from "./verifier.js";
+import { sequenceTracks, trackSimilarity } from "./sequencer.js";
+import { generateDescription } from "./assembler.js";
+import { artistCap, violatedConstraint } from "./constraints.js";
+import { albumIndexByPosition, resummarizeAlbums } from "./albumMode.js";
+
+interface EditorConfig {
+  appleMusicToken: string;
+}
+
+const REPLACE_SHORTLIST = 5; // similar candidates verified per replacement
+
+/** Tracks per credited artist -- a collaboration counts against every artist on it. */
+function artistCounts(tracks: VerifiedTrack[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const t of tracks) {
+    for (const a of creditedArtists(t.Artist)) counts.set(artistKey(a), (counts.get(artistKey(a)) ?? 0) + 1);
+  }
+  return counts;
+}
+
+/**
+ * Rank pool candidates by how closely they stand in for `track`. Hard
+ * constraints still apply, and so does the artist cap over `remaining` (the
+ * playlist without `track`).
+ */
+function similarCandidates(
+  track: VerifiedTrack,
+  remaining: VerifiedTrack[],
+  pool: TrackCandidate[],
+  excludeIds: Set<string>,
+  intent: PlaylistIntent
+): TrackCandidate[] {
+  const counts = artistCounts(remaining);
+  const withinCap = (c: TrackCandidate) =>
+    creditedArtists(c.Artist).every(a => (counts.get(artistKey(a)) ?? 0) < artistCap(a, intent));
+  return pool
+    .filter(c =>
+      !excludeIds.has(c.docId) && !c.enrichment_failed && violatedConstraint(c, intent) === null && withinCap(c)
+    )
+    .map(c => ({ c, score: trackSimilarity(track, c) }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, REPLACE_SHORTLIST)
+    .map(({ c }) => c);
+}
+
+/** Verify a shortlist and return the first candidate confirmed on Apple Music. */
+async function findReplacement(
+  db: Firestore,
+  track: VerifiedTrack,
+  shortlist: TrackCandidate[],
+  intent: PlaylistIntent,
+  config: EditorConfig
+): Promise<VerifiedTrack | null> {
+  if (shortlist.length === 0) return null;
+
+  const draft: PlaylistDraft = {
+    tracks: shortlist.map((c, i) => ({
+      docId: c.docId,
+      Artist: c.Artist,
+      track_Title: c.track_Title,
+      album: c.album,
+      Apple_Music_ID: c.Apple_Music_ID,
+      Apple_Music_URL: c.Apple_Music_URL,
+      am_duration_ms: c.am_duration_ms,
+      FINAL_SCORE: c.FINAL_SCORE,
+      atmos_mood: c.atmos_mood,
+      atmos_energy: c.atmos_energy,
+      atmos_tempo_estimate: c.atmos_tempo_estimate,
+      atmos_vibe: c.atmos_vibe,
+      atmos_key_estimate: c.atmos_key_estimate,
+      selectionRationale: `Similar to ${track.Artist} - ${track.track_Title}`,
+      position: i + 1,
+      provenance: { ...c.provenance, replacedDocId: track.docId },
+    })),
+    unusedCandidates: [],
+  };
+
+  const result = await verifyPlaylist(db, draft, {
+    appleMusicToken: config.appleMusicToken,
+    yearRange: intent.yearRange,
+  });
+  // verifyPlaylist keeps draft order, so the first survivor is the most similar
+  return result.verifiedTracks[0] ?? null;
+}
+
+/**
+ * Apply edit ops in order, then re-sequence around pinned tracks (album mode
+ * keeps the edited order as-is).
+ * `pool` is the build's unused candidate pool -- only needed for replace ops.
+ */
+export async function editPlaylist(
+  db: Firestore,
+  playlist: AtmosPlaylist,
+  ops: PlaylistEditOp[],
+  pool: TrackCandidate[],
+  config: EditorConfig
+): Promise<PlaylistEditResponse> {
+  let tracks = [...playlist.tracks];
+  const unresolved: PlaylistEditResponse["unresolved"] = [];
+  // Never offer a track that is, or already was, in this playlist
+  const usedIds = new Set(tracks.map(t => t.docId));
+  const albums = playlist.intent.albumMode ? playlist.albums : undefined;
+  // Which album each position belongs to, kept in step with removals
+  const albumIndex = albums ? albumIndexByPosition(albums, tracks.length) : null;
+
+  for (const op of ops) {
+    const index = tracks.findIndex(t => t.docId === op.docId);
+    if (index === -1) {
+      unresolved.push({ op, reason: "Track is not in the playlist" });
+      continue;
+    }
+    const track = tracks[index];
+
+    switch (op.type) {
+      case "remove":
+        tracks = tracks.filter((_, i) => i !== index);
+        albumIndex?.splice(index, 1);
+        break;
+
+      case "pin":
+        tracks[index] = { ...track, pinned: op.pinned ?? true };
+        break;
+
+      case "replace": {
+        const remaining = tracks.filter((_, i) => i !== index);
+        const shortlist = similarCandidates(track, remaining, pool, usedIds, playlist.intent);
+        const replacement = await findReplacement(db, track, shortlist, playlist.intent, config);
+        if (!replacement) {
+          unresolved.push({
+            op,
+            reason: shortlist.length === 0
+              ? "No similar tracks left in this build's pool"
+              : "None of the similar tracks are available on Apple Music",
+          });
+          break;
+        }
+        usedIds.add(replacement.docId);
+        tracks[index] = { ...replacement, pinned: track.pinned };
+        break;
+      }
+    }
+  }
+
+  const sequenced = albumIndex ? tracks : sequenceTracks(tracks, playlist.intent).tracks;
+  const album = albums && albumIndex ? resummarizeAlbums(albums, sequenced, albumIndex) : null;
+  const totalDurationMs = sequenced.reduce((sum, t) => sum + t.durationMs, 0);
+
+  console.log(
+    `[playlistEditor] Applied ${ops.length - unresolved.length}/${ops.length} edits -- ` +
+    `${playlist.tracks.length} -> ${sequenced.length} tracks`
+  );
+
+  return {
+    playlist: {
+      ...playlist,
+      description: album?.description ?? generateDescription(playlist.intent, sequenced.length),
+      ...(album ? { albums: album.albums } : {}),
+      tracks: sequenced,
+      totalDurationMs,
+      atmosVerifiedCount: sequenced.filter(t => t.atmosVerified).length,
+      atmosWarningCount: sequenced.filter(t => t.atmosWarning).length,
+    },
+    unresolved,
+  };
+}
@@ -0,0 +1,251 @@
+// src/pipeline/seedTracks.ts
+// Seed-track mode: synthesize a PlaylistIntent from Apple Music songs instead
+// of a text prompt.
+//
+// Seeds are looked up on Apple Music (artist, genreNames, releaseDate) and in
+// the Atmos Master DB (atmos_ mood/energy/vibe/tempo/key, when enriched). The
+// intent then runs through the normal pipeline from ArtistDiscovery, exactly
+// like one confirmed in the intent editor.
+
+import type { Firestore } from "firebase-admin/firestore";
+import { batchLookupAppleTracks } from "../lib/appleMusic.js";
+import { normalizeCamelot } from "../lib/camelot.js";
+import { eraYearOf, releaseYearsOf } from "../lib/releaseEra.js";
+import type { PlaylistIntent } from "../lib/types.js";
+import { normalizeIntent } from "./intentNormalizer.js";
+
+export const MAX_SEEDS = 10;
+
+const IN_QUERY_LIMIT = 30;    // Firestore "in" filter cap
+const SEED_BPM_PADDING = 10;  // tempo window around the seeds' BPM spread
+const MAX_SEED_ERA_SPREAD = 10; // seeds further apart than this get no era
+const MAX_SEED_MOODS = 4;
+const MAX_SEED_VIBES = 6;
+const MAX_SEED_GENRES = 4;
+
+// Apple puts "Music" on nearly every song -- it says nothing about the genre
+const IGNORED_APPLE_GENRES = new Set(["music"]);
+
+/** One seed song, as Apple Music and the Atmos Master DB know it. */
+export interface SeedTrack {
+  appleMusicId: string;
+  title: string;
+  artist: string;
+  genreNames: string[];
+  releaseYear: number | null; // original release year (lib/releaseEra.ts), null if unknown
+  hasAtmos: boolean;
+  docId: string | null; // Atmos Master DB doc, null if the song isn't in it
+  atmos_mood?: string;
+  atmos_energy?: number;
+  atmos_vibe?: string[];
+  atmos_tempo_estimate?: number;
+  atmos_key_estimate?: string;
+}
+
+export interface SeedIntentResult {
+  intent: PlaylistIntent;
+  seeds: SeedTrack[];
+  unresolved: string[]; // inputs that weren't a song ID/URL or weren't found on Apple Music
+}
+
+// -- Parsing -------------------------------------------------------------------
+
+/**
+ * Apple Music song ID from a raw ID or a song URL:
+ *   1440857781
+ *   https://music.apple.com/us/song/teardrop/1440857781
+ *   https://music.apple.com/us/album/mezzanine/1440857613?i=1440857781
+ * An album URL without `?i=` is not a song and returns null.
+ */
+export function parseSeedId(input: string): string | null {
+  const trimmed = input.trim();
+  if (/^\d{6,12}$/.test(trimmed)) return trimmed;
+
+  let url: URL;
+  try {
+    url = new URL(trimmed);
+  } catch {
+    return null;
+  }
+  if (!url.hostname.endsWith("music.apple.com")) return null;
+
+  const songParam = url.searchParams.get("i");
+  if (songParam && /^\d{6,12}$/.test(songParam)) return songParam;
+  const segments = url.pathname.split("/").filter(Boolean);
+  if (!segments.includes("song")) return null;
+  const last = segments[segments.length - 1];
+  return /^\d{6,12}$/.test(last) ? last : null;
+}
+
+// -- Lookup --------------------------------------------------------------------
+
+/** Atmos Master DB docs for these Apple Music IDs, keyed by ID. */
+async function findSeedDocs(
+  db: Firestore,
+  appleIds: string[]
+): Promise<Map<string, { docId: string; data: Record<string, unknown> }>> {
+  const docs = new Map<string, { docId: string; data: Record<string, unknown> }>();
+  for (let i = 0; i < appleIds.length; i += IN_QUERY_LIMIT) {
+    const chunk = appleIds.slice(i, i + IN_QUERY_LIMIT);
+    try {
+      const snap = await db.collection("tracks").where("Apple_Music_ID", "in", chunk).get();
+      for (const doc of snap.docs) {
+        const data = doc.data();
+        docs.set(String(data.Apple_Music_ID), { docId: doc.id, data });
+      }
+    } catch (err) {
+      console.warn("[seedTracks] DB lookup failed:", err);
+    }
+  }
+  return docs;
+}
+
+/** Look the seed songs up on Apple Music and in the Atmos Master DB. */
+async function resolveSeedTracks(
+  db: Firestore,
+  appleIds: string[],
+  appleMusicToken: string
+): Promise<SeedTrack[]> {
+  const [lookups, docs] = await Promise.all([
+    batchLookupAppleTracks(appleIds, appleMusicToken),
+    findSeedDocs(db, appleIds),
+  ]);
+
+  const seeds: SeedTrack[] = [];
+  for (const id of appleIds) {
+    const result = lookups.get(id);
+    if (!result?.found || !result.attrs) continue;
+    const doc = docs.get(id);
+    const data = doc?.data ?? {};
+    const year = eraYearOf(releaseYearsOf(result.attrs));
+    seeds.push({
+      appleMusicId: id,
+      title: result.attrs.name,
+      // The DB's spelling is the one DBMatcher queries by
+      artist: (data.Artist as string | undefined) ?? result.attrs.artistName,
+      genreNames: result.attrs.genreNames ?? [],
+      releaseYear: year ?? null,
+      hasAtmos: result.hasAtmos,
+      docId: doc?.docId ?? null,
+      atmos_mood: data.atmos_mood as string | undefined,
+      atmos_energy: data.atmos_energy as number | undefined,
+      atmos_vibe: data.atmos_vibe as string[] | undefined,
+      atmos_tempo_estimate: data.atmos_tempo_estimate as number | undefined,
+      atmos_key_estimate: data.atmos_key_estimate as string | undefined,
+    });
+  }
+  return seeds;
+}
+
+// -- Intent synthesis ----------------------------------------------------------
+
+/** Values ordered by how many seeds share them (ties keep first-seen order). */
+function byFrequency(values: string[], limit: number): string[] {
+  const counts = new Map<string, { value: string; count: number }>();
+  for (const value of values) {
+    const key = value.trim().toLowerCase();
+    if (!key) continue;
+    const entry = counts.get(key) ?? { value: value.trim(), count: 0 };
+    entry.count++;
+    counts.set(key, entry);
+  }
+  return [...counts.values()]
+    .sort((a, b) => b.count - a.count)
+    .slice(0, limit)
+    .map(e => e.value);
+}
+
+function spread(values: number[]): [number, number] | null {
+  return values.length > 0 ? [Math.min(...values), Math.max(...values)] : null;
+}
+
+function seedLabel(seed: SeedTrack): string {
+  return `"${seed.title}" by ${seed.artist}`;
+}
+
+/**
+ * A PlaylistIntent that sounds like the seeds: their artists, Apple genres,
+ * shared decade, moods, vibes and energy spread. Tempo becomes a loose BPM
+ * window; keys go into the description as a hint for the curator. Seeds
+ * available in Atmos are required tracks, so the playlist includes them.
+ */
+export function intentFromSeeds(seeds: SeedTrack[]): PlaylistIntent {
+  const energy = spread(seeds.flatMap(s => (s.atmos_energy != null ? [s.atmos_energy] : [])));
+  const tempo = spread(seeds.flatMap(s => (s.atmos_tempo_estimate != null ? [s.atmos_tempo_estimate] : [])));
+  const years = spread(seeds.flatMap(s => (s.releaseYear != null ? [s.releaseYear] : [])));
+  const keys = [...new Set(seeds.flatMap(s => normalizeCamelot(s.atmos_key_estimate) ?? []))];
+
+  const description = [
+    `Songs like ${seeds.map(seedLabel).join(", ")}`,
+    keys.length > 0 ? `(seed keys ${keys.join(", ")} -- favor harmonically compatible tracks)` : "",
+  ].filter(Boolean).join(" ");
+
+  return normalizeIntent({
+    description,
+    genres: byFrequency(
+      seeds.flatMap(s => s.genreNames).filter(g => !IGNORED_APPLE_GENRES.has(g.toLowerCase())),
+      MAX_SEED_GENRES
+    ),
+    subGenres: [],
+    moods: byFrequency(
+      seeds.flatMap(s => (s.atmos_mood && s.atmos_mood !== "unknown" ? [s.atmos_mood] : [])),
+      MAX_SEED_MOODS
+    ),
+    vibeKeywords: byFrequency(seeds.flatMap(s => s.atmos_vibe ?? []), MAX_SEED_VIBES),
+    energyRange: energy
+      ? [Math.max(1, Math.round(energy[0]) - 1), Math.min(10, Math.round(energy[1]) + 1)]
+      : [4, 7],
+    targetDurationMinutes: 60,
+    targetTrackCount: null,
+    artistPreferences: byFrequency(seeds.map(s => s.artist), MAX_SEEDS),
+    excludeArtists: [],
+    eraPreference: years && years[1] - years[0] <= MAX_SEED_ERA_SPREAD
+      ? `${Math.floor((years[0] + years[1]) / 20) * 10}s`
+      : null,
+    referenceQuality: false,
+    bpmRange: tempo
+      ? [Math.max(40, Math.round(tempo[0]) - SEED_BPM_PADDING), Math.min(220, Math.round(tempo[1]) + SEED_BPM_PADDING)]
+      : null,
+    allowedKeys: null,
+    yearRange: null,
+    maxTracksPerArtist: null,
+    requiredArtists: [],
+    requiredTracks: seeds.filter(s => s.hasAtmos).map(s => ({ title: s.title, artist: s.artist })),
+  });
+}
+
+/**
+ * Main entry point: turn pasted song IDs/URLs into a PlaylistIntent.
+ * Returns null when none of them is a song found on Apple Music.
+ */
+export async function buildSeedIntent(
+  db: Firestore,
+  inputs: string[],
+  appleMusicToken: string
+): Promise<SeedIntentResult | null> {
+  const ids = new Map<string, string>(); // Apple Music ID -> the input it came from
+  const unresolved: string[] = [];
+  for (const input of inputs.slice(0, MAX_SEEDS)) {
+    const id = parseSeedId(input);
+    if (id) ids.set(id, input);
+    else unresolved.push(input);
+  }
+  if (ids.size === 0) return null;
+
+  const seeds = await resolveSeedTracks(db, [...ids.keys()], appleMusicToken);
+  const found = new Set(seeds.map(s => s.appleMusicId));
+  for (const [id, input] of ids) {
+    if (!found.has(id)) unresolved.push(input);
+  }
+  if (seeds.length === 0) {
+    console.warn(`[seedTracks] None of ${ids.size} seed IDs found on Apple Music`);
+    return null;
+  }
+
+  const intent = intentFromSeeds(seeds);
+  console.log(
+    `[seedTracks] ${seeds.length} seeds (${seeds.filter(s => s.docId).length} in the Atmos DB) -> ` +
+    `genres [${intent.genres.join(", ")}], moods [${intent.moods.join(", ")}], era ${intent.eraPreference ?? "any"}`
+  );
+  return { intent, seeds, unresolved };
+}
@@ -8,8 +8,13 @@
 //   - Vibe tag similarity (20% weight)
 //
 // Adaptive structure: single arc for short playlists, multi-set for 60+ min.
+// Pinned tracks (VerifiedTrack.pinned) keep their index; the rest flow around them.
+// An artist radio's seed-artist tracks are spaced evenly through the playlist.
+// Last line of the hard constraints: unpinned tracks that break one are dropped.
 
-import type { VerifiedTrack, PlaylistIntent } from "../lib/types.js";
+import type { DroppedItem, VerifiedTrack, PlaylistIntent } from "../lib/types.js";
+import { parseCamelot } from "../lib/camelot.js";
+import { isRadioArtist, violatedConstraint } from "./constraints.js";
 
 const DEFAULT_DURATION_MS = 240_000;
 const TRACKS_PER_SET = 12;
@@ -23,19 +28,6 @@ const W_VIBE = 0.20;
 
 // --- Camelot Wheel ---
 
-/**
- * Parse a Camelot notation string (e.g. "8B", "3A") into number + letter.
- * Returns null for invalid/missing keys.
- */
-function parseCamelot(key: string | undefined): { num: number; letter: "A" | "B" } | null {
-  if (!key) return null;
-  const match = key.trim().match(/^(\d{1,2})([AB])$/i);
-  if (!match) return null;
-  const num = parseInt(match[1], 10);
-  if (num < 1 || num > 12) return null;
-  return { num, letter: match[2].toUpperCase() as "A" | "B" };
-}
-
 /**
  * Camelot wheel compatibility score between two keys.
  * Same key = 1.0, adjacent number = 0.8, relative major/minor = 0.7,
@@ -136,6 +128,39 @@ function transitionScore(
   );
 }
 
+/** Audio features the sequencer scores on (shared by candidates and verified tracks). */
+export type SequencingFeatures = Pick<
+  VerifiedTrack,
+  "atmos_mood" | "atmos_energy" | "atmos_tempo_estimate" | "atmos_vibe" | "atmos_key_estimate"
+>;
+
+/**
+ * How interchangeable two tracks are (0-1), for "replace with something similar".
+ * Unlike transitionScore, near-identical vibes and moods score highest here.
+ */
+export function trackSimilarity(a: SequencingFeatures, b: SequencingFeatures): number {
+  const energy = a.atmos_energy == null || b.atmos_energy == null
+    ? 0.5
+    : 1.0 - Math.abs(a.atmos_energy - b.atmos_energy) / 9;
+  const mood = !a.atmos_mood || !b.atmos_mood
+    ? 0.5
+    : a.atmos_mood.toLowerCase() === b.atmos_mood.toLowerCase() ? 1.0 : 0.2;
+
+  let vibe = 0.5;
+  if (a.atmos_vibe?.length && b.atmos_vibe?.length) {
+    const setA = new Set(a.atmos_vibe.map(v => v.toLowerCase()));
+    const shared = b.atmos_vibe.filter(v => setA.has(v.toLowerCase())).length;
+    vibe = shared / (setA.size + b.atmos_vibe.length - shared);
+  }
+
+  return (
+    W_BPM * bpmScore(a.atmos_tempo_estimate, b.atmos_tempo_estimate) +
+    W_ENERGY * energy +
+    W_KEY * camelotCompatibility(a.atmos_key_estimate, b.atmos_key_estimate) +
+    W_VIBE * (vibe * 0.5 + mood * 0.5)
+  );
+}
+
 // --- Energy Arc ---
 
 /**
@@ -256,21 +281,84 @@ function sequenceSet(
   return result;
 }
 
+// --- Artist Radio ---
+
+/**
+ * Spread an artist radio's seed-artist tracks evenly through `tracks`, opening
+ * with one; every other track keeps its sequenced order around them.
+ */
+function spaceRadioArtist(tracks: VerifiedTrack[], intent: PlaylistIntent): VerifiedTrack[] {
+  const seed = tracks.filter(t => isRadioArtist(t.Artist, intent));
+  if (seed.length === 0 || seed.length === tracks.length) return tracks;
+  const rest = tracks.filter(t => !isRadioArtist(t.Artist, intent));
+
+  // Slot i * n/k for the i-th seed track -- at least one track apart, since k < n
+  const slots = new Set(seed.map((_, i) => Math.round(i * tracks.length / seed.length)));
+  let nextSeed = 0;
+  let nextRest = 0;
+  const spaced = tracks.map((_, pos) => (slots.has(pos) ? seed[nextSeed++] : rest[nextRest++]));
+  console.log(`[sequencer] Spaced ${seed.length} ${intent.radioArtist} tracks through ${tracks.length}`);
+  return spaced;
+}
+
 // --- Public API ---
 
 export interface SequencerResult {
   tracks: VerifiedTrack[];
   sets: SetBoundary[];
+  dropped: DroppedItem[]; // unpinned tracks that break a hard constraint
 }
 
 /**
  * Sequence verified tracks for smooth flow.
- * Handles both single-arc and multi-set playlists.
+ * Handles both single-arc and multi-set playlists. Pinned tracks stay at
+ * their current index; unpinned tracks are sequenced into the open slots.
  */
 export function sequenceTracks(
-  tracks: VerifiedTrack[],
+  allTracks: VerifiedTrack[],
   intent: PlaylistIntent
 ): SequencerResult {
+  // A pinned track is the user's explicit choice -- it outranks the constraints
+  const dropped: DroppedItem[] = [];
+  const tracks = allTracks.filter(t => {
+    const reason = t.pinned ? null : violatedConstraint(t, intent);
+    if (reason) dropped.push({ label: `${t.Artist} - ${t.track_Title}`, reason, docId: t.docId });
+    return !reason;
+  });
+  if (dropped.length > 0) {
+    console.log(`[sequencer] Dropped ${dropped.length} tracks that break a hard constraint`);
+  }
+
+  const pinnedCount = tracks.filter(t => t.pinned).length;
+  if (pinnedCount === 0) {
+    const result = sequenceUnpinned(tracks, intent);
+    return { ...result, tracks: withTransitionScores(spaceRadioArtist(result.tracks, intent)), dropped };
+  }
+
+  const free = spaceRadioArtist(sequenceUnpinned(tracks.filter(t => !t.pinned), intent).tracks, intent);
+  // Pinned indices come from the unfiltered list, so a dropped track before a
+  // pin doesn't shift it; drops can shorten the list, so the last pins clamp to the end
+  const slots = new Array<VerifiedTrack | null>(tracks.length).fill(null);
+  const pinned = allTracks.flatMap((t, index) => (t.pinned ? [{ t, index }] : []));
+  pinned.forEach(({ t, index }, k) => {
+    slots[Math.min(index, tracks.length - (pinned.length - k))] = t;
+  });
+  let next = 0;
+  const merged = slots.map(slot => slot ?? free[next++]);
+  console.log(`[sequencer] Kept ${pinnedCount} pinned tracks in place, sequenced ${free.length} around them`);
+
+  const totalDurationMs = merged.reduce((sum, t) => sum + (t.durationMs ?? DEFAULT_DURATION_MS), 0);
+  return {
+    tracks: withTransitionScores(merged),
+    sets: divideSets(merged.length, totalDurationMs),
+    dropped,
+  };
+}
+
+function sequenceUnpinned(
+  tracks: VerifiedTrack[],
+  intent: PlaylistIntent
+): Omit<SequencerResult, "dropped"> {
   if (tracks.length <= 2) {
     return {
       tracks,
@@ -329,6 +417,19 @@ export function sequenceTracks(
   return { tracks: finalTracks, sets: finalSets };
 }
 
+/**
+ * Record each track's transition score from its predecessor in its provenance
+ * (same neutral arc target as logTransitions; the opener gets none).
+ */
+function withTransitionScores(tracks: VerifiedTrack[]): VerifiedTrack[] {
+  return tracks.map((t, i) => {
+    const score = i === 0
+      ? undefined
+      : Math.round(transitionScore(tracks[i - 1], t, 5) * 1000) / 1000;
+    return { ...t, provenance: { ...t.provenance, transitionScore: score } };
+  });
+}
+
 /**
  * Log transition quality for debugging.
  */
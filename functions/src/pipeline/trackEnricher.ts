@@ -1,22 +1,22 @@
 // src/pipeline/trackEnricher.ts
 // Stage 4: Enrich each track candidate with mood/energy/vibe metadata.
 //
-// Uses Perplexity (primary) or Gemini (fallback) to classify per-track affect.
+// Uses the enrichment LLM chain (Gemini primary, Perplexity fallback by default)
+// to classify per-track affect.
 // Caches results to Firestore under atmos_ prefix fields (30-day TTL).
 // Cache-first: tracks enriched within 30 days are skipped.
 
-import { GoogleGenerativeAI } from "@google/generative-ai";
-import type { Firestore, Timestamp } from "firebase-admin/firestore";
+import type { Timestamp } from "firebase-admin/firestore";
+import type { AtmosStore } from "../lib/atmosDb.js";
+import { completeJSON, type LlmProvider } from "../lib/llm.js";
 import type { TrackCandidate, PlaylistIntent } from "../lib/types.js";
 
-const PERPLEXITY_API_URL = "https://api.perplexity.ai/chat/completions";
-const GEMINI_MODEL = "gemini-3.1-flash-lite-preview";
 const CACHE_TTL_DAYS = 30;
-const BATCH_SIZE = 12; // tracks per Perplexity/Gemini call
+const BATCH_SIZE = 12; // tracks per LLM call
+const ENRICHMENT_TIMEOUT_MS = 30_000;
 
 interface EnrichmentConfig {
-  perplexityApiKey: string;
-  geminiApiKey: string;
+  llm: LlmProvider[];
 }
 
 interface TrackEnrichment {
@@ -77,61 +77,34 @@ Return ONLY valid JSON, no markdown:
 ]`;
 }
 
-async function enrichWithPerplexity(
-  prompt: string,
-  apiKey: string
-): Promise<TrackEnrichment[] | null> {
-  try {
-    const resp = await fetch(PERPLEXITY_API_URL, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${apiKey}`,
-      },
-      body: JSON.stringify({
-        model: "sonar",
-        messages: [{ role: "user", content: prompt }],
-        max_tokens: 2000,
-        temperature: 0.1,
-      }),
-      signal: AbortSignal.timeout(30000),
-    });
-
-    if (!resp.ok) return null;
-
-    const data = await resp.json() as {
-      choices: Array<{ message: { content: string } }>;
-    };
-    const content = data.choices?.[0]?.message?.content ?? "";
-    const jsonMatch = content.match(/\[[\s\S]*\]/);
-    if (!jsonMatch) return null;
-
-    return JSON.parse(jsonMatch[0]) as TrackEnrichment[];
-  } catch {
-    return null;
-  }
+/**
+ * The enrichment array from a response. JSON-mode providers (OpenAI) can't
+ * return a top-level array and wrap it instead -- {"tracks": [...]} -- so an
+ * object with exactly one array-valued property is unwrapped.
+ */
+function enrichmentList(data: unknown): TrackEnrichment[] | null {
+  if (Array.isArray(data)) return data as TrackEnrichment[];
+  if (!data || typeof data !== "object") return null;
+  const arrays = Object.values(data).filter(Array.isArray);
+  return arrays.length === 1 ? (arrays[0] as TrackEnrichment[]) : null;
 }
 
-async function enrichWithGemini(
+/**
+ * Classify a batch through the enrichment chain. Returns the enrichments and
+ * the provider that produced them, or null if every provider failed.
+ */
+async function enrichWithLlm(
   prompt: string,
-  apiKey: string
-): Promise<TrackEnrichment[] | null> {
-  try {
-    const genAI = new GoogleGenerativeAI(apiKey);
-    const model = genAI.getGenerativeModel({
-      model: GEMINI_MODEL,
-      generationConfig: { responseMimeType: "application/json", temperature: 0.1 },
-    });
-
-    const result = await model.generateContent(prompt);
-    const text = result.response.text();
-    const jsonMatch = text.match(/\[[\s\S]*\]/);
-    if (!jsonMatch) return null;
-
-    return JSON.parse(jsonMatch[0]) as TrackEnrichment[];
-  } catch {
-    return null;
-  }
+  llm: LlmProvider[]
+): Promise<{ enrichments: TrackEnrichment[]; source: string } | null> {
+  const response = await completeJSON<unknown>(
+    llm,
+    { prompt, json: true, temperature: 0.1, maxOutputTokens: 2000, timeoutMs: ENRICHMENT_TIMEOUT_MS },
+    "trackEnricher",
+    data => (enrichmentList(data)?.length ?? 0) > 0
+  );
+  const enrichments = response ? enrichmentList(response.data) : null;
+  return response && enrichments ? { enrichments, source: response.provider } : null;
 }
 
 /**
@@ -139,14 +112,14 @@ async function enrichWithGemini(
  * Also writes results to Firestore cache (atmos_ prefix fields).
  */
 async function applyEnrichment(
-  db: Firestore,
+  db: AtmosStore,
   tracks: TrackCandidate[],
   enrichments: TrackEnrichment[],
   source: string
 ): Promise<void> {
   const { Timestamp: FsTimestamp } = await import("firebase-admin/firestore");
   const now = FsTimestamp.now();
-  const writes: Promise<void>[] = [];
+  const writes: Promise<unknown>[] = [];
 
   for (const enrichment of enrichments) {
     const track = tracks[enrichment.index];
@@ -191,7 +164,7 @@ export interface EnricherResult {
  * Processes ALL candidates (not just the final selection) so the cache fills rapidly.
  */
 export async function enrichTracks(
-  db: Firestore,
+  db: AtmosStore,
   candidates: TrackCandidate[],
   intent: PlaylistIntent,
   config: EnrichmentConfig
@@ -259,7 +232,7 @@ export async function enrichTracks(
   }
 
   // -- Concurrent batch executor ---------------------------------
-  const CONCURRENCY = 4; // max simultaneous Gemini/Perplexity calls
+  const CONCURRENCY = 4; // max simultaneous LLM calls
 
   interface EnrichmentJob {
     artist: string;
@@ -292,19 +265,13 @@ export async function enrichTracks(
 
       const prompt = buildEnrichmentPrompt(job.artist, batchInput, intent);
 
-      // Gemini Flash is primary (classification task -- no web search needed)
-      // Perplexity is fallback only
-      let enrichments = await enrichWithGemini(prompt, config.geminiApiKey);
-      let source = "gemini";
-
-      if (!enrichments || enrichments.length === 0) {
-        enrichments = await enrichWithPerplexity(prompt, config.perplexityApiKey);
-        source = "perplexity";
-      }
+      // Gemini Flash is primary by default (classification task -- no web
+      // search needed); Perplexity is fallback only
+      const result = await enrichWithLlm(prompt, config.llm);
 
-      if (enrichments && enrichments.length > 0) {
-        await applyEnrichment(db, job.batchTracks, enrichments, source);
-        freshlyEnriched += enrichments.length;
+      if (result) {
+        await applyEnrichment(db, job.batchTracks, result.enrichments, result.source);
+        freshlyEnriched += result.enrichments.length;
       } else {
         for (const track of job.batchTracks) {
           track.atmos_mood = "unknown";
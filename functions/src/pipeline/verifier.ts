@@ -2,23 +2,36 @@
 // Stage 6: Re-verify selected tracks against Apple Music API.
 //
 // - Confirms Atmos status on Apple Music
-// - Extracts real duration from API response (writes back to Firestore)
+// - Extracts real duration and release years from API response (writes back to Firestore)
 // - Removes tracks not found on Apple Music (Assembler fills gaps)
 // - Keeps tracks found without Atmos flag with a warning badge
+// - Drops tracks released outside the intent's yearRange, by original release year
+//   rather than an Atmos reissue's date (see lib/releaseEra.ts)
 
-import type { Firestore } from "firebase-admin/firestore";
-import { batchLookupAppleTracks } from "../lib/appleMusic.js";
-import type { PlaylistDraft, PlaylistDraftTrack, VerifiedTrack } from "../lib/types.js";
+import type { AtmosStore } from "../lib/atmosDb.js";
+import { batchLookupAppleTracks, type AppleLookupResult } from "../lib/appleMusic.js";
+import { tapeCall, type PipelineTape } from "../lib/tape.js";
+import { meterCall, type BuildLedger } from "../lib/buildLedger.js";
+import { eraYearOf, releaseYearsOf, type ReleaseYears } from "../lib/releaseEra.js";
+import type { DroppedItem, PlaylistDraft, PlaylistDraftTrack, VerifiedTrack } from "../lib/types.js";
 
 const DEFAULT_DURATION_MS = 240_000; // 4 min fallback
+// Tracks per lookup round -- matches the Apple Music batch size, so each round is one API call
+const VERIFY_CHUNK_SIZE = 50;
 
 interface VerifierConfig {
   appleMusicToken: string;
+  tape?: PipelineTape; // record/replay Apple Music lookups
+  ledger?: BuildLedger; // meters Apple Music lookups
+  yearRange?: [number, number] | null; // PlaylistIntent.yearRange -- checked against the original release year
+  /** Called after each lookup round with every track verified so far (draft order). */
+  onVerified?: (verifiedSoFar: VerifiedTrack[]) => Promise<void> | void;
 }
 
 export interface VerifierResult {
   verifiedTracks: VerifiedTrack[];
   removedDocIds: string[];
+  dropped: DroppedItem[]; // every removed or filtered track, with the reason
   atmosVerifiedCount: number;
   atmosWarningCount: number;
 }
@@ -28,7 +41,7 @@ export interface VerifierResult {
  * Tracks that fail AM lookup get a cooldown period before being retried.
  * Fire-and-forget -- don't block the response.
  */
-function writeVerificationFailures(db: Firestore, failedDocIds: string[]): void {
+function writeVerificationFailures(db: AtmosStore, failedDocIds: string[]): void {
   if (failedDocIds.length === 0) return;
   const { Timestamp } = require("firebase-admin/firestore") as typeof import("firebase-admin/firestore");
   const batch = db.batch();
@@ -42,37 +55,73 @@ function writeVerificationFailures(db: Firestore, failedDocIds: string[]): void
   console.log(`[verifier] Wrote am_verification_failed_at for ${failedDocIds.length} tracks`);
 }
 
+interface AppleFieldsUpdate {
+  docId: string;
+  durationMs: number | null; // null = Apple returned no duration
+  url: string | null;
+  releaseDate: string | null;
+  years: ReleaseYears;
+}
+
 /**
- * Write real Apple Music durations back to Firestore for future use.
- * Fire-and-forget -- don't block the response.
+ * Write real Apple Music durations and release years back to Firestore for
+ * future use -- release_year / original_year / remix_year are what DBMatcher
+ * reads for era matching. Fire-and-forget -- don't block the response.
  */
-function writeDurationsBack(
-  db: Firestore,
-  updates: Array<{ docId: string; durationMs: number; url: string | null }>
-): void {
-  const { Timestamp } = require("firebase-admin/firestore") as typeof import("firebase-admin/firestore");
+function writeAppleFieldsBack(db: AtmosStore, updates: AppleFieldsUpdate[]): void {
+  const { FieldValue, Timestamp } = require("firebase-admin/firestore") as typeof import("firebase-admin/firestore");
   const batch = db.batch();
   for (const u of updates) {
     const ref = db.collection("tracks").doc(u.docId);
-    const fields: Record<string, unknown> = {
-      am_duration_ms: u.durationMs,
-      am_enriched: true,
-      am_enriched_at: Timestamp.now(),
-    };
+    const fields: Record<string, unknown> = {};
+    if (u.durationMs != null) {
+      fields.am_duration_ms = u.durationMs;
+      fields.am_enriched = true;
+      fields.am_enriched_at = Timestamp.now();
+    }
     if (u.url) fields.am_url = u.url;
+    if (u.releaseDate && u.years.releaseYear != null) {
+      fields.am_release_date = u.releaseDate;
+      fields.release_year = u.years.releaseYear;
+      // A reissue can lose an earlier original-year guess, or stop being a reissue
+      fields.original_year = u.years.originalYear ?? FieldValue.delete();
+      fields.remix_year = u.years.remixYear ?? FieldValue.delete();
+    }
     batch.set(ref, fields, { merge: true });
   }
   batch.commit().catch(err =>
-    console.warn("[verifier] Duration write-back failed:", err)
+    console.warn("[verifier] Apple Music write-back failed:", err)
   );
 }
 
+function trackLabel(track: PlaylistDraftTrack): string {
+  return `${track.Artist} - ${track.track_Title}`;
+}
+
+/** Look up one round of draft tracks on Apple Music (taped for record/replay). */
+async function lookupChunk(
+  chunk: PlaylistDraftTrack[],
+  config: VerifierConfig
+): Promise<Map<string, AppleLookupResult>> {
+  const appleIds = chunk.map(t => t.Apple_Music_ID);
+  const lookupEntries = await meterCall(config.ledger, "appleMusic", "catalog", 1, () =>
+    tapeCall<Array<[string, AppleLookupResult]>>(
+      config.tape,
+      "appleMusic",
+      appleIds.join(","),
+      async () => Array.from((await batchLookupAppleTracks(appleIds, config.appleMusicToken)).entries()),
+      []
+    )
+  );
+  return new Map(lookupEntries);
+}
+
 /**
  * Main entry point: verify draft playlist tracks against Apple Music.
  * Returns verified tracks (removed = not found on Apple Music).
  */
 export async function verifyPlaylist(
-  db: Firestore,
+  db: AtmosStore,
   draft: PlaylistDraft,
   config: VerifierConfig
 ): Promise<VerifierResult> {
@@ -81,6 +130,7 @@ export async function verifyPlaylist(
     return {
       verifiedTracks: [],
       removedDocIds: [],
+      dropped: [],
       atmosVerifiedCount: 0,
       atmosWarningCount: 0,
     };
@@ -88,71 +138,107 @@ export async function verifyPlaylist(
 
   console.log(`[verifier] Verifying ${draftTracks.length} tracks against Apple Music API...`);
 
-  const appleIds = draftTracks.map(t => t.Apple_Music_ID);
-  const lookupResults = await batchLookupAppleTracks(appleIds, config.appleMusicToken);
-
   const verifiedTracks: VerifiedTrack[] = [];
   const removedDocIds: string[] = [];
-  const durationUpdates: Array<{ docId: string; durationMs: number; url: string | null }> = [];
+  const dropped: DroppedItem[] = [];
+  const appleUpdates: AppleFieldsUpdate[] = [];
   let atmosVerifiedCount = 0;
   let atmosWarningCount = 0;
 
-  for (const draftTrack of draftTracks) {
-    const result = lookupResults.get(draftTrack.Apple_Music_ID);
+  // Verify in rounds so callers can stream confirmed tracks before the whole draft is done
+  for (let i = 0; i < draftTracks.length; i += VERIFY_CHUNK_SIZE) {
+    const chunk = draftTracks.slice(i, i + VERIFY_CHUNK_SIZE);
+    const lookupResults = await lookupChunk(chunk, config);
+    const verifiedBefore = verifiedTracks.length;
 
-    if (!result || !result.found) {
-      // Track not found on Apple Music -- remove from playlist
-      console.log(`[verifier] Removing "${draftTrack.track_Title}" by ${draftTrack.Artist} (not found on Apple Music)`);
-      removedDocIds.push(draftTrack.docId);
-      continue;
-    }
+    for (const draftTrack of chunk) {
+      const result = lookupResults.get(draftTrack.Apple_Music_ID);
+
+      if (!result || !result.found) {
+        // Track not found on Apple Music -- remove from playlist
+        console.log(`[verifier] Removing "${draftTrack.track_Title}" by ${draftTrack.Artist} (not found on Apple Music)`);
+        removedDocIds.push(draftTrack.docId);
+        dropped.push({ label: trackLabel(draftTrack), reason: "Not found on Apple Music", docId: draftTrack.docId });
+        continue;
+      }
 
-    const durationMs = result.durationMs ?? DEFAULT_DURATION_MS;
-    const durationEstimated = result.durationMs == null;
+      const durationMs = result.durationMs ?? DEFAULT_DURATION_MS;
+      const durationEstimated = result.durationMs == null;
 
-    // Queue duration write-back if we got a real value
-    if (!durationEstimated) {
-      durationUpdates.push({
+      const years = result.attrs ? releaseYearsOf(result.attrs) : {};
+
+      // Queue write-back if we got a real duration or a release date
+      if (!durationEstimated || years.releaseYear != null) {
+        appleUpdates.push({
+          docId: draftTrack.docId,
+          durationMs: durationEstimated ? null : durationMs,
+          url: result.url,
+          releaseDate: result.attrs?.releaseDate ?? null,
+          years,
+        });
+      }
+
+      // Release years are only known for sure here; enforce the year-range constraint before counting the track
+      const year = eraYearOf(years);
+      const yearRange = config.yearRange;
+      if (yearRange && year != null && (year < yearRange[0] || year > yearRange[1])) {
+        dropped.push({
+          label: trackLabel(draftTrack),
+          reason: `Released ${year}${years.remixYear != null ? ` (Atmos ${years.remixYear})` : ""}, ` +
+            `outside ${yearRange[0]}-${yearRange[1]}`,
+          docId: draftTrack.docId,
+        });
+        continue;
+      }
+
+      if (result.hasAtmos) {
+        atmosVerifiedCount++;
+      } else {
+        // Non-Atmos tracks are filtered out -- the 1.4x curator overshoot absorbs this drop
+        atmosWarningCount++;
+        console.log(
+          `[verifier] Filtered: "${draftTrack.track_Title}" by ${draftTrack.Artist} -- found on AM but no Atmos flag`
+        );
+        dropped.push({ label: trackLabel(draftTrack), reason: "No Dolby Atmos flag on Apple Music", docId: draftTrack.docId });
+        continue;
+      }
+
+      verifiedTracks.push({
         docId: draftTrack.docId,
+        Artist: draftTrack.Artist,
+        track_Title: draftTrack.track_Title,
+        album: draftTrack.album,
+        Apple_Music_ID: draftTrack.Apple_Music_ID,
+        Apple_Music_URL: result.url ?? draftTrack.Apple_Music_URL,
         durationMs,
-        url: result.url,
+        durationEstimated,
+        atmosVerified: result.hasAtmos,
+        atmosWarning: !result.hasAtmos,
+        atmos_mood: draftTrack.atmos_mood,
+        atmos_energy: draftTrack.atmos_energy,
+        atmos_tempo_estimate: draftTrack.atmos_tempo_estimate,
+        atmos_vibe: draftTrack.atmos_vibe,
+        atmos_key_estimate: draftTrack.atmos_key_estimate,
+        FINAL_SCORE: draftTrack.FINAL_SCORE,
+        ...years,
+        discNumber: result.attrs?.discNumber,
+        trackNumber: result.attrs?.trackNumber,
+        provenance: {
+          ...draftTrack.provenance,
+          selectionRationale: draftTrack.selectionRationale,
+          gapFill: false,
+        },
       });
     }
 
-    if (result.hasAtmos) {
-      atmosVerifiedCount++;
-    } else {
-      // Non-Atmos tracks are filtered out -- the 1.4x curator overshoot absorbs this drop
-      atmosWarningCount++;
-      console.log(
-        `[verifier] Filtered: "${draftTrack.track_Title}" by ${draftTrack.Artist} -- found on AM but no Atmos flag`
-      );
-      continue;
+    if (config.onVerified && verifiedTracks.length > verifiedBefore) {
+      await config.onVerified([...verifiedTracks]);
     }
-
-    verifiedTracks.push({
-      docId: draftTrack.docId,
-      Artist: draftTrack.Artist,
-      track_Title: draftTrack.track_Title,
-      album: draftTrack.album,
-      Apple_Music_ID: draftTrack.Apple_Music_ID,
-      Apple_Music_URL: result.url ?? draftTrack.Apple_Music_URL,
-      durationMs,
-      durationEstimated,
-      atmosVerified: result.hasAtmos,
-      atmosWarning: !result.hasAtmos,
-      atmos_mood: draftTrack.atmos_mood,
-      atmos_energy: draftTrack.atmos_energy,
-      atmos_tempo_estimate: draftTrack.atmos_tempo_estimate,
-      atmos_vibe: draftTrack.atmos_vibe,
-      atmos_key_estimate: draftTrack.atmos_key_estimate,
-      FINAL_SCORE: draftTrack.FINAL_SCORE,
-    });
   }
 
   // Fire-and-forget write-backs
-  if (durationUpdates.length > 0) {
-    writeDurationsBack(db, durationUpdates);
+  if (appleUpdates.length > 0) {
+    writeAppleFieldsBack(db, appleUpdates);
   }
   writeVerificationFailures(db, removedDocIds);
 
@@ -165,6 +251,7 @@ export async function verifyPlaylist(
   return {
     verifiedTracks,
     removedDocIds,
+    dropped,
     atmosVerifiedCount,
     atmosWarningCount,
   };
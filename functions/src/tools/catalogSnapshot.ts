@@ -0,0 +1,100 @@
+// src/tools/catalogSnapshot.ts
+// CLI for catalog snapshot fixtures (see lib/catalogSnapshot.ts).
+//
+//   Export (live Atmos DB, needs ATMOS_DB_SERVICE_ACCOUNT):
+//     npx tsx src/tools/catalogSnapshot.ts export fixtures/catalog/<name>.json [maxTracks]
+//
+//   Match (offline, no credentials):
+//     npx tsx src/tools/catalogSnapshot.ts match fixtures/catalog/<name>.json "Massive Attack; Portishead"
+//
+//   Similar (offline, no credentials):
+//     npx tsx src/tools/catalogSnapshot.ts similar fixtures/catalog/<name>.json "chill late-night jazz"
+//
+// `match` runs DBMatcher against the fixture exactly as a build would with
+// USE_CATALOG_SNAPSHOT on, and prints matched / unmatched artists and tracks.
+// `similar` does the same for the embedding similarity source, with the
+// description as the whole intent.
+// A small fixture can also be passed to runPipeline as `catalogSnapshot`.
+
+import { readFileSync, writeFileSync } from "fs";
+import { getAtmosDb } from "../lib/atmosDb.js";
+import {
+  catalogFromFile,
+  catalogFromTracks,
+  scanCatalog,
+  serializeCatalog,
+  type CatalogSnapshotFile,
+} from "../lib/catalogSnapshot.js";
+import type { PlaylistIntent } from "../lib/types.js";
+import { discoverTracksBySimilarity, matchArtistsToTracks } from "../pipeline/dbMatcher.js";
+
+async function exportFixture(outPath: string, maxTracks?: number): Promise<number> {
+  let catalog = await scanCatalog(getAtmosDb());
+  if (maxTracks) catalog = catalogFromTracks(catalog.tracks.slice(0, maxTracks), catalog.builtAt);
+  writeFileSync(outPath, JSON.stringify(serializeCatalog(catalog)));
+  console.log(`[catalogSnapshot] Exported ${catalog.tracks.length} tracks to ${outPath}`);
+  return 0;
+}
+
+async function matchFixture(fixturePath: string, artistList: string): Promise<number> {
+  const catalog = catalogFromFile(JSON.parse(readFileSync(fixturePath, "utf8")) as CatalogSnapshotFile);
+  const artists = artistList.split(";").map(name => name.trim()).filter(Boolean).map(name => ({
+    name,
+    relevanceScore: 0.8,
+    genreContext: "fixture",
+    knownFor: "",
+  }));
+
+  // The snapshot answers every query -- no Atmos DB needed
+  const result = await matchArtistsToTracks(null, { artists, searchStrategy: "fixture" }, undefined, catalog);
+
+  for (const t of result.candidates) console.log(`  ${t.Artist} - ${t.track_Title} (${t.FINAL_SCORE ?? "unscored"})`);
+  console.log(`[catalogSnapshot] Matched: ${result.matchedArtists.join(", ") || "none"}`);
+  console.log(`[catalogSnapshot] Unmatched: ${result.unmatchedArtists.join(", ") || "none"}`);
+  return result.candidates.length > 0 ? 0 : 1;
+}
+
+async function similarToFixture(fixturePath: string, description: string): Promise<number> {
+  const catalog = catalogFromFile(JSON.parse(readFileSync(fixturePath, "utf8")) as CatalogSnapshotFile);
+  const intent: PlaylistIntent = {
+    description,
+    genres: [],
+    subGenres: [],
+    moods: [],
+    vibeKeywords: [],
+    energyRange: [1, 10],
+    targetDurationMinutes: 60,
+    targetTrackCount: null,
+    artistPreferences: [],
+    excludeArtists: [],
+    eraPreference: null,
+    referenceQuality: false,
+  };
+
+  const candidates = await discoverTracksBySimilarity(null, intent, 25, catalog);
+  for (const t of candidates) console.log(`  ${t.provenance?.similarity} ${t.Artist} - ${t.track_Title} (${t.atmos_mood ?? "no mood"})`);
+  return candidates.length > 0 ? 0 : 1;
+}
+
+async function main(): Promise<number> {
+  const [mode, ...args] = process.argv.slice(2);
+  if (mode === "export" && (args.length === 1 || args.length === 2)) {
+    return exportFixture(args[0], args[1] ? Number(args[1]) : undefined);
+  }
+  if (mode === "match" && args.length === 2) return matchFixture(args[0], args[1]);
+  if (mode === "similar" && args.length === 2) return similarToFixture(args[0], args[1]);
+  console.error(
+    "Usage:\n" +
+    "  catalogSnapshot export <out.json> [maxTracks]\n" +
+    '  catalogSnapshot match <fixture.json> "<artist>; <artist>"\n' +
+    '  catalogSnapshot similar <fixture.json> "<description>"'
+  );
+  return 2;
+}
+
+main()
+  .then(code => process.exit(code))
+  .catch(err => {
+    console.error("[catalogSnapshot] Failed:", err);
+    process.exit(1);
+  });
@@ -0,0 +1,98 @@
+// src/tools/constraintCases.ts
+// Regression cases for the prompt constraint parser (pipeline/constraints.ts).
+//
+//   npx tsx src/tools/constraintCases.ts
+//
+// Each case lists the constraint fields a prompt must produce; fields not
+// listed aren't checked. Prompts are parsed against a small artist index
+// (ARTISTS), standing in for the Atmos DB's. Prints every mismatch and exits
+// non-zero if any case fails, so it can gate parser changes.
+
+import { indexArtistCredits } from "../lib/artistIndex.js";
+import { parseConstraints, type PromptConstraints } from "../pipeline/constraints.js";
+
+interface ConstraintCase {
+  prompt: string;
+  expect: PromptConstraints;
+}
+
+const ARTISTS = ["Massive Attack", "Portishead", "Oasis", "Blur", "Drake", "Future", "Sade"];
+const NOW = new Date().getFullYear();
+
+const CASES: ConstraintCase[] = [
+  // Duration and track count
+  { prompt: "45 minute chill playlist", expect: { targetDurationMinutes: 45 } },
+  { prompt: "an hour and a half of deep house", expect: { targetDurationMinutes: 90 } },
+  { prompt: "20 songs of sad indie", expect: { targetTrackCount: 20 } },
+  // Tempo
+  { prompt: "100-120 bpm house", expect: { bpmRange: [100, 120] } },
+  { prompt: "running mix under 90 bpm", expect: { bpmRange: [40, 90] } },
+  { prompt: "around 128 bpm techno", expect: { bpmRange: [123, 133] } },
+  // Camelot keys, including ranges that wrap from 12 to 1
+  { prompt: "house in 8A-10A", expect: { allowedKeys: ["8A", "9A", "10A"] } },
+  { prompt: "11B-1B deep house", expect: { allowedKeys: ["11B", "12B", "1B"] } },
+  { prompt: "mixable keys 8A, 9A or 4B", expect: { allowedKeys: ["8A", "9A", "4B"] } },
+  // Unknown-tempo strictness -- only meaningful next to a tempo or key limit
+  { prompt: "strict 120-125 bpm", expect: { bpmRange: [120, 125], unknownTempoPolicy: "drop" } },
+  { prompt: "techno strictly in 8A-10A", expect: { unknownTempoPolicy: "drop" } },
+  { prompt: "100-110 bpm, only tracks with a known tempo", expect: { unknownTempoPolicy: "drop" } },
+  { prompt: "100-110 bpm lounge", expect: { unknownTempoPolicy: undefined } },
+  { prompt: "a strict 80s synthpop playlist", expect: { bpmRange: undefined, allowedKeys: undefined, unknownTempoPolicy: undefined } },
+  // Release years
+  { prompt: "only post-2015 hip hop", expect: { yearRange: [2016, NOW] } },
+  { prompt: "pre-1980 soul", expect: { yearRange: [1900, 1979] } },
+  { prompt: "rock between 1990 and 1999", expect: { yearRange: [1990, 1999] } },
+  // Per-artist cap -- not a track count
+  { prompt: "indie rock, max 2 songs per artist", expect: { maxTracksPerArtist: 2, targetTrackCount: undefined } },
+  // Include lists: artists only when the index knows them, "X by Y" as tracks
+  { prompt: "trip hop including Massive Attack and Portishead", expect: { requiredArtists: ["Massive Attack", "Portishead"] } },
+  { prompt: "britpop, must include Oasis, Blur", expect: { requiredArtists: ["Oasis", "Blur"] } },
+  { prompt: "must include Hotel California", expect: { requiredArtists: undefined, requiredTracks: undefined } },
+  {
+    prompt: "must include Teardrop by Massive Attack",
+    expect: { requiredArtists: undefined, requiredTracks: [{ title: "Teardrop", artist: "Massive Attack" }] },
+  },
+  {
+    prompt: "90s britpop including Wonderwall by Oasis",
+    expect: { requiredArtists: undefined, requiredTracks: [{ title: "Wonderwall", artist: "Oasis" }] },
+  },
+  {
+    prompt: "trip hop including Teardrop by Massive Attack and Glory Box by Portishead",
+    expect: {
+      requiredTracks: [{ title: "Teardrop", artist: "Massive Attack" }, { title: "Glory Box", artist: "Portishead" }],
+    },
+  },
+  // Quoted required tracks
+  { prompt: 'chill mix, must include "Glory Box" by Portishead', expect: { requiredTracks: [{ title: "Glory Box", artist: "Portishead" }] } },
+  { prompt: 'add "Teardrop" to a trip hop mix', expect: { requiredTracks: [{ title: "Teardrop", artist: null }] } },
+  // Exclusions
+  { prompt: "dark trap, no Drake or Future", expect: { excludeArtists: ["Drake", "Future"] } },
+  { prompt: "smooth jazz without Kenny G", expect: { excludeArtists: ["Kenny G"] } },
+  // Band and song names that start with an exclusion keyword are not exclusions
+  { prompt: "90s alt rock like Pearl Jam, No Doubt and Garbage", expect: { excludeArtists: undefined } },
+  { prompt: "No Woman No Cry reggae vibes", expect: { excludeArtists: undefined } },
+  { prompt: "Not Fade Away vibes", expect: { excludeArtists: undefined } },
+  { prompt: "ska punk like No Doubt, no Sublime", expect: { excludeArtists: ["Sublime"] } },
+];
+
+function same(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function main(): number {
+  const index = indexArtistCredits(ARTISTS, Date.now());
+  let failed = 0;
+  for (const { prompt, expect } of CASES) {
+    const parsed = parseConstraints(prompt, index);
+    for (const [field, expected] of Object.entries(expect)) {
+      const actual = parsed[field as keyof PromptConstraints];
+      if (same(actual, expected)) continue;
+      failed++;
+      console.error(`[constraintCases] "${prompt}" ${field}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`);
+    }
+  }
+  console.log(`[constraintCases] ${CASES.length} cases, ${failed} mismatches`);
+  return failed > 0 ? 1 : 0;
+}
+
+process.exit(main());
@@ -0,0 +1,135 @@
+// src/tools/dbMatcherBench.ts
+// Stage 3 latency benchmark: DBMatcher against the live Atmos DB for 50, 100
+// and 200 discovered artists. Not part of the functions bundle.
+//
+//   ATMOS_DB_SERVICE_ACCOUNT="$(cat atmos-db-service-account.json)" \
+//     npx tsx src/tools/dbMatcherBench.ts
+//
+// Artists are sampled evenly across the artist index, with every tenth name
+// misspelled so the fuzzy resolver and the unresolved fallback are exercised
+// too. One warm-up run (which also loads the artist index) precedes the timed
+// runs; each size prints median and worst latency and the queries issued.
+//
+// The same samples then go through the pre-index matcher (exact, prefix, then
+// "The"-stripped query per artist, ten artists at a time) for comparison. It
+// only counts hits -- no quality gate or candidate building -- so its latency
+// is a floor for the old stage 3, not a replay of it.
+
+import type { Firestore } from "firebase-admin/firestore";
+import { getAtmosDb } from "../lib/atmosDb.js";
+import { loadArtistIndex } from "../lib/artistIndex.js";
+import type { DiscoveredArtist } from "../lib/types.js";
+import { matchArtistsToTracks } from "../pipeline/dbMatcher.js";
+
+const SIZES = [50, 100, 200];
+const RUNS = 3;
+const MISSPELL_EVERY = 10;
+const BASELINE_BATCH_SIZE = 10;
+const BASELINE_LIMIT = 50;
+
+/** Drop one middle character: "Portishead" -> "Portisead". */
+function misspell(name: string): string {
+  const mid = Math.floor(name.length / 2);
+  return name.length > 5 ? name.slice(0, mid) + name.slice(mid + 1) : name;
+}
+
+function sampleArtists(names: string[], count: number): DiscoveredArtist[] {
+  const step = Math.max(1, Math.floor(names.length / count));
+  return Array.from({ length: Math.min(count, names.length) }, (_, i) => ({
+    name: i % MISSPELL_EVERY === MISSPELL_EVERY - 1 ? misspell(names[i * step]) : names[i * step],
+    relevanceScore: 0.8,
+    genreContext: "benchmark",
+    knownFor: "",
+  }));
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+interface BenchRun {
+  durationMs: number;
+  queries: number;
+  matched: number;
+}
+
+// -- Baseline matcher ---------------------------------------------------------
+
+/** One artist the pre-index way: exact, then prefix, then without "The ". */
+async function baselineArtist(db: Firestore, name: string, stats: { queries: number }): Promise<boolean> {
+  const tracks = db.collection("tracks");
+  stats.queries++;
+  if (!(await tracks.where("Artist", "==", name).limit(BASELINE_LIMIT).get()).empty) return true;
+  stats.queries++;
+  const prefix = await tracks.where("Artist", ">=", name).where("Artist", "<=", name + "\uf8ff").limit(BASELINE_LIMIT).get();
+  if (!prefix.empty) return true;
+  const normalized = name.replace(/^(The |A |An )/i, "").trim().toLowerCase();
+  if (normalized === name.toLowerCase()) return false;
+  stats.queries++;
+  const capitalized = normalized.charAt(0).toUpperCase() + normalized.slice(1);
+  return !(await tracks.where("Artist", "==", capitalized).limit(BASELINE_LIMIT).get()).empty;
+}
+
+async function baselineMatch(db: Firestore, artists: DiscoveredArtist[]): Promise<BenchRun> {
+  const stats = { queries: 0 };
+  const start = Date.now();
+  let matched = 0;
+  for (let i = 0; i < artists.length; i += BASELINE_BATCH_SIZE) {
+    const batch = artists.slice(i, i + BASELINE_BATCH_SIZE);
+    const hits = await Promise.all(batch.map(a => baselineArtist(db, a.name, stats)));
+    matched += hits.filter(Boolean).length;
+  }
+  return { durationMs: Date.now() - start, queries: stats.queries, matched };
+}
+
+// -- Runner ---------------------------------------------------------------------
+
+async function currentMatch(db: Firestore, artists: DiscoveredArtist[]): Promise<BenchRun> {
+  const result = await matchArtistsToTracks(db, { artists, searchStrategy: "benchmark" });
+  return { durationMs: result.durationMs, queries: result.queries, matched: result.matchedArtists.length };
+}
+
+async function benchRow(
+  label: string,
+  size: number,
+  run: () => Promise<BenchRun>
+): Promise<string> {
+  const durations: number[] = [];
+  let last: BenchRun = { durationMs: 0, queries: 0, matched: 0 };
+  for (let i = 0; i < RUNS; i++) {
+    last = await run();
+    durations.push(last.durationMs);
+  }
+  return `| ${label} | ${size} | ${median(durations)}ms | ${Math.max(...durations)}ms | ${last.queries} | ${last.matched} |`;
+}
+
+async function main(): Promise<void> {
+  const db = getAtmosDb();
+  const index = await loadArtistIndex(db);
+  if (!index) throw new Error("No artist index -- run rebuildArtistIndex first");
+  // Solo spellings only, so the sample looks like discovery output
+  const names = [...index.entries.values()].map(spellings => spellings[0]).filter(n => !/[,&]| feat\. /i.test(n));
+
+  await currentMatch(db, sampleArtists(names, 10));
+  await baselineMatch(db, sampleArtists(names, 10));
+
+  const rows: string[] = [];
+  for (const size of SIZES) {
+    const artists = sampleArtists(names, size);
+    rows.push(await benchRow("current", size, () => currentMatch(db, artists)));
+    rows.push(await benchRow("baseline", size, () => baselineMatch(db, artists)));
+  }
+  // Markdown, so the table can go straight into TECHNICAL_HANDOFF.md
+  console.log([
+    "",
+    "| Matcher | Artists | Median | Worst | Queries | Matched |",
+    "|---|---|---|---|---|---|",
+    ...rows,
+  ].join("\n"));
+}
+
+main().catch(err => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,98 @@
+// src/tools/pipelineTape.ts
+// CLI for recording and replaying full pipeline runs (see lib/tape.ts).
+//
+//   Record (live APIs, needs the same env vars as the functions emulator):
+//     npx tsx src/tools/pipelineTape.ts record "<prompt>" fixtures/tapes/<name>.json
+//
+//   Replay (offline, no credentials, no API spend):
+//     npx tsx src/tools/pipelineTape.ts replay fixtures/tapes/<name>.json
+//
+// Replay prints the rebuilt track list, any tape misses, and a diff against the
+// recorded run's final tracks. Exits non-zero if the playlist changed, so it can
+// gate candidateScorer / sequencer / assembler changes.
+
+import { readFileSync, writeFileSync } from "fs";
+import { runPipeline } from "../pipeline/orchestrator.js";
+import { createRecordingTape, loadTape, serializeTape, type PipelineTape, type PipelineTapeFile } from "../lib/tape.js";
+import { parseStageConfig } from "../lib/llm.js";
+
+function pipelineConfig(tape: PipelineTape) {
+  const env = process.env;
+  return {
+    geminiApiKey:     env.GEMINI_API_KEY ?? "",
+    perplexityApiKey: env.PERPLEXITY_API_KEY ?? "",
+    serperApiKey:     env.SERPER_API_KEY || undefined,
+    appleTeamId:      env.APPLE_TEAM_ID ?? "",
+    appleKeyId:       env.APPLE_KEY_ID ?? "",
+    applePrivateKey:  env.APPLE_PRIVATE_KEY ?? "",
+    llmStages:        parseStageConfig(env.LLM_STAGE_CONFIG),
+    tape,
+  };
+}
+
+async function record(prompt: string, outPath: string): Promise<number> {
+  const tape = createRecordingTape(prompt);
+  const result = await runPipeline(prompt, pipelineConfig(tape));
+
+  tape.expectedTracks = result.playlist?.tracks.map(t => ({
+    docId: t.docId,
+    Artist: t.Artist,
+    track_Title: t.track_Title,
+  }));
+  writeFileSync(outPath, JSON.stringify(serializeTape(tape), null, 2));
+
+  console.log(
+    `[pipelineTape] Recorded ${tape.entries.length} calls ` +
+    `(${tape.expectedTracks?.length ?? 0} tracks) to ${outPath}`
+  );
+  return result.playlist ? 0 : 1;
+}
+
+async function replay(tapePath: string): Promise<number> {
+  const file = JSON.parse(readFileSync(tapePath, "utf8")) as PipelineTapeFile;
+  const tape = loadTape(file);
+  const result = await runPipeline(file.prompt, pipelineConfig(tape));
+
+  const actual = result.playlist?.tracks ?? [];
+  actual.forEach((t, i) => console.log(`${String(i + 1).padStart(3)}. ${t.Artist} - ${t.track_Title}`));
+
+  if (tape.misses.length > 0) {
+    console.log(`[pipelineTape] ${tape.misses.length} tape misses (calls not in the recording):`);
+    for (const miss of tape.misses) console.log(`  - ${miss}`);
+  }
+
+  const expected = file.expectedTracks ?? [];
+  const expectedIds = expected.map(t => t.docId);
+  const actualIds = actual.map(t => t.docId);
+  const added = actual.filter(t => !expectedIds.includes(t.docId));
+  const removed = expected.filter(t => !actualIds.includes(t.docId));
+  const reordered = added.length === 0 && removed.length === 0 &&
+    expectedIds.some((id, i) => actualIds[i] !== id);
+
+  for (const t of added) console.log(`  + ${t.Artist} - ${t.track_Title}`);
+  for (const t of removed) console.log(`  - ${t.Artist} - ${t.track_Title}`);
+  if (reordered) console.log("  ~ same tracks, different order");
+
+  const unchanged = added.length === 0 && removed.length === 0 && !reordered;
+  console.log(`[pipelineTape] Replay ${unchanged ? "matches" : "DIFFERS FROM"} the recorded playlist`);
+  return unchanged ? 0 : 1;
+}
+
+async function main(): Promise<number> {
+  const [mode, ...args] = process.argv.slice(2);
+  if (mode === "record" && args.length === 2) return record(args[0], args[1]);
+  if (mode === "replay" && args.length === 1) return replay(args[0]);
+  console.error(
+    "Usage:\n" +
+    '  pipelineTape record "<prompt>" <out.json>\n' +
+    "  pipelineTape replay <tape.json>"
+  );
+  return 2;
+}
+
+main()
+  .then(code => process.exit(code))
+  .catch(err => {
+    console.error("[pipelineTape] Failed:", err);
+    process.exit(1);
+  });